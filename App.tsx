@@ -3,6 +3,7 @@ import { BrowserRouter, Routes, Route, Link } from "react-router-dom";
 import Generador from "./Generador";
 import Repositorio from "./Repositorio";
 import Diagnostico from "./Diagnostico";
+import Verificar from "./Verificar";
 
 /* ============================= */
 /* HOME (pantalla principal)     */
@@ -78,6 +79,13 @@ const Home: React.FC = () => {
               Diagnóstico
             </Link>
 
+            <Link
+              to="/verificar"
+              className="w-full text-center py-3 rounded-lg font-bold bg-white/10 hover:bg-white/15 transition border border-white/15"
+            >
+              Verificar documento
+            </Link>
+
           </div>
         </div>
       </div>
@@ -115,6 +123,7 @@ const App: React.FC = () => {
         <Route path="/generador" element={<Generador />} />
         <Route path="/repositorio" element={<Repositorio />} />
         <Route path="/diagnostico" element={<Diagnostico />} />
+        <Route path="/verificar" element={<Verificar />} />
       </Routes>
     </BrowserRouter>
   );
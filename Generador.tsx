@@ -1,140 +1,144 @@
 import React, { useState, useCallback, useEffect, useRef, useMemo } from "react";
 import { HistoryItem, loadHistory, saveHistory } from "./history";
-import { PDFDocument, rgb, StandardFonts } from "pdf-lib";
+import { PDFDocument } from "pdf-lib";
 import { Link, useLocation } from "react-router-dom";
-
-const BACKEND_URL = "https://hm-pdf-backend.onrender.com"; // tu backend en Render
+import {
+  DEFAULT_RUNNING,
+  DEFAULT_TOC,
+  DEFAULT_TYPOGRAPHY,
+  FieldFit,
+  FieldMode,
+  FieldRect,
+  LayoutReport,
+  normalizeBody,
+  RenderContent,
+  RenderProgress,
+  RUNNING_VARIABLES,
+  RunningSlots,
+  RunningTexts,
+  TemplatePages,
+  TemplateRegions,
+  TocOptions,
+  Typography,
+} from "./renderDocument";
+import { FontStyle, fontFaceOf, RenderFonts } from "./fonts";
+import { BUNDLED_FONT_NAME, loadBundledFonts } from "./bundledFonts";
+import { addFontFromFile, deleteFont, FontRecord, listFonts } from "./templatesStore";
+import { importDocx, takeLeadingHeading } from "./docxImport";
+import {
+  LayoutProfile,
+  loadLocalProfile,
+  normalizeProfile,
+  saveLocalProfile,
+} from "./layoutProfiles";
+import MailMergePanel from "./MailMergePanel";
+import type { MergeRowResult } from "./mailMerge";
+import LivePreview from "./LivePreview";
+import { blockIndexAt } from "./markup";
+import { extractTitleAndBody } from "./pdfText";
+import { OUTPUT_PROFILE_LABELS, OutputProfile } from "./pdfArchive";
+import {
+  DEFAULT_PROTECTION,
+  describeProtection,
+  ENCRYPTION_LABELS,
+  PdfPermissions,
+  PRINT_LABELS,
+  PrintPermission,
+  protectDocument,
+  protectionRecord,
+  ProtectionSettings,
+  ProtectionVia,
+  ProtectResult,
+  randomOwnerPassword,
+} from "./protection";
+import type { EncryptionAlgorithm } from "./pdfEncrypt";
+import {
+  DEFAULT_WATERMARK,
+  PLACEMENT_LABELS,
+  WatermarkPlacement,
+  WatermarkSettings,
+} from "./watermark";
+import {
+  addSignaturePlaceholder,
+  APPEARANCE_LABELS,
+  checkSignatures,
+  describeSignature,
+  readPkcs12,
+  SignatureAppearance,
+  SignatureOptions,
+  SignatureRecord,
+  signatureRecord,
+  SigningIdentity,
+  signPreparedPdf,
+} from "./pdfSign";
+import { extractPdfText, isAbortError, JobControl, renderInWorker } from "./pdfWorkerClient";
+import {
+  builtinValues,
+  BUILTIN_VARIABLES,
+  fillPlaceholders,
+  findPlaceholders,
+  isBuiltinVariable,
+  newDocumentId,
+} from "./templateVars";
+import {
+  addVerification,
+  API_BASE,
+  BACKEND_URL,
+  hashContent,
+  newVerificationCode,
+  PREVIEW_CODE,
+  registerVerification,
+  sha256Hex,
+  VerificationEntry,
+  VerificationRecord,
+  verificationUrl,
+} from "./verification";
+import RegionEditor from "./RegionEditor";
+import { buildPreflight, PreflightIssue } from "./preflight";
+import {
+  describeFormFields,
+  describePdfjsFields,
+  FieldValue,
+  FormFieldInfo,
+  isFillable,
+} from "./formFields";
 
 declare global {
   interface Window {
     mammoth: any;
     pdfjsLib: any;
+    XLSX: any;
+    JSZip: any;
+    forge: any;
   }
 }
 
-type FieldRect = { x: number; y: number; width: number; height: number };
-
 type RemoteTemplate = {
   id: string;
   name: string;
   size: number;
   createdAt: string;
   filename?: string;
+  /** Perfil de maquetación guardado en el backend (sin validar) */
+  layout?: unknown;
 };
 
 const HISTORY_KEY = "hm_pdf_history_v1";
-const API_BASE =
-  (import.meta as any).env?.VITE_BACKEND_URL || BACKEND_URL;
-const API_TOKEN = (import.meta as any).env?.VITE_API_TOKEN || "";
-
-/* ============================= */
-/* CONFIGURACIONES Y STOPWORDS   */
-/* ============================= */
-
-const HEADER_STOPWORDS = [
-  "tm",
-  "plataforma educativa",
-  "horacio marchand",
-  "diplomado",
-  "aceleración comercial",
-  "aceleraci6n comercial",
-  "comercial",
-  "para impulsar tu negocio",
-  "text title",
-  "text body",
-];
-
-const FOOTER_PATTERNS = [/Página\s+\d+\s+de\s+\d+/i, /Copyright/i];
-
-/** Sanitiza texto SIN tocar saltos de línea */
-const sanitize = (t: string) =>
-  t.replace(/[^\t\n\r\x20-\x7E\u00A0-\u00FF]/g, "?");
-
-/**
- * Para título: parte el texto en líneas que quepan en un ancho.
- */
-function wrapAndConsume(
-  text: string,
-  font: any,
-  size: number,
-  maxWidth: number,
-  maxLines: number
-) {
-  const words = text.split(/\s+/);
-  const lines: string[] = [];
-  let cur = "";
-
-  const width = (s: string) => font.widthOfTextAtSize(s, size);
-
-  for (let i = 0; i < words.length; i++) {
-    const word = words[i];
-    const test = cur ? `${cur} ${word}` : word;
-
-    if (width(test) <= maxWidth) {
-      cur = test;
-    } else {
-      if (cur) lines.push(cur);
-      else lines.push(word);
-      cur = word;
-      if (lines.length === maxLines) break;
-    }
-  }
+const PREVIEW_DEBOUNCE_MS = 800;
+const API_TOKEN: string = import.meta.env.VITE_API_TOKEN || "";
 
-  if (lines.length < maxLines && cur) lines.push(cur);
-
-  const consumed = lines.join(" ");
-  const rest = text.slice(consumed.length).trimStart();
-
-  return { lines, rest };
-}
-
-const isStopwordLine = (s: string) =>
-  HEADER_STOPWORDS.some((w) => s.trim().toLowerCase() === w);
-
-/**
- * Toma el texto plano y saca:
- *  - title: primera línea "útil"
- *  - body: resto del texto
- */
-const extractTitleAndBody = (raw: string) => {
-  const cleaned = raw
-    .replace(/\r/g, "")
-    .replace(/[ \t]+\n/g, "\n")
-    .replace(/\n{3,}/g, "\n\n")
-    .trim();
-
-  const lines = cleaned.split("\n").map((l) => l.trim()).filter(Boolean);
-
-  // líneas que NO deben ser título
-  const badTitle = (l: string) => {
-    const s = l.trim();
-    const low = s.toLowerCase();
-
-    if (!s) return true;
-    if (s.length < 3) return true;
-    if (s.length > 180) return true;
-    if (FOOTER_PATTERNS.some((rx) => rx.test(s))) return true;
-    if (isStopwordLine(s)) return true;
-
-    // cosas típicas de plantillas / OCR
-    if (/(p(á|a)gina)\s*\d+\s*(de)?\s*\d+/i.test(s)) return true;
-    if (/plataforma educativa|horacio marchand|diplomado/i.test(low)) return true;
-    if (/copyright/i.test(low)) return true;
-
-    return false;
-  };
+/* ====================== HELPERS UI ====================== */
 
-  const titleIndex = lines.findIndex((l) => !badTitle(l));
-  if (titleIndex === -1) return { title: "Sin título", body: cleaned };
+const SLOT_KEYS = ["left", "center", "right"] as const;
 
-  let title = lines[titleIndex];
-  if (title.length > 140) title = title.slice(0, 140) + "…";
+/** Los seis textos de cabecera y pie */
+const runningSlotTexts = (r: RunningTexts) => [r.header, r.footer].flatMap((s) => SLOT_KEYS.map((k) => s[k]));
 
-  const body = lines.slice(titleIndex + 1).join("\n").trim();
-  return { title, body };
-};
+// {{pagina}}, {{total}}… los resuelve renderDocument hoja por hoja
+const isRunningVariable = (name: string) => (RUNNING_VARIABLES as readonly string[]).includes(name);
 
-/* ====================== HELPERS UI ====================== */
+const progressLabel = (p: RenderProgress) =>
+  p.phase === "layout" ? `Maquetando página ${p.page}…` : `Numerando página ${p.page} de ${p.total}…`;
 
 const fmtDate = (iso: string) => {
   try {
@@ -147,6 +151,29 @@ const fmtDate = (iso: string) => {
 
 const short = (t: string, n: number) => (t.length > n ? t.slice(0, n) + "…" : t);
 
+/* ===== PROPIEDADES DEL PDF ===== */
+
+// Lo que se deja vacío toma el valor por defecto: el título del documento,
+// DEFAULT_AUTHOR y el nombre de la plantilla como asunto
+type MetadataForm = { title: string; author: string; subject: string; keywords: string; language: string };
+
+const DEFAULT_AUTHOR = "Plataforma Educativa Horacio Marchand";
+const EMPTY_METADATA: MetadataForm = { title: "", author: "", subject: "", keywords: "", language: "es-ES" };
+const LANGUAGES = ["es-ES", "es-MX", "es-419", "en-US", "pt-BR"];
+
+const watermarkSettingsOf = ({ text, placement, opacity, size }: WatermarkSettings): WatermarkSettings => ({
+  text,
+  placement,
+  opacity,
+  size,
+});
+
+const splitKeywords = (s: string) =>
+  s
+    .split(/[,;]/)
+    .map((k) => k.trim())
+    .filter(Boolean);
+
 /* ============================= */
 /* COMPONENTE PRINCIPAL          */
 /* ============================= */
@@ -157,6 +184,23 @@ const Generador: React.FC = () => {
   // Estados vacíos para usar placeholder
   const [title, setTitle] = useState("");
   const [body, setBody] = useState("");
+  const [footerText, setFooterText] = useState("");
+  // Valores de las {{variables}} del título/cuerpo/pie (las integradas no van aquí)
+  const [variables, setVariables] = useState<Record<string, string>>({});
+
+  // 🔎 Revisión previa: maquetación en seco con la lista de avisos
+  const [preflight, setPreflight] = useState<PreflightIssue[] | null>(null);
+  const [preflightBusy, setPreflightBusy] = useState(false);
+  // 👁️ Vista previa en vivo: se re-maqueta al dejar de escribir
+  const [livePreview, setLivePreview] = useState(true);
+  const [previewBytes, setPreviewBytes] = useState<Uint8Array | null>(null);
+  const [previewBlockPages, setPreviewBlockPages] = useState<number[]>([]);
+  const [previewBusy, setPreviewBusy] = useState(false);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [bodyCursor, setBodyCursor] = useState<number | null>(null);
+  // Imágenes importadas desde DOCX (referenciadas en el cuerpo como img:N)
+  const [docImages, setDocImages] = useState<Record<string, Uint8Array>>({});
+  const [importWarnings, setImportWarnings] = useState<string[]>([]);
   const [cleanTemplateBytes, setCleanTemplateBytes] = useState<Uint8Array | null>(
     null
   );
@@ -170,7 +214,40 @@ const Generador: React.FC = () => {
   const [titleFieldName, setTitleFieldName] = useState("");
   const [bodyFieldName, setBodyFieldName] = useState("");
 
+  // 🧾 Todos los campos del formulario (con tipo) y los valores para los que
+  // no son título ni cuerpo
+  const [formFields, setFormFields] = useState<FormFieldInfo[]>([]);
+  const [fieldValues, setFieldValues] = useState<Record<string, FieldValue>>({});
+
+  // ✍️ Rellenar los campos reales (sobre la plantilla original, con su
+  // formulario) en vez de dibujar encima; opcionalmente aplanarlos
+  const [originalTemplateBytes, setOriginalTemplateBytes] = useState<Uint8Array | null>(null);
+  const [canFillForm, setCanFillForm] = useState(false);
+  const [fieldMode, setFieldMode] = useState<FieldMode>("draw");
+  const [flattenFields, setFlattenFields] = useState(false);
+  const [editableFields, setEditableFields] = useState<string[]>([]);
+
+  // 📐 Ajuste de texto en campos de tamaño fijo (reducir, "…" o seguir en otra hoja)
+  const [fieldFit, setFieldFit] = useState<Record<string, FieldFit>>({});
+  const [minFontSize, setMinFontSize] = useState(6);
+
+  // 🔢 Cabecera, pie y numeración de las hojas (van en el perfil de la plantilla)
+  const [running, setRunning] = useState<RunningTexts>(DEFAULT_RUNNING);
+  const updateRunning = (patch: Partial<RunningTexts>) => setRunning((prev) => ({ ...prev, ...patch }));
+
+  // 📄 Páginas de la plantilla: portada, continuación (pares/impares) y cierre
+  const [templatePageCount, setTemplatePageCount] = useState(1);
+  const [templatePages, setTemplatePages] = useState<TemplatePages>({ first: 0, continuation: 0 });
+
+  // 🔲 Regiones dibujadas en el editor visual, por plantilla
+  const [regions, setRegions] = useState<TemplateRegions>({});
+  const [showRegionEditor, setShowRegionEditor] = useState(false);
+
   const [isLoading, setIsLoading] = useState(false);
+
+  // ⏳ Trabajo en el worker (importar un PDF o generar) con progreso y cancelar
+  const [job, setJob] = useState<{ kind: "import" | "generate"; label: string } | null>(null);
+  const jobAbortRef = useRef<AbortController | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [successMsg, setSuccessMsg] = useState<string | null>(null);
 
@@ -178,11 +255,47 @@ const Generador: React.FC = () => {
     null
   );
   const [generatedPages, setGeneratedPages] = useState<number | null>(null);
+  const [layoutReport, setLayoutReport] = useState<LayoutReport | null>(null);
 
   const [pdfReady, setPdfReady] = useState(false);
 
-  // 🔒 checkbox para proteger el PDF
+  // 🧭 Marcadores y página de índice a partir de los títulos del cuerpo
+  const [toc, setToc] = useState<TocOptions>(DEFAULT_TOC);
+  const updateToc = (patch: Partial<TocOptions>) => setToc((prev) => ({ ...prev, ...patch }));
+
+  // 🏷️ Propiedades del PDF y perfil de salida
+  const [metadata, setMetadata] = useState<MetadataForm>(EMPTY_METADATA);
+  const updateMetadata = (patch: Partial<MetadataForm>) => setMetadata((prev) => ({ ...prev, ...patch }));
+  const [outputProfile, setOutputProfile] = useState<OutputProfile>("standard");
+
+  // 💧 Marca de agua con los datos de cada destinatario
+  const [watermarkOn, setWatermarkOn] = useState(false);
+  const [watermark, setWatermark] = useState<WatermarkSettings>(DEFAULT_WATERMARK);
+  const updateWatermark = (patch: Partial<WatermarkSettings>) =>
+    setWatermark((prev) => ({ ...prev, ...patch }));
+
+  // ✅ Código de verificación al pie, QR en la última hoja (se activa
+  // a mano: cambia el pie de plantillas que ya se usaban sin él)
+  const [verifyOn, setVerifyOn] = useState(false);
+  const [issuedCode, setIssuedCode] = useState<string | null>(null);
+  // Contraseña de propietario generada al azar: se muestra hasta que el usuario la descarte
+  const [generatedOwnerPassword, setGeneratedOwnerPassword] = useState<string | null>(null);
+
+  // 🔒 checkbox para proteger el PDF, con sus claves y permisos
   const [protectPdf, setProtectPdf] = useState(false);
+  const [protection, setProtection] = useState<ProtectionSettings>(DEFAULT_PROTECTION);
+  const updatePermissions = (patch: Partial<PdfPermissions>) =>
+    setProtection((prev) => ({ ...prev, permissions: { ...prev.permissions, ...patch } }));
+
+  // ✍️ Firma digital con un certificado .p12/.pfx del equipo (solo en memoria)
+  const [signOn, setSignOn] = useState(false);
+  const [signIdentity, setSignIdentity] = useState<SigningIdentity | null>(null);
+  const [certFile, setCertFile] = useState<File | null>(null);
+  const [certPassword, setCertPassword] = useState("");
+  const [certError, setCertError] = useState<string | null>(null);
+  const [signAppearance, setSignAppearance] = useState<SignatureAppearance>("visible");
+  const [signReason, setSignReason] = useState("Emisión del documento");
+  const [signLocation, setSignLocation] = useState("");
 
   // 📚 Historial local (compartido con /Repositorio)
   const [history, setHistory] = useState<HistoryItem[]>([]);
@@ -193,13 +306,44 @@ const Generador: React.FC = () => {
   const [selectedRemoteId, setSelectedRemoteId] = useState<string | null>(null);
   const [remotePreviews, setRemotePreviews] = useState<Record<string, string>>({});
 
+  // 🔤 Fuentes subidas por el usuario (IndexedDB, junto a plantillas)
+  const [fontRecords, setFontRecords] = useState<FontRecord[]>([]);
+  const [bodyFontId, setBodyFontId] = useState("");
+  const [titleFontId, setTitleFontId] = useState("");
+
+  // 📐 Tipografía del cuerpo, recordada por plantilla
+  const [typography, setTypography] = useState<Typography>(DEFAULT_TYPOGRAPHY);
+
+  // Plantilla cuyo perfil ya se aplicó (antes de eso no se guarda nada) y
+  // última versión guardada, para no reescribir lo mismo
+  const profileReadyFor = useRef<string | null>(null);
+  const lastSavedProfile = useRef<string | null>(null);
+
   const contentFileInputRef = useRef<HTMLInputElement>(null);
+  const titleInputRef = useRef<HTMLInputElement>(null);
+  const bodyInputRef = useRef<HTMLTextAreaElement>(null);
+  const footerInputRef = useRef<HTMLInputElement>(null);
 
   // Carga historial al iniciar
   useEffect(() => {
     setHistory(loadHistory());
   }, []);
 
+  const refreshFonts = useCallback(async () => {
+    try {
+      setFontRecords(await listFonts());
+    } catch (e) {
+      console.error("No se pudieron cargar las fuentes locales", e);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshFonts();
+  }, [refreshFonts]);
+
+  const updateTypography = (patch: Partial<Typography>) =>
+    setTypography((prev) => ({ ...prev, ...patch }));
+
   // Carga plantillas remotas si hay token configurado
   const refreshRemoteTemplates = useCallback(async () => {
     if (!API_TOKEN) return;
@@ -279,7 +423,21 @@ const Generador: React.FC = () => {
 
       setTitle(it.title || "");
       setBody(it.bodyFull || "");
-      setProtectPdf(!!it.protected);
+      setVariables(it.variables || {});
+      setProtectPdf(!!it.protection);
+      // las contraseñas no se guardan: hay que escribirlas otra vez
+      setProtection({
+        ...DEFAULT_PROTECTION,
+        ...(it.protection && {
+          permissions: it.protection.permissions,
+          algorithm: it.protection.algorithm ?? DEFAULT_PROTECTION.algorithm,
+        }),
+      });
+      setOutputProfile(it.outputProfile ?? "standard");
+      const wm = it.watermark ?? it.batch?.watermark;
+      setWatermarkOn(!!wm);
+      if (wm) setWatermark(watermarkSettingsOf(wm));
+      setVerifyOn(!!it.verification);
 
       setSuccessMsg("Documento cargado desde Repositorio. Solo genera de nuevo.");
       setTimeout(() => setSuccessMsg(null), 3000);
@@ -299,12 +457,47 @@ const Generador: React.FC = () => {
   const reuseFromHistory = (item: HistoryItem) => {
     setTitle(item.title || "");
     setBody(item.bodyFull || "");
-    setProtectPdf(!!item.protected);
+    setVariables(item.variables || {});
+    setProtectPdf(!!item.protection);
+    setProtection({
+      ...DEFAULT_PROTECTION,
+      ...(item.protection && {
+        permissions: item.protection.permissions,
+        algorithm: item.protection.algorithm ?? DEFAULT_PROTECTION.algorithm,
+      }),
+    });
+    setOutputProfile(item.outputProfile ?? "standard");
+    const wm = item.watermark ?? item.batch?.watermark;
+    setWatermarkOn(!!wm);
+    if (wm) setWatermark(watermarkSettingsOf(wm));
     setSuccessMsg("Listo: se cargó el documento desde historial. Solo genera de nuevo.");
     setTimeout(() => setSuccessMsg(null), 3500);
   };
 
 
+  /* ====================== TRABAJOS (WORKER) ====================== */
+
+  const startJob = (kind: "import" | "generate") => {
+    jobAbortRef.current?.abort();
+    const ctrl = new AbortController();
+    jobAbortRef.current = ctrl;
+    setJob({ kind, label: "Preparando…" });
+    return ctrl;
+  };
+
+  const setJobProgress = (label: string) => setJob((prev) => (prev ? { ...prev, label } : prev));
+
+  const endJob = (ctrl: AbortController) => {
+    if (jobAbortRef.current !== ctrl) return;
+    jobAbortRef.current = null;
+    setJob(null);
+  };
+
+  const cancelJob = () => jobAbortRef.current?.abort();
+
+  // Si se sale de la página con un trabajo a medias, se termina el worker
+  useEffect(() => () => jobAbortRef.current?.abort(), []);
+
   /* ====================== PDF.JS READY ====================== */
 
   useEffect(() => {
@@ -329,13 +522,16 @@ const Generador: React.FC = () => {
   /* ========================================================= */
 
   const analyzeTemplateBytes = useCallback(
-    async (bytes: ArrayBuffer | Uint8Array, name: string) => {
+    async (bytes: ArrayBuffer | Uint8Array, name: string, stored?: LayoutProfile | null) => {
+      profileReadyFor.current = null;
       setError(null);
       setSuccessMsg(null);
       setGeneratedPdfBytes(null);
       setGeneratedPages(null);
       setDetectedFields(null);
       setFieldRects({});
+      setFormFields([]);
+      setCanFillForm(false);
       setTitleFieldName("");
       setBodyFieldName("");
       setTemplateName(name);
@@ -343,33 +539,31 @@ const Generador: React.FC = () => {
       try {
         const pdfDoc = await PDFDocument.load(data, { ignoreEncryption: true });
 
-        let names: string[] = [];
-        const rects: Record<string, FieldRect> = {};
+        // Con varias páginas se asume portada + interior (+ contraportada si hay 3 o más)
+        const pageCount = pdfDoc.getPageCount();
+        setTemplatePageCount(pageCount);
+        setTemplatePages({
+          first: 0,
+          continuation: pageCount > 1 ? 1 : 0,
+          continuationEven: null,
+          closing: pageCount >= 3 ? pageCount - 1 : null,
+        });
+
+        let infos: FormFieldInfo[] = [];
 
         // 1) pdf-lib
       try {
-        const form = pdfDoc.getForm();
-        const fields = form.getFields();
-        names = fields.map((f) => f.getName());
-
-        for (const field of fields) {
-          // @ts-ignore
-          const widgets = (field as any).acroField.getWidgets?.() || [];
-          if (widgets.length > 0) {
-            // @ts-ignore
-            const r = widgets[0].getRectangle();
-            rects[field.getName()] = r;
-          }
-        }
+        infos = describeFormFields(pdfDoc);
+        setCanFillForm(infos.length > 0 && !pdfDoc.isEncrypted);
       } catch (e) {
         console.warn("No se pudieron leer campos con pdf-lib", e);
-        names = [];
+        infos = [];
         }
 
       // 2) Fallback pdf.js
-      if (names.length === 0 && window.pdfjsLib) {
+      if (infos.length === 0 && window.pdfjsLib) {
         try {
-          const pdfjs = await window.pdfjsLib.getDocument({ data }).promise;
+          const pdfjs = await window.pdfjsLib.getDocument({ data: data.slice() }).promise;
           const anyPdf: any = pdfjs;
 
           let fieldObjs: any = null;
@@ -377,26 +571,18 @@ const Generador: React.FC = () => {
             fieldObjs = await anyPdf.getFieldObjects();
           }
 
-          if (fieldObjs) {
-            for (const [fieldName, entries] of Object.entries(fieldObjs)) {
-              names.push(fieldName);
-              const w: any = (entries as any[])[0];
-              if (w?.rect?.length === 4) {
-                const [x1, y1, x2, y2] = w.rect;
-                rects[fieldName] = {
-                  x: Math.min(x1, x2),
-                  y: Math.min(y1, y2),
-                  width: Math.abs(x2 - x1),
-                  height: Math.abs(y2 - y1),
-                };
-              }
-            }
-          }
+          if (fieldObjs) infos = describePdfjsFields(fieldObjs);
         } catch (e) {
           console.warn("No se pudieron leer campos con pdf.js", e);
         }
       }
 
+      const names = infos.map((f) => f.name);
+      const rects: Record<string, FieldRect> = {};
+      for (const f of infos) if (f.rect) rects[f.name] = f.rect;
+      setFormFields(infos);
+      setFieldValues({});
+
       if (names.length > 0) {
         setDetectedFields(names);
         setFieldRects(rects);
@@ -428,7 +614,46 @@ const Generador: React.FC = () => {
       const cleanBytes = await clean.save();
 
       setCleanTemplateBytes(cleanBytes);
-      setSuccessMsg("Plantilla cargada correctamente.");
+      setOriginalTemplateBytes(data);
+
+      // Perfil guardado de esta plantilla: manda sobre lo detectado si sigue siendo válido
+      const profile = stored ?? (await loadLocalProfile(name));
+      if (profile) {
+        const { title, body } = profile.fieldMapping;
+        if (names.includes(title)) setTitleFieldName(title);
+        if (names.includes(body)) setBodyFieldName(body);
+        const fit = (i: number | null | undefined) =>
+          i == null ? null : Math.min(pageCount - 1, Math.max(0, i));
+        setTemplatePages({
+          first: fit(profile.templatePages.first) ?? 0,
+          continuation: fit(profile.templatePages.continuation) ?? 0,
+          continuationEven: fit(profile.templatePages.continuationEven),
+          closing: fit(profile.templatePages.closing),
+        });
+        setRegions(profile.regions);
+        setTypography(profile.typography);
+        setTitleFontId(profile.fonts.titleFontId);
+        setBodyFontId(profile.fonts.bodyFontId);
+        setFieldMode(profile.formFill.mode);
+        setFlattenFields(profile.formFill.flatten);
+        setEditableFields(profile.formFill.editable.filter((n) => names.includes(n)));
+        setFieldFit(profile.fieldFit.policies);
+        setMinFontSize(profile.fieldFit.minFontSize);
+        setRunning(profile.running);
+      } else {
+        setRegions({});
+        setTypography(DEFAULT_TYPOGRAPHY);
+        setFieldMode("draw");
+        setFlattenFields(false);
+        setEditableFields([]);
+        setFieldFit({});
+        setMinFontSize(6);
+        setRunning(DEFAULT_RUNNING);
+      }
+      lastSavedProfile.current = null;
+      profileReadyFor.current = name;
+
+      setSuccessMsg(profile ? "Plantilla cargada con su perfil guardado." : "Plantilla cargada correctamente.");
       setTimeout(() => setSuccessMsg(null), 2500);
     } catch (e) {
       console.error(e);
@@ -445,6 +670,7 @@ const Generador: React.FC = () => {
 
     try {
       const bytes = await file.arrayBuffer();
+      setSelectedRemoteId(null);
       await analyzeTemplateBytes(bytes, file.name);
     } finally {
       ev.target.value = "";
@@ -490,6 +716,7 @@ const Generador: React.FC = () => {
       setSelectedRemoteId(null);
       setTemplateName(null);
       setCleanTemplateBytes(null);
+      setTemplatePageCount(1);
       return;
     }
     if (!API_TOKEN) {
@@ -503,8 +730,9 @@ const Generador: React.FC = () => {
       });
       if (!resp.ok) throw new Error(`Backend respondió ${resp.status}`);
       const buf = await resp.arrayBuffer();
+      const remote = remoteTemplates.find((t) => t.id === id);
       setSelectedRemoteId(id);
-      await analyzeTemplateBytes(buf, remoteTemplates.find((t) => t.id === id)?.name || "Plantilla");
+      await analyzeTemplateBytes(buf, remote?.name || "Plantilla", normalizeProfile(remote?.layout));
     } catch (e: any) {
       setError(e.message || "No se pudo cargar la plantilla remota.");
     } finally {
@@ -528,6 +756,7 @@ const Generador: React.FC = () => {
         setSelectedRemoteId(null);
         setTemplateName(null);
         setCleanTemplateBytes(null);
+        setTemplatePageCount(1);
       }
     } catch (e) {
       console.error("No se pudo borrar plantilla remota", e);
@@ -536,96 +765,148 @@ const Generador: React.FC = () => {
     }
   };
 
-  const parseTxtToText = async (file: File) => file.text();
-
-  const parseDocxToText = async (ab: ArrayBuffer) => {
-    const res = await window.mammoth.extractRawText({ arrayBuffer: ab });
-    return res.value.replace(/\u0000/g, "").replace(/\n{3,}/g, "\n\n").trim();
-  };
-
-  const parsePdfToText = async (file: File) => {
-    if (!window.pdfjsLib) throw new Error("pdf.js no cargado");
-
-    const ab = await file.arrayBuffer();
-    const pdf = await window.pdfjsLib.getDocument({ data: ab }).promise;
-
-    const pagesLines: string[][] = [];
-
-    for (let p = 1; p <= pdf.numPages; p++) {
-      const page = await pdf.getPage(p);
-      const viewport = page.getViewport({ scale: 1 });
-      const tc = await page.getTextContent({ normalizeWhitespace: true });
-
-      const H = viewport.height;
-
-      // Bandas a ignorar (más agresivas que antes)
-      const headerCut = H - 140; // ignora más arriba
-      const footerCut = 90; // ignora más abajo
-
-      // Agrupar por renglón (Y)
-      const rows: Record<number, { y: number; chunks: { x: number; s: string }[] }> = {};
-
-      tc.items.forEach((it: any) => {
-        const s = (it.str || "").replace(/\s+/g, " ").trim();
-        if (!s) return;
-
-        const [, , , , x, y] = it.transform;
-
-        // Filtra header/footer por posición
-        if (y >= headerCut) return;
-        if (y <= footerCut) return;
-
-        const yKey = Math.round(y);
-        rows[yKey] ??= { y, chunks: [] };
-        rows[yKey].chunks.push({ x, s });
-      });
-
-      const sortedY = Object.keys(rows).map(Number).sort((a, b) => b - a);
+  /* ===== PERFIL DE MAQUETACIÓN DE LA PLANTILLA ===== */
+
+  const currentProfile = useMemo<LayoutProfile>(
+    () => ({
+      version: 1,
+      fieldMapping: { title: titleFieldName, body: bodyFieldName },
+      regions,
+      typography,
+      templatePages,
+      fonts: { titleFontId, bodyFontId },
+      formFill: { mode: fieldMode, flatten: flattenFields, editable: editableFields },
+      fieldFit: { policies: fieldFit, minFontSize },
+      running,
+      updatedAt: "",
+    }),
+    [
+      titleFieldName,
+      bodyFieldName,
+      regions,
+      typography,
+      templatePages,
+      titleFontId,
+      bodyFontId,
+      fieldMode,
+      flattenFields,
+      editableFields,
+      fieldFit,
+      minFontSize,
+      running,
+    ]
+  );
 
-      const lines = sortedY
-        .map((k) =>
-          rows[k].chunks
-            .sort((a, b) => a.x - b.x)
-            .map((c) => c.s)
-            .join(" ")
-            .trim()
-        )
-        .filter((ln) => {
-          if (!ln) return false;
-          if (FOOTER_PATTERNS.some((rx) => rx.test(ln))) return false;
-          if (isStopwordLine(ln)) return false;
-          return true;
+  // Cada cambio se guarda (con un pequeño retraso) junto a la plantilla: en
+  // IndexedDB siempre y en el backend si la plantilla viene de allí
+  useEffect(() => {
+    if (!templateName || profileReadyFor.current !== templateName) return;
+    const key = JSON.stringify(currentProfile);
+    if (key === lastSavedProfile.current) return;
+
+    const remoteId = selectedRemoteId;
+    const t = setTimeout(async () => {
+      lastSavedProfile.current = key;
+      const profile = { ...currentProfile, updatedAt: new Date().toISOString() };
+      try {
+        await saveLocalProfile(templateName, profile);
+      } catch (e) {
+        console.warn("No se pudo guardar el perfil local", e);
+      }
+      if (!remoteId || !API_TOKEN) return;
+      try {
+        const resp = await fetch(`${API_BASE}/api/templates/${remoteId}/layout`, {
+          method: "PUT",
+          headers: { Authorization: `Bearer ${API_TOKEN}`, "Content-Type": "application/json" },
+          body: JSON.stringify(profile),
         });
+        if (!resp.ok) throw new Error(`API respondió ${resp.status}`);
+        setRemoteTemplates((prev) =>
+          prev.map((tpl) => (tpl.id === remoteId ? { ...tpl, layout: profile } : tpl))
+        );
+      } catch (e) {
+        console.warn("No se pudo guardar el perfil en el backend", e);
+      }
+    }, 800);
+    return () => clearTimeout(t);
+  }, [currentProfile, templateName, selectedRemoteId]);
 
-      pagesLines.push(lines);
+  const handleFontUpload = async (ev: React.ChangeEvent<HTMLInputElement>) => {
+    const file = ev.target.files?.[0];
+    if (!file) return;
+    try {
+      setError(null);
+      await addFontFromFile(file);
+      await refreshFonts();
+      setSuccessMsg("Fuente guardada.");
+      setTimeout(() => setSuccessMsg(null), 2500);
+    } catch (e: any) {
+      setError(e.message || "No se pudo guardar la fuente.");
+    } finally {
+      ev.target.value = "";
     }
+  };
 
-    // ===== FILTRO: remover líneas repetidas entre páginas (plantilla/OCR) =====
-    const freq = new Map<string, number>();
-    for (const lines of pagesLines) {
-      const uniq = new Set(lines.map((l) => l.toLowerCase()));
-      for (const l of uniq) freq.set(l, (freq.get(l) || 0) + 1);
+  const handleDeleteFont = async (id: string) => {
+    try {
+      await deleteFont(id);
+      if (bodyFontId === id) setBodyFontId("");
+      if (titleFontId === id) setTitleFontId("");
+      await refreshFonts();
+    } catch (e) {
+      console.error("No se pudo borrar la fuente", e);
     }
+  };
 
-    // Si una línea aparece en >= 40% de páginas, probablemente es plantilla
-    const threshold = Math.max(2, Math.ceil(pdf.numPages * 0.4));
-
-    const finalLines: string[] = [];
-    for (const lines of pagesLines) {
-      for (const ln of lines) {
-        const key = ln.toLowerCase();
-        if ((freq.get(key) || 0) >= threshold) continue; // quita repetidas
-        finalLines.push(ln);
-      }
-      finalLines.push(""); // separador de página
+  /**
+   * Fuentes para el motor: la elegida por el usuario (o DejaVu Sans) con sus
+   * variantes subidas de la misma familia y, como respaldo por carácter, DejaVu
+   * y el resto de fuentes subidas (el motor solo embebe las que hagan falta).
+   */
+  const resolveFonts = useCallback(async (): Promise<RenderFonts | null> => {
+    let bundled: RenderFonts | null = null;
+    try {
+      bundled = await loadBundledFonts();
+    } catch (e) {
+      console.warn("No se pudieron cargar las fuentes incluidas; se usará Helvetica", e);
     }
 
-    let text = finalLines.join("\n");
-    text = text.replace(/-\n(?=[a-záéíóúñ])/gi, ""); // quita corte por guion
-    text = text.replace(/\n{3,}/g, "\n\n").trim();
+    const byId = (id: string) => fontRecords.find((f) => f.id === id)?.bytes ?? null;
+    const regular = byId(bodyFontId) ?? bundled?.regular;
+    if (!regular) return null;
+
+    // Negrita/cursiva: las de DejaVu o, con una fuente subida, las de su familia
+    const bodyFace = bodyFontId ? fontFaceOf(regular) : null;
+    const siblings = bodyFace
+      ? fontRecords
+          .filter((f) => f.id !== bodyFontId)
+          .map((f) => ({ bytes: f.bytes, face: fontFaceOf(f.bytes) }))
+          .filter((f) => f.face?.family === bodyFace.family)
+      : [];
+    const variant = (style: FontStyle) =>
+      (bodyFontId ? siblings.find((f) => f.face?.style === style)?.bytes : bundled?.[style]) ?? null;
+    const bold = variant("bold");
+    const italic = variant("italic");
+    const boldItalic = variant("boldItalic");
+
+    const inChain = new Set([regular, bold, italic, boldItalic]);
+    const fallbacks: Uint8Array[] = [];
+    if (bundled && bodyFontId) fallbacks.push(bundled.regular);
+    fontRecords
+      .filter((f) => f.id !== titleFontId && !inChain.has(f.bytes))
+      .forEach((f) => fallbacks.push(f.bytes));
 
-    return text;
-  };
+    return {
+      regular,
+      bold,
+      italic,
+      boldItalic,
+      title: byId(titleFontId) ?? bundled?.bold ?? null,
+      fallbacks,
+    };
+  }, [fontRecords, bodyFontId, titleFontId]);
+
+  const parseTxtToText = async (file: File) => file.text();
 
   const handleContentFileChange = async (ev: React.ChangeEvent<HTMLInputElement>) => {
     const file = ev.target.files?.[0];
@@ -636,340 +917,392 @@ const Generador: React.FC = () => {
       setSuccessMsg(null);
 
       const name = file.name.toLowerCase();
-      let raw = "";
+      if (name.endsWith(".docx")) {
+        // DOCX conserva estructura: no pasa por extractTitleAndBody (que aplana renglones)
+        const res = await importDocx(await file.arrayBuffer());
+        const text = res.text.replace(/\u0000/g, "").trim();
+        const lead = takeLeadingHeading(text);
+        let docTitle = lead.title;
+        let docBody = lead.body;
+        if (!docTitle) {
+          docTitle = extractTitleAndBody(text).title;
+          const lines = text.split("\n");
+          const idx = lines.findIndex((l) => l.trim() === docTitle);
+          if (idx >= 0) lines.splice(idx, 1);
+          docBody = lines.join("\n").trim();
+        }
+        setTitle(docTitle);
+        setBody(docBody);
+        setDocImages(res.images);
+        setImportWarnings(res.warnings);
+        setSuccessMsg("Contenido cargado correctamente.");
+        setTimeout(() => setSuccessMsg(null), 2500);
+        return;
+      }
 
-      if (name.endsWith(".txt")) raw = await parseTxtToText(file);
-      else if (name.endsWith(".docx"))
-        raw = await parseDocxToText(await file.arrayBuffer());
-      else if (name.endsWith(".pdf")) raw = await parsePdfToText(file);
-      else {
+      let extracted: { title: string; body: string };
+      let signatureNote = "";
+      if (name.endsWith(".txt")) extracted = extractTitleAndBody(await parseTxtToText(file));
+      else if (name.endsWith(".pdf")) {
+        const data = await file.arrayBuffer();
+        // Un PDF firmado (por ejemplo, uno generado aquí) avisa si la firma sigue valiendo
+        const signatures = await checkSignatures(new Uint8Array(data)).catch(() => []);
+        signatureNote = signatures.map((sig) => ` Firma: ${describeSignature(sig)}.`).join("");
+        const ctrl = startJob("import");
+        try {
+          extracted = await extractPdfText(data, {
+            onPage: (page, total) => setJobProgress(`Leyendo página ${page} de ${total}…`),
+            signal: ctrl.signal,
+          });
+        } finally {
+          endJob(ctrl);
+        }
+      } else {
         setError("Formato no soportado.");
         return;
       }
 
-      const { title, body } = extractTitleAndBody(raw);
+      const { title, body } = extracted;
       setTitle(title);
       setBody(body);
-      setSuccessMsg("Contenido cargado correctamente.");
-      setTimeout(() => setSuccessMsg(null), 2500);
+      setDocImages({});
+      setImportWarnings([]);
+      setSuccessMsg("Contenido cargado correctamente." + signatureNote);
+      setTimeout(() => setSuccessMsg(null), signatureNote ? 8000 : 2500);
     } catch (e: any) {
-      setError(`Error al extraer texto: ${e.message}`);
+      if (isAbortError(e)) setSuccessMsg("Importación cancelada.");
+      else setError(`Error al extraer texto: ${e.message}`);
     } finally {
       ev.target.value = "";
     }
   };
 
-  /* ====================== HELPER CUERPO ====================== */
-
-  const normalizeBody = (t: string) =>
-    t.replace(/\r/g, "").replace(/\u2028|\u2029/g, "\n"); // separadores raros → \n
-
   /* ========================================================= */
   /*    3. GENERAR PDF                                         */
   /* ========================================================= */
 
-  const generatePdf = useCallback(async () => {
-    if (!cleanTemplateBytes) {
-      setError("Sube primero una plantilla PDF.");
-      return;
-    }
+  // Textos con {{variables}} aparte de título y cuerpo (también para el lote)
+  const extraTexts = useMemo(
+    () => [footerText, ...runningSlotTexts(running), ...(watermarkOn ? [watermark.text] : [])],
+    [footerText, running, watermarkOn, watermark.text]
+  );
 
-    setIsLoading(true);
-    setError(null);
-    setSuccessMsg(null);
-    setGeneratedPdfBytes(null);
-    setGeneratedPages(null);
+  // {{variables}} que hay que pedir: las del texto menos las integradas
+  const placeholderNames = useMemo(
+    () =>
+      findPlaceholders(title, body, ...extraTexts).filter(
+        (n) => !isBuiltinVariable(n) && !isRunningVariable(n)
+      ),
+    [title, body, extraTexts]
+  );
 
-    try {
-      const pdfDoc = await PDFDocument.load(cleanTemplateBytes);
-      const srcTemplate = await PDFDocument.load(cleanTemplateBytes);
-
-      const titleFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
-      const bodyFont = await pdfDoc.embedFont(StandardFonts.Helvetica);
-
-      const p0 = pdfDoc.getPage(0);
-      const { width, height } = p0.getSize();
-
-      const PAD = 5;
-      const FONT_TITLE = 14;
-      const LINE_H_TITLE = 16;
-      const FONT_BODY = 11;
-      const LINE_H = 14;
-
-      // Campos
-      const hasTitleField =
-        detectedFields &&
-        detectedFields.length > 0 &&
-        titleFieldName &&
-        fieldRects[titleFieldName];
-
-      const hasBodyField =
-        detectedFields &&
-        detectedFields.length > 1 &&
-        bodyFieldName &&
-        bodyFieldName !== titleFieldName &&
-        fieldRects[bodyFieldName];
-
-      const usingFormFields = !!(
-        (hasTitleField || hasBodyField) &&
-        detectedFields &&
-        detectedFields.length > 0
-      );
+  const setVariable = (name: string, value: string) =>
+    setVariables((prev) => ({ ...prev, [name]: value }));
 
-      const isPlantilla3 =
-        templateName && templateName.toLowerCase().includes("plantilla3");
+  // Lo que valdrían ahora las integradas (id y páginas se saben al generar)
+  const builtinPreview = useMemo(
+    () => builtinValues({ date: new Date(), documentId: "", templateName }),
+    [templateName]
+  );
 
-      // ========= MÁRGENES ADAPTATIVOS =========
-      let marginX: number;
-      let bottomMargin: number;
-      let topMarginFirst: number;
-      let topBandFlow: number;
+  // Misma maquetación para el PDF suelto y para cada fila del lote. Las
+  // {{variables}} se resuelven aquí; {{paginas}} solo se sabe al maquetar, así
+  // que se maqueta de nuevo hasta que el número no cambia
+  const renderWith = useCallback(
+    async (
+      content: RenderContent,
+      values: Record<string, FieldValue>,
+      vars: Record<string, string>,
+      documentId: string = newDocumentId(),
+      control: JobControl = {},
+      /** Emitir el documento: solo entonces se saca un código de verificación real */
+      issue = false
+    ) => {
+      const fonts = await resolveFonts();
+      const fillFields = fieldMode === "fill" && canFillForm && !!originalTemplateBytes;
+      const base = { ...vars, ...builtinValues({ date: new Date(), documentId, templateName }) };
+      const usesPages = findPlaceholders(content.title, content.body, ...extraTexts).includes("paginas");
+      const code = !verifyOn ? null : issue ? newVerificationCode() : PREVIEW_CODE;
+
+      const pass = async (pages?: number) => {
+        const all = pages === undefined ? base : { ...base, paginas: String(pages) };
+        const t = fillPlaceholders(content.title, all);
+        const b = fillPlaceholders(content.body, all);
+        const f = fillPlaceholders(footerText, all);
+        // En cabecera y pie se resuelve todo menos lo que depende de la hoja
+        const slotMissing: string[] = [];
+        const fillSlots = (slots: RunningSlots): RunningSlots => {
+          const out = { ...slots };
+          for (const k of SLOT_KEYS) {
+            const r = fillPlaceholders(slots[k], all);
+            out[k] = r.text;
+            slotMissing.push(...r.missing.filter((n) => !isRunningVariable(n)));
+          }
+          return out;
+        };
+        const filledRunning = { ...running, header: fillSlots(running.header), footer: fillSlots(running.footer) };
+        const wm = watermarkOn ? fillPlaceholders(watermark.text, all) : null;
+        // la huella es del contenido ya resuelto (solo al emitir); la del archivo se calcula al final
+        const contentHash = issue && code
+          ? await hashContent({ title: t.text, body: b.text, footer: f.text, fields: values, template: templateName || null })
+          : null;
+        const result = await renderInWorker(
+          fillFields ? originalTemplateBytes : cleanTemplateBytes,
+          { title: t.text, body: b.text, footer: f.text },
+          {
+            detectedFields,
+            fieldRects,
+            titleFieldName,
+            bodyFieldName,
+            formFields,
+            fieldValues: values,
+            regions,
+            fonts,
+            images: docImages,
+            typography,
+            templatePages,
+            fieldMode: fillFields ? "fill" : "draw",
+            flattenFields,
+            editableFields,
+            fieldFit,
+            minFontSize,
+            toc,
+            running: filledRunning,
+            watermark: wm && { ...watermark, text: wm.text },
+            metadata: {
+              // sin título propio, renderDocument usa el del documento
+              title: fillPlaceholders(metadata.title, all).text,
+              author: fillPlaceholders(metadata.author || DEFAULT_AUTHOR, all).text,
+              subject: fillPlaceholders(metadata.subject || templateName || "", all).text,
+              keywords: splitKeywords(metadata.keywords),
+              language: metadata.language.trim(),
+            },
+            outputProfile,
+            documentId,
+            verification: code ? { code, url: verificationUrl(code) } : null,
+          },
+          control
+        );
+        const missingVariables = Array.from(
+          new Set([...t.missing, ...b.missing, ...f.missing, ...slotMissing, ...(wm?.missing ?? [])])
+        );
+        return {
+          ...result,
+          missingVariables,
+          documentId,
+          watermarkText: wm?.text ?? null,
+          verification: code && contentHash ? { code, contentHash } : null,
+        };
+      };
 
-      if (usingFormFields) {
-        marginX = 72;
-        bottomMargin = 72;
-        topMarginFirst = 140;
-        topBandFlow = 72;
-      } else {
-        marginX = 48;
-        bottomMargin = 96;
-        topMarginFirst = isPlantilla3 ? 110 : 80;
-        topBandFlow = 80;
+      let out = await pass(usesPages ? 1 : undefined);
+      for (let i = 0; usesPages && i < 3; i++) {
+        const pages = out.report.pages;
+        const next = await pass(pages);
+        out = next;
+        if (next.report.pages === pages) break;
       }
+      return out;
+    },
+    [
+      resolveFonts,
+      templateName,
+      fieldMode,
+      canFillForm,
+      originalTemplateBytes,
+      cleanTemplateBytes,
+      footerText,
+      detectedFields,
+      fieldRects,
+      titleFieldName,
+      bodyFieldName,
+      formFields,
+      regions,
+      docImages,
+      typography,
+      templatePages,
+      flattenFields,
+      editableFields,
+      fieldFit,
+      minFontSize,
+      toc,
+      running,
+      metadata,
+      outputProfile,
+      extraTexts,
+      watermarkOn,
+      watermark,
+      verifyOn,
+    ]
+  );
 
-      // Rect título
-      let titleRect: FieldRect;
-      if (hasTitleField) {
-        titleRect = fieldRects[titleFieldName];
-      } else {
-        titleRect = {
-          x: marginX,
-          y: height - topMarginFirst,
-          width: width - marginX * 2,
-          height: 32,
-        };
-      }
+  // El lote emite documentos: cada uno lleva su propio código de verificación
+  const renderIssued = useCallback(
+    (content: RenderContent, values: Record<string, FieldValue>, vars: Record<string, string>) =>
+      renderWith(content, values, vars, undefined, {}, true),
+    [renderWith]
+  );
 
-      // Rect cuerpo primera página
-      let bodyRectFirst: FieldRect;
-      if (hasBodyField) {
-        bodyRectFirst = fieldRects[bodyFieldName];
-      } else {
-        const usableHeight = titleRect.y - 16 - bottomMargin;
-        bodyRectFirst = {
-          x: marginX,
-          y: bottomMargin,
-          width: width - marginX * 2,
-          height: Math.max(usableHeight, LINE_H * 4),
-        };
+  // Deja constancia de un PDF ya terminado (cifrado, si se protegió): registro
+  // local y, con token, el backend, para que se pueda verificar desde otro equipo
+  const issueVerification = useCallback(
+    async (
+      bytes: Uint8Array,
+      doc: { documentId: string; title: string },
+      verification: { code: string; contentHash: string }
+    ): Promise<VerificationRecord> => {
+      const record = { ...verification, fileHash: await sha256Hex(bytes) };
+      const entry: VerificationEntry = {
+        ...record,
+        documentId: doc.documentId,
+        title: doc.title,
+        templateName: templateName || null,
+        createdAt: new Date().toISOString(),
+      };
+      addVerification(entry);
+      if (API_TOKEN) {
+        await registerVerification(API_BASE, API_TOKEN, entry).catch((e) =>
+          console.warn("No se pudo registrar la verificación en el backend", e)
+        );
       }
+      return record;
+    },
+    [templateName]
+  );
 
-      // Rect flujo genérico (solo se usa si NO hay bodyField)
-      const flowRect: FieldRect = {
-        x: marginX,
-        y: bottomMargin,
-        width: width - marginX * 2,
-        height: height - bottomMargin - topBandFlow,
-      };
+  const loadCertificate = async () => {
+    if (!certFile) return;
+    setCertError(null);
+    try {
+      setSignIdentity(readPkcs12(new Uint8Array(await certFile.arrayBuffer()), certPassword));
+      setCertPassword("");
+    } catch (e: any) {
+      setSignIdentity(null);
+      setCertError(`No se pudo abrir el certificado: ${e.message}`);
+    }
+  };
 
-      let flowRectWithTitle: FieldRect | null = null;
-      if (hasBodyField) {
-        const extraHeight = titleRect.height + 8;
-        flowRectWithTitle = {
-          x: bodyRectFirst.x,
-          y: bodyRectFirst.y,
-          width: bodyRectFirst.width,
-          height: bodyRectFirst.height + extraHeight,
+  // Firma y protección del PDF ya renderizado. El hueco de la firma se agrega
+  // antes de cifrar y se rellena sobre el archivo cifrado, así que para firmar
+  // hace falta el cifrado del navegador (el del servidor no deja el hueco en claro)
+  const sealDocument = useCallback(
+    async (
+      bytes: Uint8Array,
+      fileName: string,
+      settings: ProtectionSettings | null
+    ): Promise<{ bytes: Uint8Array; protectedOut: ProtectResult | null; signature: SignatureRecord | null }> => {
+      let out = bytes;
+      let signing: SignatureOptions | null = null;
+      if (signOn) {
+        if (!signIdentity) throw new Error("carga el certificado para firmar");
+        signing = {
+          identity: signIdentity,
+          appearance: signAppearance,
+          rect: regions.signature,
+          reason: signReason,
+          location: signLocation,
+          date: new Date(),
+          fonts: signAppearance === "visible" ? await resolveFonts() : null,
         };
+        out = await addSignaturePlaceholder(out, signing);
       }
 
-      const rectForPage = (pageIndex: number): FieldRect => {
-        if (hasBodyField) {
-          if (pageIndex === 0) return bodyRectFirst;
-          return flowRectWithTitle ?? bodyRectFirst;
+      let protectedOut: ProtectResult | null = null;
+      if (settings) {
+        protectedOut = await protectDocument(out, settings, { url: BACKEND_URL, fileName });
+        if (signing && protectedOut.via === "backend") {
+          throw new Error(
+            `no se pudo cifrar en el navegador (${protectedOut.fallbackReason}) y el cifrado del servidor no admite firma`
+          );
         }
-        return pageIndex === 0 ? bodyRectFirst : flowRect;
-      };
-
-      // Limpia SOLO título si no hay campos (para quitar texto demo de la plantilla)
-      if (!usingFormFields) {
-        p0.drawRectangle({
-          x: titleRect.x,
-          y: titleRect.y,
-          width: titleRect.width,
-          height: titleRect.height,
-          color: rgb(1, 1, 1),
-        });
+        out = protectedOut.bytes;
       }
 
-      /* ===== TÍTULO ===== */
-      const titleMaxW = titleRect.width - PAD * 2;
-      const { lines: tLines } = wrapAndConsume(
-        sanitize(title || "Sin título"),
-        titleFont,
-        FONT_TITLE,
-        titleMaxW,
-        Math.max(1, Math.floor(titleRect.height / LINE_H_TITLE))
-      );
-
-      let ty = titleRect.y + titleRect.height - PAD - FONT_TITLE;
-      tLines.forEach((line) => {
-        p0.drawText(line, {
-          x: titleRect.x + PAD,
-          y: ty,
-          font: titleFont,
-          size: FONT_TITLE,
-          color: rgb(0, 0, 0),
-        });
-        ty -= LINE_H_TITLE;
-      });
-
-      /* ===== CUERPO ===== */
-
-      const rawBody = normalizeBody(body);
-
-      const blocks = rawBody
-        .split(/\n{2,}/)
-        .map((b) => b.replace(/\s+$/g, ""))
-        .filter((b) => b.trim().length > 0);
-
-      let currentPage = p0;
-      let currentRect = rectForPage(0);
-      let currentY = currentRect.y + currentRect.height - PAD - FONT_BODY;
-
-      const ensureNewPage = async () => {
-        const [tpl] = await pdfDoc.copyPages(srcTemplate, [0]);
-        const page = pdfDoc.addPage(tpl);
-        const idx = pdfDoc.getPageCount() - 1;
-        const rect = rectForPage(idx);
-
-        currentPage = page;
-        currentRect = rect;
-        currentY = currentRect.y + currentRect.height - PAD - FONT_BODY;
-      };
-
-      const lineTooLow = () => currentY < currentRect.y + PAD + FONT_BODY;
-
-      for (let bi = 0; bi < blocks.length; bi++) {
-        const block = blocks[bi];
-        const logicalLines = block.split("\n");
-
-        for (let li = 0; li < logicalLines.length; li++) {
-          const logical = logicalLines[li];
-
-          if (logical.trim() === "") {
-            if (lineTooLow()) await ensureNewPage();
-            currentY -= LINE_H;
-            continue;
-          }
-
-          const words = logical.split(/\s+/).filter((w) => w.length > 0);
-          let curLine = "";
-          const maxWidth = currentRect.width - PAD * 2;
-
-          for (let wi = 0; wi < words.length; wi++) {
-            const word = words[wi];
-            const test = curLine ? `${curLine} ${word}` : word;
-
-            if (bodyFont.widthOfTextAtSize(test, FONT_BODY) <= maxWidth) {
-              curLine = test;
-            } else {
-              if (lineTooLow()) await ensureNewPage();
-              if (curLine) {
-                currentPage.drawText(sanitize(curLine), {
-                  x: currentRect.x + PAD,
-                  y: currentY,
-                  font: bodyFont,
-                  size: FONT_BODY,
-                  color: rgb(0, 0, 0),
-                });
-                currentY -= LINE_H;
-              }
-              curLine = word;
-            }
-          }
-
-          if (curLine) {
-            if (lineTooLow()) await ensureNewPage();
-            currentPage.drawText(sanitize(curLine), {
-              x: currentRect.x + PAD,
-              y: currentY,
-              font: bodyFont,
-              size: FONT_BODY,
-              color: rgb(0, 0, 0),
-            });
-            currentY -= LINE_H;
-          }
-        }
+      if (signing) out = signPreparedPdf(out, signing.identity, signing.date);
+      return { bytes: out, protectedOut, signature: signing && signatureRecord(signing) };
+    },
+    [signOn, signIdentity, signAppearance, regions.signature, signReason, signLocation, resolveFonts]
+  );
 
-        if (bi < blocks.length - 1) {
-          if (lineTooLow()) await ensureNewPage();
-          currentY -= LINE_H;
-        }
-      }
+  const generatePdf = useCallback(async () => {
+    if (!cleanTemplateBytes) {
+      setError("Sube primero una plantilla PDF.");
+      return;
+    }
+    if (signOn && !signIdentity) {
+      setError("Carga el certificado (.p12/.pfx) para firmar, o desactiva la firma.");
+      return;
+    }
 
-      /* ===== PAGINACIÓN ===== */
-      const totalBeforeSave = pdfDoc.getPageCount();
-      if (totalBeforeSave > 1) {
-        const fontSmall = await pdfDoc.embedFont(StandardFonts.Helvetica);
-        const footerY = usingFormFields ? 44 : 72;
-
-        for (let i = 0; i < totalBeforeSave; i++) {
-          const pg = pdfDoc.getPage(i);
-          pg.drawText(`Página ${i + 1} de ${totalBeforeSave}`, {
-            x: pg.getWidth() - 120,
-            y: footerY,
-            font: fontSmall,
-            size: 9,
-            color: rgb(0.35, 0.35, 0.35),
-          });
-        }
-      }
+    setIsLoading(true);
+    setError(null);
+    setSuccessMsg(null);
+    setGeneratedPdfBytes(null);
+    setGeneratedPages(null);
+    setLayoutReport(null);
+    setIssuedCode(null);
+    setGeneratedOwnerPassword(null);
+    const ctrl = startJob("generate");
 
-      const out = await pdfDoc.save();
+    try {
+      const id = newDocumentId();
+      const { bytes: out, report, missingVariables, watermarkText, verification } = await renderWith(
+        { title, body },
+        fieldValues,
+        variables,
+        id,
+        { onProgress: (p) => setJobProgress(progressLabel(p)), signal: ctrl.signal },
+        true
+      );
+      setLayoutReport(report);
+      const missingNote =
+        (missingVariables.length
+          ? ` Variables sin valor: ${missingVariables.map((v) => `{{${v}}}`).join(", ")}.`
+          : "") + (report.archivalIssues.length ? ` No es PDF/A: ${report.archivalIssues.join(" ")}` : "");
 
       // Páginas finales (variable local, confiable para historial)
-      let pagesCount = totalBeforeSave;
+      let pagesCount = report.pages;
       try {
         const verify = await PDFDocument.load(out);
         pagesCount = verify.getPageCount();
       } catch {
-        // deja totalBeforeSave
+        // deja report.pages
       }
       setGeneratedPages(pagesCount);
 
+      const fileName = title.trim().toLowerCase().replace(/\s+/g, "_").slice(0, 40) || "documento";
+      // Sin contraseña de propietario elegida, cada documento lleva una al azar
+      const ownerPassword = protection.ownerPassword || randomOwnerPassword();
+      if (protectPdf || signOn) setJobProgress(protectPdf ? "Cifrando…" : "Firmando…");
+      const sealed = await sealDocument(
+        out,
+        `${fileName}.pdf`,
+        protectPdf ? { ...protection, ownerPassword } : null
+      );
+      const protectedVia: ProtectionVia | undefined = sealed.protectedOut?.via;
+      const finalBytes = sealed.bytes;
+      setGeneratedPdfBytes(finalBytes);
+
+      const signNote = sealed.signature ? ` Firmado por ${sealed.signature.signer}.` : "";
       // Sin protección
-      if (!protectPdf) {
-        setGeneratedPdfBytes(out);
-        setSuccessMsg("PDF generado correctamente.");
+      if (!sealed.protectedOut) {
+        setSuccessMsg("PDF generado correctamente." + signNote + missingNote);
       } else {
-        // Con protección
-        const fileName =
-          title.trim().toLowerCase().replace(/\s+/g, "_").slice(0, 40) || "documento";
-
-        // ✅ FIX TS: convertir a ArrayBuffer “normal” para File/BlobPart
-        const outArrayBuffer = out.slice().buffer;
-
-        const file = new File([outArrayBuffer], `${fileName}.pdf`, {
-          type: "application/pdf",
-        });
-
-        const formData = new FormData();
-        formData.append("archivo", file);
-
-        const resp = await fetch(`${BACKEND_URL}/proteger-pdf`, {
-          method: "POST",
-          body: formData,
-        });
-
-        if (!resp.ok) throw new Error(`Backend respondió ${resp.status}`);
-
-        const blob = await resp.blob();
-        const buf = await blob.arrayBuffer();
-        const protectedBytes = new Uint8Array(buf);
+        // Con protección; la contraseña al azar queda a la vista bajo "Descargar PDF"
+        if (!protection.ownerPassword) setGeneratedOwnerPassword(ownerPassword);
+        const ownerNote = protection.ownerPassword ? "" : " Guarda la contraseña de propietario generada.";
+        const viaNote = sealed.protectedOut.fallbackReason
+          ? ` Se cifró en el servidor (en el navegador: ${sealed.protectedOut.fallbackReason}).`
+          : "";
+        setSuccessMsg("PDF generado y protegido correctamente." + ownerNote + viaNote + signNote + missingNote);
+      }
 
-        setGeneratedPdfBytes(protectedBytes);
-        setSuccessMsg("PDF generado y protegido correctamente.");
+      // La huella del archivo es la del PDF que se entrega
+      const verificationRecord =
+        verification && (await issueVerification(finalBytes, { documentId: id, title: title || "Sin título" }, verification));
+      setIssuedCode(verificationRecord?.code ?? null);
+      if (verificationRecord) {
+        setSuccessMsg((m) => m && `${m} Código de verificación: ${verificationRecord.code}.`);
       }
 
       // ===== Guardar en historial local =====
@@ -977,20 +1310,20 @@ const Generador: React.FC = () => {
       const bodyClipped = bodyNormalized.slice(0, 20000);
       const bodyPreview = short(bodyClipped.replace(/\s+/g, " ").trim(), 160);
 
-      const id =
-        (globalThis.crypto as any)?.randomUUID?.()
-          ? (globalThis.crypto as any).randomUUID()
-          : `${Date.now()}_${Math.random().toString(16).slice(2)}`;
-
       const item: HistoryItem = {
         id,
         title: title || "Sin título",
         bodyPreview,
         bodyFull: bodyClipped,
-        protected: protectPdf,
+        protection: protectPdf ? protectionRecord(protection, protectedVia) : null,
         templateName: templateName || null,
         createdAt: new Date().toISOString(),
         pages: pagesCount,
+        variables: Object.fromEntries(placeholderNames.map((n) => [n, variables[n] ?? ""])),
+        outputProfile,
+        ...(watermarkText !== null && { watermark: { ...watermarkSettingsOf(watermark), stamped: watermarkText } }),
+        ...(verificationRecord && { verification: verificationRecord }),
+        ...(sealed.signature && { signature: sealed.signature }),
       };
 
       const updated = [item, ...history].slice(0, 20);
@@ -1001,23 +1334,158 @@ const Generador: React.FC = () => {
 
       setTimeout(() => setSuccessMsg(null), 3500);
     } catch (e: any) {
-      setError("Error al generar: " + e.message);
+      if (isAbortError(e)) setSuccessMsg("Generación cancelada.");
+      else setError("Error al generar: " + e.message);
     } finally {
+      endJob(ctrl);
       setIsLoading(false);
     }
   }, [
     cleanTemplateBytes,
     title,
     body,
-    detectedFields,
-    fieldRects,
-    titleFieldName,
-    bodyFieldName,
     templateName,
     protectPdf,
+    protection,
     history,
+    renderWith,
+    fieldValues,
+    variables,
+    placeholderNames,
+    outputProfile,
+    watermark,
+    issueVerification,
+    signOn,
+    signIdentity,
+    sealDocument,
   ]);
 
+  // En el lote cada PDF se firma y cifra por separado; sin contraseña de
+  // propietario elegida, cada uno lleva una al azar, que va a informe.csv
+  const sealBatchFile = useCallback(
+    async (bytes: Uint8Array, fileName: string) => {
+      const ownerPassword = protection.ownerPassword || randomOwnerPassword();
+      const sealed = await sealDocument(bytes, fileName, protectPdf ? { ...protection, ownerPassword } : null);
+      return { bytes: sealed.bytes, ownerPassword: protectPdf && !protection.ownerPassword ? ownerPassword : undefined };
+    },
+    [protectPdf, protection, sealDocument]
+  );
+
+  // El lote queda en el historial como un solo elemento, con la marca de agua
+  // y el código de cada copia
+  const recordBatch = useCallback(
+    (results: MergeRowResult[], dataFile: string) => {
+      const done = results.filter((r) => r.ok && r.documentId);
+      if (done.length === 0) return;
+      const bodyClipped = normalizeBody(body || "").slice(0, 20000);
+      const item: HistoryItem = {
+        id: newDocumentId(),
+        title: title || "Sin título",
+        bodyPreview: short(bodyClipped.replace(/\s+/g, " ").trim(), 160),
+        bodyFull: bodyClipped,
+        protection: protectPdf ? protectionRecord(protection) : null,
+        templateName: templateName || null,
+        createdAt: new Date().toISOString(),
+        variables: Object.fromEntries(placeholderNames.map((n) => [n, variables[n] ?? ""])),
+        outputProfile,
+        batch: {
+          dataFile,
+          ...(watermarkOn && { watermark: watermarkSettingsOf(watermark) }),
+          files: done.map((r) => ({
+            row: r.row,
+            fileName: r.fileName,
+            documentId: r.documentId!,
+            ...(r.watermark !== undefined && { watermark: r.watermark }),
+            ...(r.verificationCode && { verificationCode: r.verificationCode }),
+          })),
+        },
+      };
+      persistHistory([item, ...history].slice(0, 20));
+    },
+    [body, title, protectPdf, protection, templateName, placeholderNames, variables, outputProfile, watermarkOn, watermark, history]
+  );
+
+  /* ===== REVISIÓN PREVIA ===== */
+
+  const runPreflight = useCallback(async () => {
+    setPreflightBusy(true);
+    setError(null);
+    try {
+      const { report, missingVariables } = await renderWith({ title, body }, fieldValues, variables);
+      setPreflight(buildPreflight(report, { title, body, footer: footerText }, missingVariables));
+    } catch (e: any) {
+      setPreflight(null);
+      setError("No se pudo revisar: " + e.message);
+    } finally {
+      setPreflightBusy(false);
+    }
+  }, [renderWith, title, body, footerText, fieldValues, variables]);
+
+  /* ===== VISTA PREVIA EN VIVO ===== */
+
+  useEffect(() => {
+    if (!livePreview || !pdfReady) return;
+    let cancelled = false;
+    const ctrl = new AbortController();
+    const t = setTimeout(async () => {
+      setPreviewBusy(true);
+      try {
+        const { bytes, report } = await renderWith({ title, body }, fieldValues, variables, undefined, {
+          signal: ctrl.signal,
+        });
+        if (cancelled) return;
+        setPreviewBytes(bytes);
+        setPreviewBlockPages(report.blockPages);
+        setPreviewError(null);
+      } catch (e: any) {
+        if (!cancelled) setPreviewError("No se pudo maquetar: " + e.message);
+      } finally {
+        if (!cancelled) setPreviewBusy(false);
+      }
+    }, PREVIEW_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(t);
+      ctrl.abort(); // la maquetación anterior ya no sirve: se termina su worker
+    };
+  }, [livePreview, pdfReady, renderWith, title, body, fieldValues, variables]);
+
+  // Página donde empieza el bloque del cursor (según la última maquetación)
+  const previewActivePage = useMemo(() => {
+    if (bodyCursor === null || previewBlockPages.length === 0) return null;
+    const bi = Math.min(blockIndexAt(body, bodyCursor), previewBlockPages.length - 1);
+    return previewBlockPages[bi];
+  }, [body, bodyCursor, previewBlockPages]);
+
+  // Las posiciones dejan de valer en cuanto se edita el texto
+  useEffect(() => {
+    setPreflight(null);
+  }, [title, body, footerText]);
+
+  /** Lleva el cursor al problema: selecciona el texto o enfoca el campo */
+  const locateIssue = (issue: PreflightIssue) => {
+    if (issue.field) {
+      const box = document.querySelector(`[data-field="${CSS.escape(issue.field)}"]`);
+      box?.scrollIntoView({ behavior: "smooth", block: "center" });
+      box?.querySelector<HTMLElement>("input, select, textarea")?.focus();
+      return;
+    }
+    if (!issue.target) return;
+    const { source, start, end } = issue.target;
+    const el =
+      source === "title" ? titleInputRef.current : source === "body" ? bodyInputRef.current : footerInputRef.current;
+    if (!el) return;
+    el.scrollIntoView({ behavior: "smooth", block: "center" });
+    el.focus();
+    el.setSelectionRange(start, end);
+    if (el instanceof HTMLTextAreaElement) {
+      // el navegador no siempre desplaza el textarea hasta la selección
+      const lineH = parseFloat(getComputedStyle(el).lineHeight) || 20;
+      const line = el.value.slice(0, start).split("\n").length - 1;
+      el.scrollTop = Math.max(0, line * lineH - el.clientHeight / 2);
+    }
+  };
+
   /* ========================================================= */
   /*    DESCARGAR PDF                                          */
   /* ========================================================= */
@@ -1041,8 +1509,73 @@ const Generador: React.FC = () => {
     URL.revokeObjectURL(a.href);
   };
 
+  const copyOwnerPassword = async () => {
+    if (!generatedOwnerPassword) return;
+    try {
+      await navigator.clipboard.writeText(generatedOwnerPassword);
+      setSuccessMsg("Contraseña de propietario copiada.");
+      setTimeout(() => setSuccessMsg(null), 2000);
+    } catch {
+      setError("No se pudo copiar; descárgala como archivo.");
+    }
+  };
+
+  const downloadOwnerPassword = () => {
+    if (!generatedOwnerPassword) return;
+    const safeName = (title || "documento").toLowerCase().replace(/\s+/g, "_").slice(0, 50);
+    const blob = new Blob(
+      [`Documento: ${safeName}.pdf\nContraseña de propietario: ${generatedOwnerPassword}\n`],
+      { type: "text/plain;charset=utf-8" }
+    );
+    const a = document.createElement("a");
+    a.href = URL.createObjectURL(blob);
+    a.download = `${safeName}_contrasena.txt`;
+    a.click();
+    URL.revokeObjectURL(a.href);
+  };
+
   /* ====================== PANEL RESUMEN ====================== */
 
+  // Campos que se rellenan a mano (título y cuerpo se llenan con el contenido)
+  const extraFields = useMemo(
+    () =>
+      formFields.filter(
+        (f) => isFillable(f) && f.name !== titleFieldName && f.name !== bodyFieldName
+      ),
+    [formFields, titleFieldName, bodyFieldName]
+  );
+
+  const setFieldValue = (name: string, value: FieldValue) =>
+    setFieldValues((prev) => ({ ...prev, [name]: value }));
+
+  // Al aplanar se pueden dejar vivos campos para el destinatario (firmas incluidas)
+  const editableCandidates = useMemo(
+    () => formFields.filter((f) => f.name !== titleFieldName && f.name !== bodyFieldName),
+    [formFields, titleFieldName, bodyFieldName]
+  );
+
+  // Campos con texto a los que se les puede elegir política de ajuste
+  const fitFields = useMemo(
+    () =>
+      formFields
+        .filter(
+          (f) =>
+            f.name === titleFieldName ||
+            f.name === bodyFieldName ||
+            (isFillable(f) && (f.kind === "text" || f.kind === "date"))
+        )
+        .map((f) => f.name),
+    [formFields, titleFieldName, bodyFieldName]
+  );
+
+  const setFieldFitFor = (name: string, policy: FieldFit) =>
+    setFieldFit((prev) => ({ ...prev, [name]: policy }));
+
+  const toggleEditableField = (name: string) =>
+    setEditableFields((prev) =>
+      prev.includes(name) ? prev.filter((n) => n !== name) : [...prev, name]
+    );
+
   const summary = useMemo(() => {
     const hasTemplate = !!cleanTemplateBytes;
     const hasContent = (title || "").trim().length > 0 || (body || "").trim().length > 0;
@@ -1052,11 +1585,25 @@ const Generador: React.FC = () => {
       hasTemplate,
       hasContent,
       fieldsDetected,
-      protected: protectPdf,
+      protected: protectPdf ? describeProtection(protectionRecord(protection)) : null,
       pages: generatedPages,
       templateName: templateName,
     };
-  }, [cleanTemplateBytes, title, body, detectedFields, protectPdf, generatedPages, templateName]);
+  }, [cleanTemplateBytes, title, body, detectedFields, protectPdf, protection, generatedPages, templateName]);
+
+  // Progreso del trabajo en curso, con botón para cancelarlo
+  const jobBox = job && (
+    <div className="flex items-center justify-between gap-3 rounded-lg border border-white/15 bg-black/20 px-3 py-2 text-sm">
+      <span className="text-purple-200">{job.label}</span>
+      <button
+        type="button"
+        onClick={cancelJob}
+        className="px-3 py-1 rounded-md border border-red-300/40 text-red-200 hover:bg-red-500/10 text-xs"
+      >
+        Cancelar
+      </button>
+    </div>
+  );
 
   /* ========================================================= */
   /*                      INTERFAZ UI                           */
@@ -1220,12 +1767,450 @@ const Generador: React.FC = () => {
                     ))}
                   </select>
                 </div>
+
+                {fitFields.length > 0 && (
+                  <div className="sm:col-span-2 space-y-2">
+                    <h3 className="text-sm font-semibold text-purple-200">Si el texto no cabe</h3>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-2">
+                      {fitFields.map((name) => (
+                        <label key={name} className="flex items-center justify-between gap-2 text-sm">
+                          <span className="truncate">
+                            {name}
+                            {name === bodyFieldName ? " (cuerpo)" : name === titleFieldName ? " (título)" : ""}
+                          </span>
+                          <select
+                            className="bg-white/20 rounded-md px-2 py-1"
+                            value={fieldFit[name] ?? "overflow"}
+                            onChange={(e) => setFieldFitFor(name, e.target.value as FieldFit)}
+                          >
+                            <option value="overflow">
+                              {name === bodyFieldName ? "Seguir en otra hoja" : "Recortar"}
+                            </option>
+                            <option value="shrink">Reducir letra</option>
+                            <option value="ellipsis">Recortar con “…”</option>
+                          </select>
+                        </label>
+                      ))}
+                    </div>
+                    <label className="inline-flex items-center gap-2 text-xs text-purple-200/80">
+                      Letra mínima al reducir
+                      <input
+                        type="number"
+                        min={4}
+                        max={14}
+                        step={0.5}
+                        className="w-16 bg-white/20 rounded-md px-2 py-1"
+                        value={minFontSize}
+                        onChange={(e) => setMinFontSize(Math.max(4, Number(e.target.value) || 6))}
+                      />
+                      pt
+                    </label>
+                  </div>
+                )}
+
+                {extraFields.length > 0 && (
+                  <div className="sm:col-span-2 space-y-3">
+                    <h3 className="text-sm font-semibold text-purple-200">
+                      Otros campos de la plantilla
+                    </h3>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                      {extraFields.map((f) => (
+                        <div key={f.name} data-field={f.name}>
+                          {f.kind === "checkbox" ? (
+                            <label className="inline-flex items-center gap-2 text-sm mt-6">
+                              <input
+                                type="checkbox"
+                                className="h-4 w-4"
+                                checked={fieldValues[f.name] === true}
+                                onChange={(e) => setFieldValue(f.name, e.target.checked)}
+                              />
+                              <span>{f.name}</span>
+                            </label>
+                          ) : (
+                            <>
+                              <label className="block text-sm mb-1">{f.name}</label>
+                              {f.kind === "dropdown" || f.kind === "radio" ? (
+                                <select
+                                  className="w-full bg-white/20 rounded-md px-3 py-2"
+                                  value={String(fieldValues[f.name] ?? "")}
+                                  onChange={(e) => setFieldValue(f.name, e.target.value)}
+                                >
+                                  <option value="">—</option>
+                                  {(f.options || []).map((o) => (
+                                    <option key={o} value={o}>
+                                      {o}
+                                    </option>
+                                  ))}
+                                </select>
+                              ) : f.multiline ? (
+                                <textarea
+                                  rows={3}
+                                  maxLength={f.maxLength}
+                                  className="w-full bg-white/20 rounded-md px-3 py-2"
+                                  value={String(fieldValues[f.name] ?? "")}
+                                  onChange={(e) => setFieldValue(f.name, e.target.value)}
+                                />
+                              ) : (
+                                <input
+                                  type={f.kind === "date" ? "date" : "text"}
+                                  maxLength={f.maxLength}
+                                  className="w-full bg-white/20 rounded-md px-3 py-2"
+                                  value={String(fieldValues[f.name] ?? "")}
+                                  onChange={(e) => setFieldValue(f.name, e.target.value)}
+                                />
+                              )}
+                            </>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {canFillForm && (
+                  <div className="sm:col-span-2 space-y-3">
+                    <div>
+                      <label className="block text-sm mb-1">Valores de los campos</label>
+                      <select
+                        className="w-full bg-white/20 rounded-md px-3 py-2"
+                        value={fieldMode}
+                        onChange={(e) => setFieldMode(e.target.value as FieldMode)}
+                      >
+                        <option value="draw">Dibujar sobre la plantilla</option>
+                        <option value="fill">Rellenar los campos reales del formulario</option>
+                      </select>
+                    </div>
+
+                    {fieldMode === "fill" && (
+                      <>
+                        <label className="inline-flex items-center gap-2 text-sm">
+                          <input
+                            type="checkbox"
+                            className="h-4 w-4"
+                            checked={flattenFields}
+                            onChange={(e) => setFlattenFields(e.target.checked)}
+                          />
+                          <span>Aplanar (los campos pasan a ser texto fijo)</span>
+                        </label>
+
+                        {flattenFields && editableCandidates.length > 0 && (
+                          <div>
+                            <p className="text-xs text-purple-200/80 mb-1">
+                              Dejar editables para que el destinatario los complete:
+                            </p>
+                            <div className="flex flex-wrap gap-x-4 gap-y-1">
+                              {editableCandidates.map((f) => (
+                                <label key={f.name} className="inline-flex items-center gap-2 text-sm">
+                                  <input
+                                    type="checkbox"
+                                    className="h-4 w-4"
+                                    checked={editableFields.includes(f.name)}
+                                    onChange={() => toggleEditableField(f.name)}
+                                  />
+                                  <span>{f.name}</span>
+                                </label>
+                              ))}
+                            </div>
+                          </div>
+                        )}
+
+                        <p className="text-xs text-purple-300 italic">
+                          El cuerpo se sigue maquetando como texto; los campos de las hojas de
+                          continuación se dibujan.
+                        </p>
+                      </>
+                    )}
+                  </div>
+                )}
               </div>
             ) : templateName ? (
               <p className="text-xs text-purple-300 italic mt-1">
-                No se detectaron campos de formulario. Se usará un área genérica de texto.
+                No se detectaron campos de formulario.{" "}
+                {Object.values(regions).some(Boolean)
+                  ? "Se usarán las regiones dibujadas para esta plantilla."
+                  : "Se usará un área genérica de texto; puedes dibujar las regiones."}
               </p>
             ) : null}
+
+            {templateName && cleanTemplateBytes && (
+              <div className="space-y-3">
+                <button
+                  type="button"
+                  onClick={() => setShowRegionEditor((v) => !v)}
+                  className="text-sm px-3 py-1 rounded-md bg-white/10 border border-white/20 hover:bg-white/20"
+                >
+                  {showRegionEditor ? "Cerrar editor de regiones" : "Editar regiones de la plantilla"}
+                </button>
+                {showRegionEditor && (
+                  <RegionEditor
+                    templateBytes={cleanTemplateBytes}
+                    pageCount={templatePageCount}
+                    regions={regions}
+                    onChange={setRegions}
+                  />
+                )}
+                {showRegionEditor && detectedFields && detectedFields.length > 0 && (
+                  <p className="text-xs text-purple-200/60">
+                    Los campos de formulario elegidos arriba tienen prioridad sobre las regiones.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {templatePageCount > 1 && (
+              <div className="pt-4 border-t border-white/10 space-y-3">
+                <h3 className="text-sm font-semibold text-purple-200">
+                  Páginas de la plantilla ({templatePageCount})
+                </h3>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                  {(
+                    [
+                      ["first", "Portada", null],
+                      ["continuation", "Continuación", null],
+                      ["continuationEven", "Pares (izquierda)", "Igual que impares"],
+                      ["closing", "Cierre", "Ninguna"],
+                    ] as const
+                  ).map(([key, label, emptyLabel]) => (
+                    <div key={key}>
+                      <label className="block text-sm mb-1">{label}</label>
+                      <select
+                        className="w-full bg-white/20 rounded-md px-3 py-2"
+                        value={templatePages[key] ?? ""}
+                        onChange={(e) =>
+                          setTemplatePages((prev) => ({
+                            ...prev,
+                            [key]: e.target.value === "" ? null : Number(e.target.value),
+                          }))
+                        }
+                      >
+                        {emptyLabel && <option value="">{emptyLabel}</option>}
+                        {Array.from({ length: templatePageCount }, (_, i) => (
+                          <option key={i} value={i}>
+                            Página {i + 1}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-purple-200/60">
+                  Las páginas que no se elijan no aparecen en el documento. La de cierre va al
+                  final, sin número de página.
+                </p>
+              </div>
+            )}
+
+            <div className="pt-4 border-t border-white/10 space-y-3">
+              <h3 className="text-sm font-semibold text-purple-200">Tipografía</h3>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm mb-1">Fuente del título</label>
+                  <select
+                    className="w-full bg-white/20 rounded-md px-3 py-2"
+                    value={titleFontId}
+                    onChange={(e) => setTitleFontId(e.target.value)}
+                  >
+                    <option value="">{BUNDLED_FONT_NAME} Bold (incluida)</option>
+                    {fontRecords.map((f) => (
+                      <option key={f.id} value={f.id}>
+                        {f.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm mb-1">Fuente del cuerpo</label>
+                  <select
+                    className="w-full bg-white/20 rounded-md px-3 py-2"
+                    value={bodyFontId}
+                    onChange={(e) => setBodyFontId(e.target.value)}
+                  >
+                    <option value="">{BUNDLED_FONT_NAME} (incluida)</option>
+                    {fontRecords.map((f) => (
+                      <option key={f.id} value={f.id}>
+                        {f.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <label className="text-sm text-purple-200">Subir fuente (.ttf, .otf)</label>
+              <input
+                type="file"
+                accept=".ttf,.otf"
+                onChange={handleFontUpload}
+                className="block w-full text-purple-200 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:bg-purple-200 file:text-purple-900"
+              />
+
+              {fontRecords.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {fontRecords.map((f) => (
+                    <span
+                      key={f.id}
+                      className="inline-flex items-center gap-2 text-xs px-2 py-1 rounded-full bg-black/30 border border-white/10"
+                    >
+                      {f.name}
+                      <button
+                        onClick={() => handleDeleteFont(f.id)}
+                        className="text-red-200 hover:text-red-100"
+                        title="Borrar fuente"
+                      >
+                        ✕
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              <p className="text-xs text-purple-200/60">
+                Las fuentes subidas también se usan como respaldo para caracteres que falten
+                (p. ej. una fuente de emoji).
+              </p>
+
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                {(
+                  [
+                    ["fontSize", "Tamaño (pt)", 6, 24, 0.5],
+                    ["leading", "Interlineado (pt)", 8, 40, 0.5],
+                    ["paragraphSpacing", "Entre párrafos (pt)", 0, 40, 1],
+                    ["firstLineIndent", "Sangría 1ª línea (pt)", 0, 72, 1],
+                    ["orphans", "Mín. renglones al pie", 1, 5, 1],
+                    ["widows", "Mín. renglones arriba", 1, 5, 1],
+                  ] as const
+                ).map(([key, label, min, max, step]) => (
+                  <div key={key}>
+                    <label className="block text-sm mb-1">{label}</label>
+                    <input
+                      type="number"
+                      min={min}
+                      max={max}
+                      step={step}
+                      value={typography[key]}
+                      onChange={(e) => {
+                        const v = Number(e.target.value);
+                        if (Number.isFinite(v)) updateTypography({ [key]: Math.min(max, Math.max(min, v)) });
+                      }}
+                      className="w-full bg-white/20 rounded-md px-3 py-2"
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex flex-wrap items-center gap-4">
+                <div>
+                  <label className="block text-sm mb-1">Alineación</label>
+                  <select
+                    className="bg-white/20 rounded-md px-3 py-2"
+                    value={typography.align}
+                    onChange={(e) => updateTypography({ align: e.target.value as Typography["align"] })}
+                  >
+                    <option value="left">Izquierda</option>
+                    <option value="justify">Justificado</option>
+                    <option value="center">Centrado</option>
+                  </select>
+                </div>
+                <label className="inline-flex items-center gap-2 text-sm mt-5">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4"
+                    checked={typography.hyphenate}
+                    onChange={(e) => updateTypography({ hyphenate: e.target.checked })}
+                  />
+                  <span>Dividir palabras con guion (español)</span>
+                </label>
+              </div>
+
+              <p className="text-xs text-purple-200/60">
+                {templateName
+                  ? `Campos, regiones, páginas, fuentes y tipografía se guardan en el perfil de "${templateName}"${selectedRemoteId ? " (también en el backend)" : ""}.`
+                  : "Campos, regiones, páginas, fuentes y tipografía se guardan con cada plantilla."}{" "}
+                Las URLs y palabras demasiado largas se parten solas.
+              </p>
+            </div>
+
+            <div className="pt-4 border-t border-white/10 space-y-3">
+              <h3 className="text-sm font-semibold text-purple-200">Cabecera, pie y numeración</h3>
+              {(
+                [
+                  ["header", "Cabecera"],
+                  ["footer", "Pie"],
+                ] as const
+              ).map(([band, label]) => (
+                <div key={band}>
+                  <label className="block text-sm mb-1">{label}</label>
+                  <div className="grid grid-cols-3 gap-2">
+                    {SLOT_KEYS.map((slot) => (
+                      <input
+                        key={slot}
+                        className={`w-full bg-white/20 rounded-md px-2 py-1.5 text-sm ${
+                          slot === "center" ? "text-center" : slot === "right" ? "text-right" : ""
+                        }`}
+                        placeholder={slot === "left" ? "Izquierda" : slot === "center" ? "Centro" : "Derecha"}
+                        value={running[band][slot]}
+                        onChange={(e) =>
+                          updateRunning({ [band]: { ...running[band], [slot]: e.target.value } })
+                        }
+                      />
+                    ))}
+                  </div>
+                </div>
+              ))}
+
+              <div className="flex flex-wrap items-end gap-4 text-sm">
+                <div>
+                  <label className="block text-sm mb-1">Empezar en</label>
+                  <input
+                    type="number"
+                    min={1}
+                    step={1}
+                    value={running.startAt}
+                    onChange={(e) => {
+                      const v = Math.floor(Number(e.target.value));
+                      if (Number.isFinite(v)) updateRunning({ startAt: Math.max(1, v) });
+                    }}
+                    className="w-24 bg-white/20 rounded-md px-3 py-2"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm mb-1">Números</label>
+                  <select
+                    className="bg-white/20 rounded-md px-3 py-2"
+                    value={running.numerals}
+                    onChange={(e) => updateRunning({ numerals: e.target.value as RunningTexts["numerals"] })}
+                  >
+                    <option value="arabic">1, 2, 3</option>
+                    <option value="roman">i, ii, iii</option>
+                    <option value="ROMAN">I, II, III</option>
+                  </select>
+                </div>
+                <label className="inline-flex items-center gap-2 mb-2">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4"
+                    checked={running.skipFirst}
+                    onChange={(e) => updateRunning({ skipFirst: e.target.checked })}
+                  />
+                  <span>Sin cabecera ni pie en la portada</span>
+                </label>
+                <label className="inline-flex items-center gap-2 mb-2">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4"
+                    checked={running.hideOnSinglePage}
+                    onChange={(e) => updateRunning({ hideOnSinglePage: e.target.checked })}
+                  />
+                  <span>No numerar si hay una sola hoja</span>
+                </label>
+              </div>
+
+              <p className="text-xs text-purple-200/60">
+                Variables: <code>{"{{pagina}}"}</code>, <code>{"{{total}}"}</code> (última hoja
+                numerada), <code>{"{{titulo}}"}</code>, <code>{"{{pie}}"}</code> (el pie del
+                contenido), <code>{"{{fecha}}"}</code>, <code>{"{{id_documento}}"}</code> y las
+                tuyas. Con la portada fuera, la numeración empieza en la segunda hoja.
+              </p>
+            </div>
           </section>
 
           {/* 2. CONTENIDO */}
@@ -1238,6 +2223,7 @@ const Generador: React.FC = () => {
             </div>
 
             <input
+              ref={titleInputRef}
               type="text"
               value={title}
               onChange={(e) => setTitle(e.target.value)}
@@ -1245,12 +2231,49 @@ const Generador: React.FC = () => {
               placeholder="Aquí va el título"
             />
 
-            <textarea
-              rows={10}
-              value={body}
-              onChange={(e) => setBody(e.target.value)}
+            <div
+              className={`grid grid-cols-1 gap-4 ${livePreview ? "md:grid-cols-[1fr_180px]" : ""}`}
+            >
+              <textarea
+                ref={bodyInputRef}
+                rows={livePreview ? 22 : 10}
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                onSelect={(e) => setBodyCursor(e.currentTarget.selectionStart)}
+                className="w-full bg-white/20 rounded-md px-3 py-2"
+                placeholder="Aquí va el contenido"
+              />
+              {livePreview && (
+                <LivePreview
+                  bytes={previewBytes}
+                  activePage={previewActivePage}
+                  busy={previewBusy}
+                  error={previewError}
+                />
+              )}
+            </div>
+            <label className="inline-flex items-center gap-2 text-xs text-purple-200/80 -mt-2">
+              <input
+                type="checkbox"
+                checked={livePreview}
+                onChange={(e) => setLivePreview(e.target.checked)}
+              />
+              Vista previa en vivo (se actualiza al dejar de escribir)
+            </label>
+            <p className="text-xs text-purple-200/60 -mt-4">
+              Formato: <code># Título</code>, <code>## Subtítulo</code>, <code>**negrita**</code>,{" "}
+              <code>*cursiva*</code>, <code>- viñeta</code>, <code>1. lista</code>,{" "}
+              <code>&gt; cita</code>, <code>| tabla |</code>, <code>[salto de página]</code>,{" "}
+              <code>{"{{variable}}"}</code>. Una línea en blanco separa párrafos.
+            </p>
+
+            <input
+              ref={footerInputRef}
+              type="text"
+              value={footerText}
+              onChange={(e) => setFooterText(e.target.value)}
               className="w-full bg-white/20 rounded-md px-3 py-2"
-              placeholder="Aquí va el contenido"
+              placeholder="Pie de página (opcional; va donde diga {{pie}} en cabecera y pie)"
             />
 
             <div className="flex flex-col sm:flex-row gap-3 items-start sm:items-center justify-between">
@@ -1266,10 +2289,14 @@ const Generador: React.FC = () => {
                 />
               </label>
 
+              {job?.kind === "import" && jobBox}
+
               <button
                 onClick={() => {
                   setTitle("");
                   setBody("");
+                  setDocImages({});
+                  setImportWarnings([]);
                   setSuccessMsg("Contenido limpiado.");
                   setTimeout(() => setSuccessMsg(null), 2000);
                 }}
@@ -1278,6 +2305,29 @@ const Generador: React.FC = () => {
                 Limpiar contenido
               </button>
             </div>
+
+            {(Object.keys(docImages).length > 0 || importWarnings.length > 0) && (
+              <div className="rounded-lg border border-white/15 bg-black/20 p-4 space-y-2 text-xs">
+                {Object.keys(docImages).length > 0 && (
+                  <p className="text-purple-200/80">
+                    Imágenes importadas: <b>{Object.keys(docImages).length}</b> (no se guardan en
+                    el historial).
+                  </p>
+                )}
+                {importWarnings.length > 0 && (
+                  <>
+                    <p className="text-amber-200 font-semibold">
+                      Elementos del Word que no se pudieron convertir:
+                    </p>
+                    <ul className="list-disc list-inside text-purple-200/80 space-y-0.5">
+                      {importWarnings.map((w) => (
+                        <li key={w}>{w}</li>
+                      ))}
+                    </ul>
+                  </>
+                )}
+              </div>
+            )}
           </section>
 
           {/* 3. GENERAR / DESCARGAR */}
@@ -1289,19 +2339,455 @@ const Generador: React.FC = () => {
                 type="checkbox"
                 className="h-4 w-4"
                 checked={protectPdf}
+                disabled={outputProfile === "archival"}
                 onChange={(e) => setProtectPdf(e.target.checked)}
               />
-              <span>Proteger PDF (bloquear impresión y copia)</span>
+              <span>Proteger PDF (contraseñas y permisos)</span>
             </label>
 
+            {protectPdf && (
+              <div className="rounded-lg border border-white/15 bg-black/20 p-4 space-y-3 text-sm">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  <label className="space-y-1">
+                    <span className="text-xs text-purple-200/80">Contraseña para abrir</span>
+                    <input
+                      type="password"
+                      autoComplete="new-password"
+                      className="w-full p-2 rounded-md bg-white/20 text-xs"
+                      value={protection.userPassword}
+                      placeholder="Sin contraseña: se abre libremente"
+                      onChange={(e) => setProtection((prev) => ({ ...prev, userPassword: e.target.value }))}
+                    />
+                  </label>
+                  <label className="space-y-1">
+                    <span className="text-xs text-purple-200/80">Contraseña de propietario</span>
+                    <input
+                      type="password"
+                      autoComplete="new-password"
+                      className="w-full p-2 rounded-md bg-white/20 text-xs"
+                      value={protection.ownerPassword}
+                      placeholder="Vacía: una al azar por documento"
+                      onChange={(e) => setProtection((prev) => ({ ...prev, ownerPassword: e.target.value }))}
+                    />
+                  </label>
+                </div>
+                {protection.userPassword !== "" && protection.userPassword === protection.ownerPassword && (
+                  <p className="text-xs text-amber-200">
+                    ⚠ Con la misma contraseña para abrir y de propietario, quien abra el PDF tendrá todos los permisos.
+                  </p>
+                )}
+
+                <label className="flex items-center gap-2 text-xs">
+                  Cifrado
+                  <select
+                    className="bg-white/20 rounded-md px-2 py-1"
+                    value={protection.algorithm}
+                    onChange={(e) =>
+                      setProtection((prev) => ({ ...prev, algorithm: e.target.value as EncryptionAlgorithm }))
+                    }
+                  >
+                    {(Object.keys(ENCRYPTION_LABELS) as EncryptionAlgorithm[]).map((k) => (
+                      <option key={k} value={k}>
+                        {ENCRYPTION_LABELS[k]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <p className="text-xs text-purple-200/60">
+                  Se cifra en el navegador; el documento solo viaja al servidor si eso falla.
+                </p>
+
+                <div className="space-y-2">
+                  <p className="text-xs text-purple-200/80">Permitir sin la contraseña de propietario:</p>
+                  <label className="flex items-center gap-2 text-xs">
+                    Imprimir
+                    <select
+                      className="bg-white/20 rounded-md px-2 py-1"
+                      value={protection.permissions.printing}
+                      onChange={(e) => updatePermissions({ printing: e.target.value as PrintPermission })}
+                    >
+                      {(Object.keys(PRINT_LABELS) as PrintPermission[]).map((k) => (
+                        <option key={k} value={k}>
+                          {PRINT_LABELS[k]}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-2 text-xs">
+                    <input
+                      type="checkbox"
+                      checked={protection.permissions.copying}
+                      onChange={(e) => updatePermissions({ copying: e.target.checked })}
+                    />
+                    Copiar texto e imágenes
+                  </label>
+                  <label className="flex items-center gap-2 text-xs">
+                    <input
+                      type="checkbox"
+                      checked={protection.permissions.fillingForms}
+                      onChange={(e) => updatePermissions({ fillingForms: e.target.checked })}
+                    />
+                    Rellenar campos del formulario
+                  </label>
+                  <label className="flex items-center gap-2 text-xs">
+                    <input
+                      type="checkbox"
+                      checked={protection.permissions.annotating}
+                      onChange={(e) => updatePermissions({ annotating: e.target.checked })}
+                    />
+                    Añadir comentarios y notas
+                  </label>
+                </div>
+              </div>
+            )}
+
+            <div className="rounded-lg border border-white/15 bg-black/20 p-4 space-y-3 text-sm">
+              <label className="flex items-center gap-2 font-semibold text-purple-200">
+                <input type="checkbox" checked={signOn} onChange={(e) => setSignOn(e.target.checked)} />
+                Firma digital (certificado .p12/.pfx)
+              </label>
+              {signOn && (
+                <>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                    <label className="space-y-1">
+                      <span className="text-xs text-purple-200/80">Certificado</span>
+                      <input
+                        type="file"
+                        accept=".p12,.pfx,application/x-pkcs12"
+                        className="w-full text-xs"
+                        onChange={(e) => {
+                          setCertFile(e.target.files?.[0] ?? null);
+                          setSignIdentity(null);
+                          setCertError(null);
+                        }}
+                      />
+                    </label>
+                    <label className="space-y-1">
+                      <span className="text-xs text-purple-200/80">Contraseña del certificado</span>
+                      <input
+                        type="password"
+                        autoComplete="off"
+                        className="w-full p-2 rounded-md bg-white/20 text-xs"
+                        value={certPassword}
+                        onChange={(e) => setCertPassword(e.target.value)}
+                        onKeyDown={(e) => e.key === "Enter" && loadCertificate()}
+                      />
+                    </label>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={loadCertificate}
+                    disabled={!certFile}
+                    className="px-3 py-1 rounded-md bg-white/15 hover:bg-white/25 text-xs disabled:opacity-50"
+                  >
+                    Cargar certificado
+                  </button>
+                  {certError && <p className="text-xs text-red-300">{certError}</p>}
+                  {signIdentity && (
+                    <p className="text-xs text-green-200">
+                      ✍️ {signIdentity.signer}
+                      {signIdentity.organization && ` · ${signIdentity.organization}`} · emitido por{" "}
+                      {signIdentity.selfSigned ? "el propio firmante (autofirmado)" : signIdentity.issuer} · vigente
+                      del {signIdentity.notBefore.toLocaleDateString()} al {signIdentity.notAfter.toLocaleDateString()}
+                    </p>
+                  )}
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-2 text-xs">
+                    <label className="space-y-1">
+                      <span className="text-purple-200/80">Apariencia</span>
+                      <select
+                        className="w-full p-2 rounded-md bg-white/20"
+                        value={signAppearance}
+                        onChange={(e) => setSignAppearance(e.target.value as SignatureAppearance)}
+                      >
+                        {(Object.keys(APPEARANCE_LABELS) as SignatureAppearance[]).map((k) => (
+                          <option key={k} value={k}>
+                            {APPEARANCE_LABELS[k]}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="space-y-1">
+                      <span className="text-purple-200/80">Motivo</span>
+                      <input
+                        className="w-full p-2 rounded-md bg-white/20"
+                        value={signReason}
+                        onChange={(e) => setSignReason(e.target.value)}
+                      />
+                    </label>
+                    <label className="space-y-1">
+                      <span className="text-purple-200/80">Lugar</span>
+                      <input
+                        className="w-full p-2 rounded-md bg-white/20"
+                        value={signLocation}
+                        placeholder="Opcional"
+                        onChange={(e) => setSignLocation(e.target.value)}
+                      />
+                    </label>
+                  </div>
+                  <p className="text-xs text-purple-200/60">
+                    El certificado no sale del navegador ni se guarda. La hora de la firma es la de este equipo.
+                    {signAppearance === "visible" &&
+                      (regions.signature
+                        ? " El recuadro va en la región «Firma» de la última hoja."
+                        : " Sin región «Firma» en la plantilla, el recuadro va abajo a la derecha de la última hoja.")}
+                  </p>
+                </>
+              )}
+            </div>
+
+            <div className="rounded-lg border border-white/15 bg-black/20 p-4 space-y-3 text-sm">
+              <label className="flex items-center gap-2 font-semibold text-purple-200">
+                <input type="checkbox" checked={watermarkOn} onChange={(e) => setWatermarkOn(e.target.checked)} />
+                Marca de agua por destinatario
+              </label>
+              {watermarkOn && (
+                <>
+                  <textarea
+                    className="w-full p-2 rounded-md bg-white/20 text-xs font-mono"
+                    rows={2}
+                    value={watermark.text}
+                    onChange={(e) => updateWatermark({ text: e.target.value })}
+                  />
+                  <p className="text-xs text-purple-200/60">
+                    Usa <code>{"{{destinatario}}"}</code>, <code>{"{{correo}}"}</code> o cualquier columna del
+                    lote, además de <code>{"{{fecha}}"}</code> y <code>{"{{id_documento}}"}</code>. En diagonal,
+                    cada línea es un renglón.
+                  </p>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-2 text-xs">
+                    <label className="space-y-1">
+                      <span className="text-purple-200/80">Posición</span>
+                      <select
+                        className="w-full p-2 rounded-md bg-white/20"
+                        value={watermark.placement}
+                        onChange={(e) => updateWatermark({ placement: e.target.value as WatermarkPlacement })}
+                      >
+                        {(Object.keys(PLACEMENT_LABELS) as WatermarkPlacement[]).map((k) => (
+                          <option key={k} value={k}>
+                            {PLACEMENT_LABELS[k]}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="space-y-1">
+                      <span className="text-purple-200/80">Opacidad: {Math.round(watermark.opacity * 100)} %</span>
+                      <input
+                        type="range"
+                        min={5}
+                        max={60}
+                        className="w-full"
+                        value={Math.round(watermark.opacity * 100)}
+                        onChange={(e) => updateWatermark({ opacity: Number(e.target.value) / 100 })}
+                      />
+                    </label>
+                    <label className="space-y-1">
+                      <span className="text-purple-200/80">Tamaño máximo (pt)</span>
+                      <input
+                        type="number"
+                        min={6}
+                        max={96}
+                        className="w-full p-2 rounded-md bg-white/20"
+                        value={watermark.size}
+                        onChange={(e) => updateWatermark({ size: Math.max(6, Number(e.target.value) || 6) })}
+                      />
+                    </label>
+                  </div>
+                </>
+              )}
+            </div>
+
+            <div className="rounded-lg border border-white/15 bg-black/20 p-4 space-y-3 text-sm">
+              <p className="font-semibold text-purple-200">Propiedades del documento</p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                <label className="space-y-1">
+                  <span className="text-xs text-purple-200/80">Título</span>
+                  <input
+                    className="w-full p-2 rounded-md bg-white/20 text-xs"
+                    value={metadata.title}
+                    placeholder={title.trim() || "Sin título"}
+                    onChange={(e) => updateMetadata({ title: e.target.value })}
+                  />
+                </label>
+                <label className="space-y-1">
+                  <span className="text-xs text-purple-200/80">Autor</span>
+                  <input
+                    className="w-full p-2 rounded-md bg-white/20 text-xs"
+                    value={metadata.author}
+                    placeholder={DEFAULT_AUTHOR}
+                    onChange={(e) => updateMetadata({ author: e.target.value })}
+                  />
+                </label>
+                <label className="space-y-1">
+                  <span className="text-xs text-purple-200/80">Asunto</span>
+                  <input
+                    className="w-full p-2 rounded-md bg-white/20 text-xs"
+                    value={metadata.subject}
+                    placeholder={templateName || "—"}
+                    onChange={(e) => updateMetadata({ subject: e.target.value })}
+                  />
+                </label>
+                <label className="space-y-1">
+                  <span className="text-xs text-purple-200/80">Palabras clave (separadas por comas)</span>
+                  <input
+                    className="w-full p-2 rounded-md bg-white/20 text-xs"
+                    value={metadata.keywords}
+                    placeholder="guía, unidad 1, matemáticas"
+                    onChange={(e) => updateMetadata({ keywords: e.target.value })}
+                  />
+                </label>
+                <label className="space-y-1">
+                  <span className="text-xs text-purple-200/80">Idioma</span>
+                  <input
+                    className="w-full p-2 rounded-md bg-white/20 text-xs"
+                    list="pdf-languages"
+                    value={metadata.language}
+                    onChange={(e) => updateMetadata({ language: e.target.value })}
+                  />
+                  <datalist id="pdf-languages">
+                    {LANGUAGES.map((l) => (
+                      <option key={l} value={l} />
+                    ))}
+                  </datalist>
+                </label>
+                <label className="space-y-1">
+                  <span className="text-xs text-purple-200/80">Perfil de salida</span>
+                  <select
+                    className="w-full p-2 rounded-md bg-white/20 text-xs"
+                    value={outputProfile}
+                    onChange={(e) => {
+                      const next = e.target.value as OutputProfile;
+                      setOutputProfile(next);
+                      // PDF/A no admite cifrado
+                      if (next === "archival") setProtectPdf(false);
+                    }}
+                  >
+                    {(Object.keys(OUTPUT_PROFILE_LABELS) as OutputProfile[]).map((k) => (
+                      <option key={k} value={k}>
+                        {OUTPUT_PROFILE_LABELS[k]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              <p className="text-xs text-purple-200/60">
+                Lo que quede vacío usa el valor gris. El perfil de archivo añade metadatos XMP y
+                perfil de color sRGB, y avisa si alguna fuente de la plantilla no va incrustada; no
+                se puede combinar con la protección.
+              </p>
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={verifyOn} onChange={(e) => setVerifyOn(e.target.checked)} />
+                <span>Código de verificación y QR al pie</span>
+              </label>
+              <p className="text-xs text-purple-200/60">
+                Cada PDF lleva un código (HM-XXXX-XXXX) bajo el pie y en la última hoja un QR que abre{" "}
+                <Link to="/verificar" className="underline">
+                  /verificar
+                </Link>
+                , donde se comprueba con el código o soltando el archivo.
+              </p>
+            </div>
+
+            <div className="rounded-lg border border-white/15 bg-black/20 p-4 space-y-2 text-sm">
+              <p className="font-semibold text-purple-200">Navegación</p>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={toc.outline}
+                  onChange={(e) => updateToc({ outline: e.target.checked })}
+                />
+                Marcadores del PDF (panel lateral del lector)
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={toc.contentsPage}
+                  onChange={(e) => updateToc({ contentsPage: e.target.checked })}
+                />
+                Página de índice tras la primera hoja (con números y enlaces)
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={toc.detectHeadings}
+                  onChange={(e) => updateToc({ detectHeadings: e.target.checked })}
+                />
+                Detectar títulos en texto sin <code>#</code> ("1.2 Objetivos", MAYÚSCULAS…)
+              </label>
+              <label className="flex items-center gap-2 text-xs text-purple-200/80">
+                Niveles
+                <select
+                  className="bg-white/20 rounded-md px-2 py-1"
+                  value={toc.maxLevel}
+                  onChange={(e) => updateToc({ maxLevel: Number(e.target.value) as TocOptions["maxLevel"] })}
+                >
+                  <option value={1}>Solo #</option>
+                  <option value={2}># y ##</option>
+                  <option value={3}>#, ## y ###</option>
+                </select>
+              </label>
+            </div>
+
+            <div className="space-y-2">
+              <button
+                type="button"
+                onClick={runPreflight}
+                disabled={!cleanTemplateBytes || preflightBusy || isLoading}
+                className="w-full py-2 rounded-lg border border-white/20 bg-white/10 hover:bg-white/15 disabled:opacity-50 text-sm"
+              >
+                {preflightBusy ? "Revisando..." : "Revisar antes de generar"}
+              </button>
+
+              {preflight && (
+                <ul className="space-y-1 text-xs">
+                  {preflight.map((issue, i) => {
+                    const color =
+                      issue.severity === "error"
+                        ? "text-red-300"
+                        : issue.severity === "warning"
+                          ? "text-amber-200"
+                          : "text-purple-200/80";
+                    const icon = issue.severity === "error" ? "✖" : issue.severity === "warning" ? "⚠" : "ℹ";
+                    const canLocate = !!issue.target || !!issue.field;
+                    return (
+                      <li key={i}>
+                        <button
+                          type="button"
+                          onClick={() => locateIssue(issue)}
+                          disabled={!canLocate}
+                          className={`w-full text-left px-2 py-1 rounded-md ${color} ${
+                            canLocate ? "hover:bg-white/10 cursor-pointer" : "cursor-default"
+                          }`}
+                        >
+                          {icon} {issue.message}
+                        </button>
+                      </li>
+                    );
+                  })}
+                  {preflight.every((x) => x.severity === "info") && (
+                    <li className="px-2 text-green-300">✔ Sin problemas detectados.</li>
+                  )}
+                </ul>
+              )}
+            </div>
+
             <button
               onClick={generatePdf}
               disabled={!cleanTemplateBytes || isLoading}
               className="w-full py-3 rounded-lg font-bold bg-purple-600 hover:bg-purple-700 disabled:bg-purple-900"
             >
-              {isLoading ? "Procesando..." : protectPdf ? "Generar PDF protegido" : "Generar PDF"}
+              {isLoading
+                ? "Procesando..."
+                : protectPdf && signOn
+                  ? "Generar PDF firmado y protegido"
+                  : protectPdf
+                    ? "Generar PDF protegido"
+                    : signOn
+                      ? "Generar PDF firmado"
+                      : "Generar PDF"}
             </button>
 
+            {job?.kind === "generate" && jobBox}
+
             {generatedPdfBytes && (
               <button
                 onClick={downloadPdf}
@@ -1310,6 +2796,55 @@ const Generador: React.FC = () => {
                 Descargar PDF
               </button>
             )}
+
+            {generatedOwnerPassword && (
+              <div className="rounded-lg border border-amber-200/40 bg-black/20 p-4 space-y-2 text-sm">
+                <p className="text-amber-200 font-semibold">Contraseña de propietario (generada al azar)</p>
+                <p className="font-mono break-all">{generatedOwnerPassword}</p>
+                <p className="text-xs text-purple-200/80">
+                  Es la que permite quitar las restricciones del PDF. No queda en el historial ni se
+                  puede recuperar: guárdala antes de cerrar este aviso.
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    onClick={copyOwnerPassword}
+                    className="px-3 py-1.5 rounded-md border border-white/20 bg-white/10 hover:bg-white/15 text-xs"
+                  >
+                    Copiar
+                  </button>
+                  <button
+                    onClick={downloadOwnerPassword}
+                    className="px-3 py-1.5 rounded-md border border-white/20 bg-white/10 hover:bg-white/15 text-xs"
+                  >
+                    Descargar .txt
+                  </button>
+                  <button
+                    onClick={() => setGeneratedOwnerPassword(null)}
+                    className="px-3 py-1.5 rounded-md border border-white/20 bg-white/10 hover:bg-white/15 text-xs"
+                  >
+                    Ya la guardé
+                  </button>
+                </div>
+              </div>
+            )}
+          </section>
+
+          {/* LOTE (COMBINACIÓN) */}
+          <section className="bg-white/10 p-6 rounded-xl border border-white/20 space-y-4">
+            <h2 className="text-xl font-bold text-purple-200">Lote desde CSV / XLSX</h2>
+            <MailMergePanel
+              title={title}
+              body={body}
+              fields={extraFields}
+              baseFieldValues={fieldValues}
+              baseVariables={variables}
+              extraTexts={extraTexts}
+              disabled={!cleanTemplateBytes}
+              render={renderIssued}
+              protect={protectPdf || signOn ? sealBatchFile : undefined}
+              onIssued={issueVerification}
+              onFinished={recordBatch}
+            />
           </section>
 
           {/* 4. HISTORIAL */}
@@ -1342,7 +2877,7 @@ const Generador: React.FC = () => {
                           {h.title}
                         </p>
                         <p className="text-xs text-purple-200/70 mt-1">
-                          {fmtDate(h.createdAt)} · {h.protected ? "Protegido ✅" : "Sin protección ❌"}
+                          {fmtDate(h.createdAt)} · {h.protection ? "Protegido ✅" : "Sin protección ❌"}
                           {h.templateName ? ` · ${h.templateName}` : ""}
                           {typeof h.pages === "number" ? ` · ${h.pages} pág.` : ""}
                         </p>
@@ -1394,7 +2929,7 @@ const Generador: React.FC = () => {
               <div className="flex items-center justify-between">
                 <span className="text-purple-200/80">Protección</span>
                 <span className="font-semibold">
-                  {summary.protected ? "Activa 🔒" : "Desactivada"}
+                  {summary.protected ? `Activa 🔒 (${summary.protected})` : "Desactivada"}
                 </span>
               </div>
 
@@ -1403,6 +2938,71 @@ const Generador: React.FC = () => {
                 <span className="font-semibold">{summary.pages ?? "—"}</span>
               </div>
 
+              {layoutReport && layoutReport.unsupportedChars.length > 0 && (
+                <div className="flex items-center justify-between">
+                  <span className="text-purple-200/80">Sin glifo (se vio “?”)</span>
+                  <span className="font-semibold text-amber-200">
+                    {layoutReport.unsupportedChars.slice(0, 8).join(" ")}
+                  </span>
+                </div>
+              )}
+
+              {layoutReport && layoutReport.missingImages.length > 0 && (
+                <div className="flex items-center justify-between">
+                  <span className="text-purple-200/80">Imágenes faltantes</span>
+                  <span className="font-semibold text-amber-200">
+                    {layoutReport.missingImages.length}
+                  </span>
+                </div>
+              )}
+
+              <div className="flex items-center justify-between">
+                <span className="text-purple-200/80">Firma digital</span>
+                <span className="font-semibold">
+                  {!signOn ? "Desactivada" : signIdentity ? `✍️ ${signIdentity.signer}` : "Falta el certificado"}
+                </span>
+              </div>
+
+              {issuedCode && (
+                <div className="flex items-center justify-between">
+                  <span className="text-purple-200/80">Verificación</span>
+                  <Link
+                    to={`/verificar?codigo=${encodeURIComponent(issuedCode)}`}
+                    className="font-semibold font-mono underline"
+                  >
+                    {issuedCode}
+                  </Link>
+                </div>
+              )}
+
+              <div className="flex items-center justify-between">
+                <span className="text-purple-200/80">Salida</span>
+                <span className="font-semibold">{OUTPUT_PROFILE_LABELS[outputProfile]}</span>
+              </div>
+
+              {layoutReport && layoutReport.archivalIssues.length > 0 && (
+                <div className="flex items-center justify-between">
+                  <span className="text-purple-200/80">Fuentes sin incrustar</span>
+                  <span className="font-semibold text-amber-200">{layoutReport.archivalIssues.length}</span>
+                </div>
+              )}
+
+              {layoutReport && (toc.outline || toc.contentsPage) && (
+                <div className="flex items-center justify-between">
+                  <span className="text-purple-200/80">Títulos en el índice</span>
+                  <span className="font-semibold">{layoutReport.headings.length}</span>
+                </div>
+              )}
+
+              {layoutReport && layoutReport.overflow.length > 0 && (
+                <div className="flex items-center justify-between">
+                  <span className="text-purple-200/80">Texto desbordado</span>
+                  <span className="font-semibold text-amber-200">
+                    {layoutReport.overflow.length} aviso(s)
+                  </span>
+                </div>
+              )}
+
               <div className="pt-3 border-t border-white/10">
                 <p className="text-xs text-purple-200/60">
                   Tip: si una plantilla trae “text title / text body”, el sistema intentará usar esas zonas.
@@ -1411,6 +3011,42 @@ const Generador: React.FC = () => {
             </div>
           </section>
 
+          <section className="bg-white/10 p-6 rounded-xl border border-white/20">
+            <h3 className="text-lg font-bold text-purple-200">Variables</h3>
+
+            <div className="mt-4 space-y-3 text-sm">
+              {placeholderNames.length === 0 ? (
+                <p className="text-xs text-purple-200/60">
+                  Escribe <code>{"{{nombre}}"}</code> en el título, el cuerpo o el pie y aparecerá
+                  aquí para darle valor.
+                </p>
+              ) : (
+                placeholderNames.map((name) => (
+                  <div key={name}>
+                    <label className="block text-xs text-purple-200/80 mb-1">{`{{${name}}}`}</label>
+                    <input
+                      className="w-full bg-white/20 rounded-md px-3 py-1.5"
+                      value={variables[name] ?? ""}
+                      onChange={(e) => setVariable(name, e.target.value)}
+                    />
+                  </div>
+                ))
+              )}
+
+              <div className="pt-3 border-t border-white/10 space-y-1">
+                <p className="text-xs text-purple-200/60">Integradas:</p>
+                {(Object.keys(BUILTIN_VARIABLES) as (keyof typeof BUILTIN_VARIABLES)[]).map((name) => (
+                  <div key={name} className="flex items-center justify-between gap-2 text-xs">
+                    <code title={BUILTIN_VARIABLES[name]}>{`{{${name}}}`}</code>
+                    <span className="text-purple-200/80 truncate">
+                      {builtinPreview[name] || "al generar"}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </section>
+
           <section className="bg-white/10 p-6 rounded-xl border border-white/20">
             <h3 className="text-lg font-bold text-purple-200">Acciones rápidas</h3>
 
@@ -1430,6 +3066,7 @@ const Generador: React.FC = () => {
                 onClick={() => {
                   setGeneratedPdfBytes(null);
                   setGeneratedPages(null);
+                  setLayoutReport(null);
                   setSuccessMsg("Se limpió el PDF generado.");
                   setTimeout(() => setSuccessMsg(null), 1500);
                 }}
@@ -0,0 +1,124 @@
+import React, { useEffect, useRef, useState } from "react";
+
+/* ============================= */
+/* VISTA PREVIA EN VIVO          */
+/* ============================= */
+
+const THUMB_WIDTH = 150; // px en pantalla
+const MAX_THUMBS = 30;
+
+type Props = {
+  /** PDF ya maquetado (null mientras no hay nada que mostrar) */
+  bytes: Uint8Array | null;
+  /** Página (0-based) donde cae el párrafo del cursor */
+  activePage: number | null;
+  busy: boolean;
+  error: string | null;
+};
+
+/**
+ * Miniaturas de todas las páginas del documento generado, dibujadas con
+ * pdf.js. La página del párrafo donde está el cursor se resalta y se hace
+ * visible.
+ */
+const LivePreview: React.FC<Props> = ({ bytes, activePage, busy, error }) => {
+  const [thumbs, setThumbs] = useState<string[]>([]);
+  const [totalPages, setTotalPages] = useState(0);
+  const [renderError, setRenderError] = useState<string | null>(null);
+  const thumbRefs = useRef<(HTMLDivElement | null)[]>([]);
+
+  useEffect(() => {
+    if (!bytes) {
+      setThumbs([]);
+      setTotalPages(0);
+      return;
+    }
+    let cancelled = false;
+    const render = async () => {
+      let pdf: any = null;
+      try {
+        if (!window.pdfjsLib) throw new Error("pdf.js no está listo");
+        // pdf.js puede quedarse con el buffer: se le pasa una copia
+        pdf = await window.pdfjsLib.getDocument({ data: bytes.slice() }).promise;
+        const out: string[] = [];
+        for (let i = 1; i <= Math.min(pdf.numPages, MAX_THUMBS); i++) {
+          const page = await pdf.getPage(i);
+          const base = page.getViewport({ scale: 1 });
+          const viewport = page.getViewport({ scale: THUMB_WIDTH / base.width });
+          const canvas = document.createElement("canvas");
+          const ctx = canvas.getContext("2d");
+          if (!ctx) throw new Error("No se pudo crear canvas");
+          canvas.width = viewport.width;
+          canvas.height = viewport.height;
+          await page.render({ canvasContext: ctx, viewport }).promise;
+          if (cancelled) return;
+          out.push(canvas.toDataURL("image/png"));
+        }
+        if (cancelled) return;
+        setThumbs(out);
+        setTotalPages(pdf.numPages);
+        setRenderError(null);
+      } catch (e: any) {
+        if (!cancelled) setRenderError("No se pudo dibujar la vista previa: " + (e?.message || e));
+      } finally {
+        pdf?.destroy();
+      }
+    };
+    render();
+    return () => {
+      cancelled = true;
+    };
+  }, [bytes]);
+
+  useEffect(() => {
+    if (activePage === null) return;
+    thumbRefs.current[activePage]?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }, [activePage, thumbs]);
+
+  const shownError = error || renderError;
+
+  return (
+    <div className="rounded-lg border border-white/15 bg-black/20 p-3 space-y-2">
+      <div className="flex items-center justify-between text-xs">
+        <span className="font-semibold text-purple-200">Vista previa</span>
+        <span className="text-purple-200/60">
+          {busy ? "Actualizando…" : totalPages ? `${totalPages} pág.` : "—"}
+        </span>
+      </div>
+
+      {shownError && <p className="text-xs text-red-300">{shownError}</p>}
+
+      <div className="max-h-[520px] overflow-y-auto space-y-3 pr-1">
+        {thumbs.length === 0 && !shownError && (
+          <p className="text-xs text-purple-200/60">Escribe algo para ver cómo queda.</p>
+        )}
+        {thumbs.map((src, i) => (
+          <div
+            key={i}
+            ref={(el) => (thumbRefs.current[i] = el)}
+            className={`rounded-md p-1 transition-opacity ${
+              i === activePage ? "ring-2 ring-purple-400 bg-purple-500/20" : "bg-white/5"
+            } ${busy ? "opacity-60" : ""}`}
+          >
+            <img src={src} alt={`Página ${i + 1}`} className="w-full bg-white rounded-sm" />
+            <p
+              className={`mt-1 text-center text-[11px] ${
+                i === activePage ? "text-purple-100 font-semibold" : "text-purple-200/60"
+              }`}
+            >
+              {i + 1}
+              {i === activePage && " · cursor"}
+            </p>
+          </div>
+        ))}
+        {totalPages > thumbs.length && (
+          <p className="text-xs text-purple-200/60 text-center">
+            + {totalPages - thumbs.length} página(s) más
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LivePreview;
@@ -0,0 +1,419 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { FieldValue, FormFieldInfo } from "./formFields";
+import {
+  DataTable,
+  DEFAULT_FILENAME_PATTERN,
+  fileNameFor,
+  guessMapping,
+  MergeMapping,
+  MergeRowResult,
+  readDataFile,
+  reportToCsv,
+  rowValues,
+} from "./mailMerge";
+import { RenderContent, RenderResult, RUNNING_VARIABLES } from "./renderDocument";
+import { fillPlaceholders, findPlaceholders, isBuiltinVariable } from "./templateVars";
+
+/* ============================= */
+/* GENERACIÓN POR LOTES          */
+/* ============================= */
+
+const PREVIEW_ROWS = 3;
+
+type Props = {
+  title: string;
+  body: string;
+  /** Campos del formulario que no son título ni cuerpo */
+  fields: FormFieldInfo[];
+  /** Valores puestos a mano; la columna mapeada manda sobre ellos */
+  baseFieldValues: Record<string, FieldValue>;
+  /** Lo mismo para las {{variables}} del panel */
+  baseVariables: Record<string, string>;
+  /** Otros textos con marcadores: pie, cabecera, marca de agua… */
+  extraTexts?: string[];
+  disabled?: boolean;
+  /** Maqueta resolviendo las variables (también las integradas) */
+  render: (
+    content: RenderContent,
+    fieldValues: Record<string, FieldValue>,
+    variables: Record<string, string>
+  ) => Promise<
+    RenderResult & {
+      missingVariables: string[];
+      documentId: string;
+      watermarkText: string | null;
+      verification: { code: string; contentHash: string } | null;
+    }
+  >;
+  /** Si se indica, cada PDF pasa por aquí antes de entrar al ZIP (firma y protección) */
+  protect?: (bytes: Uint8Array, fileName: string) => Promise<{ bytes: Uint8Array; ownerPassword?: string }>;
+  /** Registra el código de verificación de cada PDF ya terminado */
+  onIssued?: (
+    bytes: Uint8Array,
+    doc: { documentId: string; title: string },
+    verification: { code: string; contentHash: string }
+  ) => Promise<unknown>;
+  /** Al terminar el lote (para dejarlo en el historial) */
+  onFinished?: (results: MergeRowResult[], dataFileName: string) => void;
+};
+
+// Valor por defecto estable: un [] nuevo en cada render rehace los marcadores y el emparejamiento
+const NO_EXTRA_TEXTS: string[] = [];
+
+const short = (s: string, n: number) => (s.length > n ? s.slice(0, n - 1) + "…" : s);
+
+/**
+ * Combinación de correspondencia: un CSV/XLSX por filas, cada columna a un
+ * {{marcador}} del título/cuerpo o a un campo de la plantilla, y un PDF por
+ * fila dentro de un ZIP (con informe.csv por fila).
+ */
+const MailMergePanel: React.FC<Props> = ({
+  title,
+  body,
+  fields,
+  baseFieldValues,
+  baseVariables,
+  extraTexts = NO_EXTRA_TEXTS,
+  disabled,
+  render,
+  protect,
+  onIssued,
+  onFinished,
+}) => {
+  const [table, setTable] = useState<DataTable | null>(null);
+  const [dataFileName, setDataFileName] = useState("");
+  const [mapping, setMapping] = useState<MergeMapping>({ placeholders: {}, fields: {} });
+  const [pattern, setPattern] = useState(DEFAULT_FILENAME_PATTERN);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [results, setResults] = useState<MergeRowResult[] | null>(null);
+  const [zipBlob, setZipBlob] = useState<Blob | null>(null);
+
+  const placeholders = useMemo(
+    () =>
+      findPlaceholders(title, body, ...extraTexts).filter(
+        // las de cabecera/pie ({{pagina}}…) las pone el motor en cada hoja
+        (n) => !isBuiltinVariable(n) && !(RUNNING_VARIABLES as readonly string[]).includes(n)
+      ),
+    [title, body, extraTexts]
+  );
+
+  // Marcadores o campos nuevos: se intenta emparejarlos sin pisar lo ya elegido
+  useEffect(() => {
+    if (!table) return;
+    const guess = guessMapping(table.columns, placeholders, fields);
+    setMapping((prev) => ({
+      placeholders: Object.fromEntries(
+        placeholders.map((p) => [p, prev.placeholders[p] ?? guess.placeholders[p]])
+      ),
+      fields: Object.fromEntries(fields.map((f) => [f.name, prev.fields[f.name] ?? guess.fields[f.name]])),
+    }));
+  }, [table, placeholders, fields]);
+
+  const handleDataFile = async (ev: React.ChangeEvent<HTMLInputElement>) => {
+    const file = ev.target.files?.[0];
+    if (!file) return;
+    setError(null);
+    setResults(null);
+    setZipBlob(null);
+    try {
+      const t = await readDataFile(file);
+      if (t.rows.length === 0) throw new Error("el archivo no tiene filas de datos");
+      setMapping({ placeholders: {}, fields: {} });
+      setTable(t);
+      setDataFileName(file.name);
+    } catch (e: any) {
+      setTable(null);
+      setError("No se pudo leer el archivo: " + (e?.message || e));
+    } finally {
+      ev.target.value = "";
+    }
+  };
+
+  const resolveRow = useCallback(
+    (row: Record<string, string>) => {
+      const values = rowValues(row, mapping, fields);
+      const variables = { ...baseVariables, ...values.placeholders };
+      // en la vista previa las integradas (fecha, id…) se ven como marcador
+      const t = fillPlaceholders(title, variables);
+      const b = fillPlaceholders(body, variables);
+      return {
+        title: t.text,
+        body: b.text,
+        variables,
+        fieldValues: { ...baseFieldValues, ...values.fieldValues },
+        missing: Array.from(new Set([...t.missing, ...b.missing])).filter((n) => !isBuiltinVariable(n)),
+      };
+    },
+    [mapping, fields, baseVariables, baseFieldValues, title, body]
+  );
+
+  const preview = useMemo(() => {
+    if (!table) return [];
+    const used = new Set<string>();
+    return table.rows.slice(0, PREVIEW_ROWS).map((row, i) => ({
+      ...resolveRow(row),
+      fileName: fileNameFor(pattern, row, i + 1, used),
+    }));
+  }, [table, pattern, resolveRow]);
+
+  const generateBatch = async () => {
+    if (!table) return;
+    const JSZip = window.JSZip;
+    if (!JSZip) {
+      setError("JSZip no cargado");
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+    setResults(null);
+    setZipBlob(null);
+    setProgress({ done: 0, total: table.rows.length });
+
+    const zip = new JSZip();
+    const used = new Set<string>();
+    const out: MergeRowResult[] = [];
+
+    for (let i = 0; i < table.rows.length; i++) {
+      const row = table.rows[i];
+      const fileName = fileNameFor(pattern, row, i + 1, used);
+      const resolved = resolveRow(row);
+      const warnings: string[] = [];
+      try {
+        const { bytes, report, missingVariables, documentId, watermarkText, verification } = await render(
+          { title, body },
+          resolved.fieldValues,
+          resolved.variables
+        );
+        warnings.push(...missingVariables.map((m) => `Sin valor: {{${m}}}`));
+        if (report.overflow.length) warnings.push(`Texto recortado o partido (${report.overflow.length})`);
+        if (report.unsupportedChars.length) {
+          warnings.push(`Caracteres sin glifo: ${report.unsupportedChars.join(" ")}`);
+        }
+        if (report.missingImages.length) warnings.push(`Imágenes no encontradas: ${report.missingImages.join(", ")}`);
+        const sealed = protect ? await protect(bytes, fileName) : { bytes };
+        const finalBytes = sealed.bytes;
+        zip.file(fileName, finalBytes);
+        if (verification && onIssued) {
+          await onIssued(finalBytes, { documentId, title: resolved.title.trim() || "Sin título" }, verification);
+        }
+        out.push({
+          row: i + 1,
+          fileName,
+          ok: true,
+          pages: report.pages,
+          documentId,
+          ...(watermarkText !== null && { watermark: watermarkText }),
+          verificationCode: verification?.code,
+          ownerPassword: sealed.ownerPassword,
+          warnings,
+        });
+      } catch (e: any) {
+        out.push({ row: i + 1, fileName, ok: false, error: String(e?.message || e), warnings });
+      }
+      setProgress({ done: i + 1, total: table.rows.length });
+      // deja respirar a la interfaz entre fila y fila
+      await new Promise((r) => setTimeout(r, 0));
+    }
+
+    zip.file("informe.csv", reportToCsv(out));
+    try {
+      setZipBlob(await zip.generateAsync({ type: "blob" }));
+    } catch (e: any) {
+      setError("No se pudo crear el ZIP: " + (e?.message || e));
+    }
+    setResults(out);
+    setBusy(false);
+    onFinished?.(out, dataFileName);
+  };
+
+  const downloadZip = () => {
+    if (!zipBlob) return;
+    const a = document.createElement("a");
+    a.href = URL.createObjectURL(zipBlob);
+    a.download = (dataFileName.replace(/\.[^.]+$/, "") || "lote") + ".zip";
+    a.click();
+    URL.revokeObjectURL(a.href);
+  };
+
+  const columnSelect = (value: string, onChange: (col: string) => void) => (
+    <select
+      className="w-full bg-white/20 rounded-md px-2 py-1 text-sm"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+    >
+      <option value="">(sin columna)</option>
+      {table!.columns.map((c) => (
+        <option key={c} value={c}>
+          {c}
+        </option>
+      ))}
+    </select>
+  );
+
+  const failed = results?.filter((r) => !r.ok).length ?? 0;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-purple-200/80">
+        Escribe marcadores como <code>{"{{nombre}}"}</code> en el título o el cuerpo y sube un CSV
+        o XLSX con una fila por documento (la primera fila son los nombres de columna).
+      </p>
+
+      <label className="block text-sm">
+        Datos (CSV / XLSX)
+        <input
+          type="file"
+          accept=".csv,.txt,.xlsx,.xls"
+          onChange={handleDataFile}
+          disabled={busy}
+          className="block w-full text-sm mt-1"
+        />
+      </label>
+
+      {error && <p className="text-xs text-red-300">{error}</p>}
+
+      {table && (
+        <>
+          <p className="text-xs text-purple-200/80">
+            {dataFileName}: {table.rows.length} filas, {table.columns.length} columnas.
+          </p>
+
+          {placeholders.length === 0 && fields.length === 0 ? (
+            <p className="text-xs text-yellow-200">
+              No hay marcadores en el título ni en el cuerpo, ni campos de formulario que mapear.
+            </p>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {placeholders.map((p) => (
+                <div key={`p:${p}`}>
+                  <label className="block text-xs mb-1">{`{{${p}}}`}</label>
+                  {columnSelect(mapping.placeholders[p] ?? "", (col) =>
+                    setMapping((m) => ({ ...m, placeholders: { ...m.placeholders, [p]: col } }))
+                  )}
+                </div>
+              ))}
+              {fields.map((f) => (
+                <div key={`f:${f.name}`}>
+                  <label className="block text-xs mb-1">Campo: {f.name}</label>
+                  {columnSelect(mapping.fields[f.name] ?? "", (col) =>
+                    setMapping((m) => ({ ...m, fields: { ...m.fields, [f.name]: col } }))
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <label className="block text-sm">
+            Nombre de cada PDF
+            <input
+              className="w-full bg-white/20 rounded-md px-3 py-2 mt-1"
+              value={pattern}
+              onChange={(e) => setPattern(e.target.value)}
+              placeholder={DEFAULT_FILENAME_PATTERN}
+            />
+            <span className="block text-xs text-purple-300 mt-1">
+              Usa <code>{"{{columna}}"}</code> y <code>{"{{n}}"}</code> (número de fila).
+            </span>
+          </label>
+
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold text-purple-200">
+              Vista previa ({Math.min(PREVIEW_ROWS, table.rows.length)} de {table.rows.length})
+            </h4>
+            {preview.map((p, i) => (
+              <div key={i} className="bg-black/30 rounded-md p-3 text-xs space-y-1">
+                <div className="text-purple-200">{p.fileName}</div>
+                <div className="font-semibold">{p.title || "Sin título"}</div>
+                <div className="text-purple-100/80">{short(p.body.replace(/\s+/g, " "), 200)}</div>
+                {fields.some((f) => mapping.fields[f.name]) && (
+                  <div className="text-purple-300">
+                    {fields
+                      .filter((f) => mapping.fields[f.name])
+                      .map((f) => `${f.name}: ${String(p.fieldValues[f.name] ?? "")}`)
+                      .join(" · ")}
+                  </div>
+                )}
+                {p.missing.length > 0 && (
+                  <div className="text-yellow-200">
+                    Sin valor: {p.missing.map((m) => `{{${m}}}`).join(", ")}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <button
+            type="button"
+            onClick={generateBatch}
+            disabled={disabled || busy}
+            className="w-full py-3 rounded-lg font-bold bg-purple-600 hover:bg-purple-700 disabled:bg-purple-900"
+          >
+            {busy
+              ? `Generando ${progress.done} / ${progress.total}...`
+              : `Generar ${table.rows.length} PDF (ZIP)`}
+          </button>
+        </>
+      )}
+
+      {results && (
+        <div className="space-y-2">
+          <p className="text-sm">
+            {results.length - failed} generados
+            {failed > 0 && <span className="text-red-300">, {failed} con error</span>}.
+          </p>
+          {zipBlob && (
+            <button
+              type="button"
+              onClick={downloadZip}
+              className="w-full py-3 rounded-lg bg-purple-800 hover:bg-purple-900"
+            >
+              Descargar ZIP
+            </button>
+          )}
+          {results.some((r) => r.ownerPassword) && (
+            <p className="text-xs text-amber-200">
+              ⚠ informe.csv lleva la contraseña de propietario que se sacó al azar para cada PDF: es la única copia,
+              guárdalo en un lugar seguro.
+            </p>
+          )}
+          <div className="max-h-64 overflow-auto">
+            <table className="w-full text-xs">
+              <thead className="text-purple-200">
+                <tr>
+                  <th className="text-left p-1">Fila</th>
+                  <th className="text-left p-1">Archivo</th>
+                  <th className="text-left p-1">Estado</th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.map((r) => (
+                  <tr key={r.row} className="border-t border-white/10 align-top">
+                    <td className="p-1">{r.row}</td>
+                    <td className="p-1">{r.fileName}</td>
+                    <td className="p-1">
+                      {r.ok ? (
+                        <span className="text-green-300">OK ({r.pages} pág.)</span>
+                      ) : (
+                        <span className="text-red-300">{r.error}</span>
+                      )}
+                      {r.warnings.map((w, i) => (
+                        <div key={i} className="text-yellow-200">
+                          {w}
+                        </div>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MailMergePanel;
@@ -0,0 +1,301 @@
+import React, { useEffect, useRef, useState } from "react";
+import { FieldRect, REGION_KINDS, RegionKind, TemplateRegions } from "./renderDocument";
+
+/* ============================= */
+/* EDITOR VISUAL DE REGIONES     */
+/* ============================= */
+
+const REGION_LABELS: Record<RegionKind, string> = {
+  title: "Título",
+  body: "Cuerpo",
+  continuationBody: "Cuerpo (continuación)",
+  footer: "Pie",
+  pageNumber: "Nº de página",
+  signature: "Firma",
+};
+
+const REGION_COLORS: Record<RegionKind, string> = {
+  title: "#a855f7",
+  body: "#22c55e",
+  continuationBody: "#14b8a6",
+  footer: "#f59e0b",
+  pageNumber: "#ef4444",
+  signature: "#3b82f6",
+};
+
+const VIEW_WIDTH = 480; // px en pantalla
+const MIN_SIZE = 8; // pt
+
+type Props = {
+  templateBytes: Uint8Array;
+  pageCount: number;
+  regions: TemplateRegions;
+  onChange: (regions: TemplateRegions) => void;
+};
+
+type Drag = {
+  kind: RegionKind;
+  mode: "draw" | "move" | "resize";
+  startX: number; // px
+  startY: number; // px
+  origin: FieldRect; // pt
+};
+
+const round = (r: FieldRect): FieldRect => ({
+  x: Math.round(r.x),
+  y: Math.round(r.y),
+  width: Math.round(r.width),
+  height: Math.round(r.height),
+});
+
+/**
+ * Muestra una página de la plantilla (pdf.js) y deja dibujar, mover y
+ * redimensionar las regiones de título, cuerpo, pie y número de página.
+ * Las coordenadas se guardan en puntos PDF (origen abajo a la izquierda),
+ * igual que los rectángulos de los campos AcroForm.
+ */
+const RegionEditor: React.FC<Props> = ({ templateBytes, pageCount, regions, onChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const drag = useRef<Drag | null>(null);
+
+  const [pageIndex, setPageIndex] = useState(0);
+  const [pageSize, setPageSize] = useState<{ width: number; height: number } | null>(null);
+  const [active, setActive] = useState<RegionKind>("title");
+  const [draft, setDraft] = useState<TemplateRegions>(regions);
+  const [error, setError] = useState<string | null>(null);
+
+  const draftRef = useRef(draft);
+  draftRef.current = draft;
+
+  useEffect(() => {
+    setDraft(regions);
+  }, [regions]);
+
+  useEffect(() => {
+    if (pageIndex >= pageCount) setPageIndex(0);
+  }, [pageCount, pageIndex]);
+
+  // Renderiza la página elegida
+  useEffect(() => {
+    let cancelled = false;
+    const render = async () => {
+      try {
+        if (!window.pdfjsLib) throw new Error("pdf.js no está listo");
+        // pdf.js puede quedarse con el buffer: se le pasa una copia
+        const pdf = await window.pdfjsLib.getDocument({ data: templateBytes.slice() }).promise;
+        const page = await pdf.getPage(Math.min(pageIndex, pdf.numPages - 1) + 1);
+        const base = page.getViewport({ scale: 1 });
+        const viewport = page.getViewport({ scale: VIEW_WIDTH / base.width });
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext("2d");
+        if (!canvas || !ctx || cancelled) return;
+        canvas.width = viewport.width;
+        canvas.height = viewport.height;
+        await page.render({ canvasContext: ctx, viewport }).promise;
+        if (!cancelled) {
+          setPageSize({ width: base.width, height: base.height });
+          setError(null);
+        }
+      } catch (e: any) {
+        if (!cancelled) setError("No se pudo mostrar la plantilla: " + (e?.message || e));
+      }
+    };
+    render();
+    return () => {
+      cancelled = true;
+    };
+  }, [templateBytes, pageIndex]);
+
+  const scale = pageSize ? VIEW_WIDTH / pageSize.width : 1;
+
+  const toPx = (r: FieldRect) => ({
+    left: r.x * scale,
+    top: ((pageSize?.height ?? 0) - r.y - r.height) * scale,
+    width: r.width * scale,
+    height: r.height * scale,
+  });
+
+  const localPoint = (e: React.PointerEvent) => {
+    const box = overlayRef.current!.getBoundingClientRect();
+    return { x: e.clientX - box.left, y: e.clientY - box.top };
+  };
+
+  const clampToPage = (r: FieldRect): FieldRect => {
+    if (!pageSize) return r;
+    const width = Math.min(r.width, pageSize.width);
+    const height = Math.min(r.height, pageSize.height);
+    return {
+      x: Math.min(Math.max(0, r.x), pageSize.width - width),
+      y: Math.min(Math.max(0, r.y), pageSize.height - height),
+      width,
+      height,
+    };
+  };
+
+  const startDrag = (e: React.PointerEvent, kind: RegionKind, mode: Drag["mode"]) => {
+    if (!pageSize) return;
+    e.stopPropagation();
+    const p = localPoint(e);
+    const origin =
+      mode === "draw"
+        ? { x: p.x / scale, y: pageSize.height - p.y / scale, width: 0, height: 0 }
+        : draftRef.current[kind]!;
+    drag.current = { kind, mode, startX: p.x, startY: p.y, origin };
+    setActive(kind);
+    overlayRef.current?.setPointerCapture(e.pointerId);
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    const d = drag.current;
+    if (!d || !pageSize) return;
+    const p = localPoint(e);
+    const dx = (p.x - d.startX) / scale;
+    const dy = -(p.y - d.startY) / scale; // en PDF la y crece hacia arriba
+    const o = d.origin;
+
+    let next: FieldRect;
+    if (d.mode === "draw") {
+      next = {
+        x: Math.min(o.x, o.x + dx),
+        y: Math.min(o.y, o.y + dy),
+        width: Math.abs(dx),
+        height: Math.abs(dy),
+      };
+    } else if (d.mode === "move") {
+      next = { ...o, x: o.x + dx, y: o.y + dy };
+    } else {
+      // asa inferior derecha: el borde superior y el izquierdo quedan fijos
+      const bottom = Math.min(o.y + dy, o.y + o.height - MIN_SIZE);
+      next = {
+        x: o.x,
+        y: bottom,
+        width: Math.max(MIN_SIZE, o.width + dx),
+        height: o.y + o.height - bottom,
+      };
+    }
+    setDraft((prev) => ({ ...prev, [d.kind]: clampToPage(next) }));
+  };
+
+  const onPointerUp = (e: React.PointerEvent) => {
+    const d = drag.current;
+    if (!d) return;
+    drag.current = null;
+    overlayRef.current?.releasePointerCapture(e.pointerId);
+
+    const rect = draftRef.current[d.kind];
+    const next = { ...draftRef.current };
+    // un clic sin arrastrar no crea una región diminuta
+    if (d.mode === "draw" && (!rect || rect.width < MIN_SIZE || rect.height < MIN_SIZE)) {
+      next[d.kind] = regions[d.kind] ?? null;
+    } else if (rect) {
+      next[d.kind] = round(rect);
+    }
+    setDraft(next);
+    onChange(next);
+  };
+
+  const removeActive = () => {
+    const next = { ...draft, [active]: null };
+    setDraft(next);
+    onChange(next);
+  };
+
+  const activeRect = draft[active];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {REGION_KINDS.map((kind) => (
+          <button
+            key={kind}
+            type="button"
+            onClick={() => setActive(kind)}
+            className={`text-xs px-3 py-1 rounded-full border ${
+              active === kind ? "bg-white/20 border-white/60" : "bg-black/30 border-white/10"
+            }`}
+            style={{ color: REGION_COLORS[kind] }}
+          >
+            {draft[kind] ? "■" : "□"} {REGION_LABELS[kind]}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-xs text-purple-200/80">
+        {pageCount > 1 && (
+          <label className="inline-flex items-center gap-2">
+            Ver página
+            <select
+              className="bg-white/20 rounded-md px-2 py-1"
+              value={pageIndex}
+              onChange={(e) => setPageIndex(Number(e.target.value))}
+            >
+              {Array.from({ length: pageCount }, (_, i) => (
+                <option key={i} value={i}>
+                  {i + 1}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        <span>
+          {activeRect
+            ? `${REGION_LABELS[active]}: x ${activeRect.x}, y ${activeRect.y}, ${activeRect.width} × ${activeRect.height} pt`
+            : `Arrastra sobre la página para dibujar "${REGION_LABELS[active]}".`}
+        </span>
+        {activeRect && (
+          <button type="button" onClick={removeActive} className="text-red-200 hover:text-red-100">
+            Quitar región
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-red-300">{error}</p>}
+
+      <div className="relative inline-block border border-white/20 select-none" style={{ width: VIEW_WIDTH }}>
+        <canvas ref={canvasRef} className="block" style={{ width: VIEW_WIDTH }} />
+        <div
+          ref={overlayRef}
+          className="absolute inset-0 cursor-crosshair"
+          style={{ touchAction: "none" }}
+          onPointerDown={(e) => startDrag(e, active, "draw")}
+          onPointerMove={onPointerMove}
+          onPointerUp={onPointerUp}
+        >
+          {pageSize &&
+            REGION_KINDS.map((kind) => {
+              const r = draft[kind];
+              if (!r) return null;
+              const color = REGION_COLORS[kind];
+              return (
+                <div
+                  key={kind}
+                  className="absolute cursor-move"
+                  style={{
+                    ...toPx(r),
+                    border: `2px ${active === kind ? "solid" : "dashed"} ${color}`,
+                    background: `${color}22`,
+                  }}
+                  onPointerDown={(e) => startDrag(e, kind, "move")}
+                >
+                  <span
+                    className="absolute left-0 top-0 text-[10px] px-1 text-white"
+                    style={{ background: color }}
+                  >
+                    {REGION_LABELS[kind]}
+                  </span>
+                  <span
+                    className="absolute -right-1.5 -bottom-1.5 w-3 h-3 cursor-nwse-resize"
+                    style={{ background: color }}
+                    onPointerDown={(e) => startDrag(e, kind, "resize")}
+                  />
+                </div>
+              );
+            })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RegionEditor;
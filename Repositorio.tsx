@@ -1,18 +1,8 @@
 import React, { useEffect, useMemo, useState } from "react";
 import { Link, useNavigate, useLocation } from "react-router-dom";
-
-type HistoryItem = {
-  id: string;
-  title: string;
-  bodyPreview: string;
-  bodyFull: string;
-  protected: boolean;
-  templateName: string | null;
-  createdAt: string;
-  pages?: number;
-};
-
-const HISTORY_KEY = "hm_pdf_history_v1";
+import { HISTORY_KEY, HistoryItem, loadHistory } from "./history";
+import { APPEARANCE_LABELS } from "./pdfSign";
+import { describeProtection } from "./protection";
 
 const fmtDate = (iso: string) => {
   try {
@@ -42,16 +32,6 @@ const downloadJson = (filename: string, data: any) => {
   URL.revokeObjectURL(a.href);
 };
 
-function safeLoadHistory(): HistoryItem[] {
-  try {
-    const raw = localStorage.getItem(HISTORY_KEY);
-    const parsed = raw ? JSON.parse(raw) : [];
-    return Array.isArray(parsed) ? parsed : [];
-  } catch {
-    return [];
-  }
-}
-
 const Repositorio: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
@@ -64,13 +44,13 @@ const Repositorio: React.FC = () => {
 
   // ✅ Carga SIEMPRE que entras a /Repositorio
   useEffect(() => {
-    setItems(safeLoadHistory());
+    setItems(loadHistory());
   }, [location.pathname]);
 
   // ✅ Se actualiza si el localStorage cambia (otra pestaña o mismo navegador)
   useEffect(() => {
     const onStorage = (e: StorageEvent) => {
-      if (e.key === HISTORY_KEY) setItems(safeLoadHistory());
+      if (e.key === HISTORY_KEY) setItems(loadHistory());
     };
     window.addEventListener("storage", onStorage);
     return () => window.removeEventListener("storage", onStorage);
@@ -86,8 +66,8 @@ const Repositorio: React.FC = () => {
     const q = query.trim().toLowerCase();
 
     return items.filter((it) => {
-      if (onlyProtected === "yes" && !it.protected) return false;
-      if (onlyProtected === "no" && it.protected) return false;
+      if (onlyProtected === "yes" && !it.protection) return false;
+      if (onlyProtected === "no" && it.protection) return false;
 
       if (templateFilter !== "all" && (it.templateName || "") !== templateFilter) return false;
 
@@ -99,6 +79,14 @@ const Repositorio: React.FC = () => {
         " " +
         (it.templateName || "") +
         " " +
+        (it.watermark?.stamped || "") +
+        " " +
+        (it.batch?.files.map((f) => `${f.fileName} ${f.watermark || ""} ${f.verificationCode || ""}`).join(" ") || "") +
+        " " +
+        (it.verification?.code || "") +
+        " " +
+        (it.signature?.signer || "") +
+        " " +
         (it.createdAt || "");
       return haystack.toLowerCase().includes(q);
     });
@@ -106,7 +94,7 @@ const Repositorio: React.FC = () => {
 
   const stats = useMemo(() => {
     const total = items.length;
-    const prot = items.filter((i) => i.protected).length;
+    const prot = items.filter((i) => i.protection).length;
     const sin = total - prot;
     return { total, prot, sin };
   }, [items]);
@@ -132,9 +120,29 @@ const Repositorio: React.FC = () => {
     const txt =
       `${it.title}\n\n` +
       `Fecha: ${fmtDate(it.createdAt)}\n` +
-      `Protección: ${it.protected ? "Sí" : "No"}\n` +
+      `Protección: ${it.protection ? describeProtection(it.protection) : "No"}\n` +
       `Plantilla: ${it.templateName || "—"}\n` +
       `Páginas: ${typeof it.pages === "number" ? it.pages : "—"}\n` +
+      `Salida: ${it.outputProfile === "archival" ? "Archivo (PDF/A)" : "Estándar"}\n` +
+      (it.watermark ? `Marca de agua: ${it.watermark.stamped}\n` : "") +
+      (it.batch
+        ? `Lote: ${it.batch.files.length} PDF de ${it.batch.dataFile}\n` +
+          it.batch.files
+            .map(
+              (f) =>
+                `  Fila ${f.row}: ${f.fileName}` +
+                (f.watermark ? ` · marca de agua: ${f.watermark}` : "") +
+                (f.verificationCode ? ` · código: ${f.verificationCode}` : "") +
+                "\n"
+            )
+            .join("")
+        : "") +
+      (it.verification
+        ? `Código de verificación: ${it.verification.code}\n` +
+          `SHA-256 del contenido: ${it.verification.contentHash}\n` +
+          `SHA-256 del archivo: ${it.verification.fileHash}\n`
+        : "") +
+      (it.signature ? `Firma digital: ${it.signature.signer} (emitido por ${it.signature.issuer})\n` : "") +
       `\n========================\n\n` +
       (it.bodyFull || "");
 
@@ -246,13 +254,51 @@ const Repositorio: React.FC = () => {
                   <div className="flex items-center gap-2">
                     <p className="font-semibold text-purple-100 truncate">{it.title || "Sin título"}</p>
                     <span className="text-xs px-2 py-0.5 rounded-full bg-black/30 border border-white/10">
-                      {it.protected ? "Protegido 🔒" : "Sin protección"}
+                      {it.protection ? "Protegido 🔒" : "Sin protección"}
                     </span>
                     {typeof it.pages === "number" && (
                       <span className="text-xs px-2 py-0.5 rounded-full bg-black/30 border border-white/10">
                         {it.pages} pág.
                       </span>
                     )}
+                    {it.outputProfile === "archival" && (
+                      <span className="text-xs px-2 py-0.5 rounded-full bg-black/30 border border-white/10">
+                        PDF/A 🗄
+                      </span>
+                    )}
+                    {it.watermark && (
+                      <span
+                        className="text-xs px-2 py-0.5 rounded-full bg-black/30 border border-white/10"
+                        title={it.watermark.stamped}
+                      >
+                        Marca de agua 💧
+                      </span>
+                    )}
+                    {it.batch && (
+                      <span
+                        className="text-xs px-2 py-0.5 rounded-full bg-black/30 border border-white/10"
+                        title={it.batch.dataFile}
+                      >
+                        Lote de {it.batch.files.length} PDF 📦
+                      </span>
+                    )}
+                    {it.signature && (
+                      <span
+                        className="text-xs px-2 py-0.5 rounded-full bg-black/30 border border-white/10"
+                        title={`${it.signature.signer} · emitido por ${it.signature.issuer}`}
+                      >
+                        Firmado ✍️
+                      </span>
+                    )}
+                    {it.verification && (
+                      <Link
+                        to={`/verificar?codigo=${encodeURIComponent(it.verification.code)}`}
+                        className="text-xs px-2 py-0.5 rounded-full bg-black/30 border border-white/10 font-mono hover:bg-black/50"
+                        title="Abrir en la página de verificación"
+                      >
+                        {it.verification.code}
+                      </Link>
+                    )}
                   </div>
 
                   <p className="text-xs text-purple-200/70 mt-1">
@@ -305,10 +351,30 @@ const Repositorio: React.FC = () => {
               <div className="min-w-0">
                 <h2 className="text-xl font-bold text-purple-100">{selected.title}</h2>
                 <p className="text-xs text-purple-200/70 mt-1">
-                  {fmtDate(selected.createdAt)} · {selected.protected ? "Protegido 🔒" : "Sin protección"}
+                  {fmtDate(selected.createdAt)} ·{" "}
+                  {selected.protection ? `Protegido 🔒 (${describeProtection(selected.protection)})` : "Sin protección"}
                   {selected.templateName ? ` · ${selected.templateName}` : ""}
                   {typeof selected.pages === "number" ? ` · ${selected.pages} pág.` : ""}
+                  {selected.outputProfile === "archival" ? " · PDF/A" : ""}
                 </p>
+                {selected.watermark && (
+                  <p className="text-xs text-purple-200/70 mt-1">
+                    Marca de agua ({selected.watermark.placement === "diagonal" ? "diagonal" : "margen"},{" "}
+                    {Math.round(selected.watermark.opacity * 100)} %): {selected.watermark.stamped}
+                  </p>
+                )}
+                {selected.verification && (
+                  <p className="text-xs text-purple-200/70 mt-1 break-all">
+                    Verificación <span className="font-mono">{selected.verification.code}</span> · SHA-256 del
+                    archivo: <span className="font-mono">{selected.verification.fileHash}</span>
+                  </p>
+                )}
+                {selected.signature && (
+                  <p className="text-xs text-purple-200/70 mt-1">
+                    Firmado por {selected.signature.signer} (emitido por {selected.signature.issuer}) ·{" "}
+                    {APPEARANCE_LABELS[selected.signature.appearance]}
+                  </p>
+                )}
               </div>
 
               <button
@@ -323,6 +389,41 @@ const Repositorio: React.FC = () => {
               {selected.bodyFull || "(Sin cuerpo)"}
             </div>
 
+            {selected.batch && (
+              <div className="mt-3 max-h-48 overflow-auto rounded-xl border border-white/10">
+                <table className="w-full text-xs">
+                  <thead className="text-purple-200">
+                    <tr>
+                      <th className="text-left p-1">Fila</th>
+                      <th className="text-left p-1">Archivo</th>
+                      {selected.batch.watermark && <th className="text-left p-1">Marca de agua</th>}
+                      <th className="text-left p-1">Código</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {selected.batch.files.map((f) => (
+                      <tr key={f.documentId} className="border-t border-white/10 align-top">
+                        <td className="p-1">{f.row}</td>
+                        <td className="p-1">{f.fileName}</td>
+                        {selected.batch!.watermark && <td className="p-1">{f.watermark || "—"}</td>}
+                        <td className="p-1 font-mono">{f.verificationCode || "—"}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {selected.variables && Object.keys(selected.variables).length > 0 && (
+              <div className="mt-3 flex flex-wrap gap-2 text-xs">
+                {Object.entries(selected.variables).map(([k, v]) => (
+                  <span key={k} className="px-2 py-1 rounded-md bg-white/10 border border-white/10">
+                    {`{{${k}}}`} = {v || "—"}
+                  </span>
+                ))}
+              </div>
+            )}
+
             <div className="mt-4 flex flex-wrap gap-2 justify-end">
               <button
                 onClick={() => exportOneTxt(selected)}
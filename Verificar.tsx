@@ -0,0 +1,340 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { loadHistory } from "./history";
+import { checkSignatures, describeSignature, SignatureCheck } from "./pdfSign";
+import {
+  API_BASE,
+  loadVerifications,
+  lookupVerification,
+  normalizeCode,
+  readCodeFromPdf,
+  sha256Hex,
+  VerificationEntry,
+} from "./verification";
+
+const fmtDate = (iso: string) => {
+  try {
+    return new Date(iso).toLocaleString();
+  } catch {
+    return iso;
+  }
+};
+
+type Source = "local" | "server";
+
+type Outcome =
+  /** El archivo es idéntico al que se emitió */
+  | { kind: "authentic"; entry: VerificationEntry; source: Source }
+  /** Código escrito a mano: existe, pero el archivo no se comprobó */
+  | { kind: "known-code"; entry: VerificationEntry; source: Source }
+  /** El PDF lleva un código registrado, pero el archivo no es el emitido */
+  | { kind: "modified"; entry: VerificationEntry; source: Source; fileHash: string }
+  | { kind: "unknown"; reason: string; fileHash?: string };
+
+// Registro local (todos los emitidos en este navegador) más lo que quede en el historial
+const localEntries = (): VerificationEntry[] => [
+  ...loadVerifications(),
+  ...loadHistory().flatMap((it) =>
+    it.verification
+      ? [
+          {
+            ...it.verification,
+            documentId: it.id,
+            title: it.title,
+            templateName: it.templateName,
+            createdAt: it.createdAt,
+          },
+        ]
+      : []
+  ),
+];
+
+/* ============================= */
+/* VERIFICAR UN DOCUMENTO        */
+/* ============================= */
+
+const Verificar: React.FC = () => {
+  const [params] = useSearchParams();
+  const [codeInput, setCodeInput] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [outcome, setOutcome] = useState<Outcome | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [serverNote, setServerNote] = useState<string | null>(null);
+  const [dragging, setDragging] = useState(false);
+  // Firmas digitales del archivo soltado (null: no se soltó ninguno)
+  const [signatures, setSignatures] = useState<SignatureCheck[] | null>(null);
+
+  // Primero este navegador; si no está, el backend (la consulta no pide token)
+  const findEntry = useCallback(
+    async (query: { code: string } | { fileHash: string }): Promise<{ entry: VerificationEntry; source: Source } | null> => {
+      const local = localEntries().find((e) =>
+        "code" in query ? e.code === query.code : e.fileHash === query.fileHash
+      );
+      if (local) return { entry: local, source: "local" };
+      try {
+        const remote = await lookupVerification(API_BASE, query);
+        return remote && { entry: remote, source: "server" };
+      } catch (e: any) {
+        setServerNote(`No se pudo consultar el servidor (${e?.message || e}); solo se buscó en este navegador.`);
+        return null;
+      }
+    },
+    []
+  );
+
+  const checkCode = useCallback(
+    async (input: string) => {
+      setOutcome(null);
+      setServerNote(null);
+      setFileName("");
+      setSignatures(null);
+      const code = normalizeCode(input);
+      if (!code) {
+        setOutcome({ kind: "unknown", reason: "El código debe tener la forma HM-XXXX-XXXX." });
+        return;
+      }
+      setCodeInput(code);
+      setBusy(true);
+      try {
+        const found = await findEntry({ code });
+        setOutcome(
+          found
+            ? { kind: "known-code", ...found }
+            : { kind: "unknown", reason: `No hay ningún documento registrado con el código ${code}.` }
+        );
+      } finally {
+        setBusy(false);
+      }
+    },
+    [findEntry]
+  );
+
+  const checkFile = useCallback(
+    async (file: File) => {
+      setOutcome(null);
+      setServerNote(null);
+      setFileName(file.name);
+      setSignatures(null);
+      setBusy(true);
+      try {
+        const bytes = new Uint8Array(await file.arrayBuffer());
+        const fileHash = await sha256Hex(bytes);
+        // La firma se comprueba aparte: vale también para PDF que no se registraron
+        setSignatures(await checkSignatures(bytes).catch(() => []));
+
+        const exact = await findEntry({ fileHash });
+        if (exact) {
+          setCodeInput(exact.entry.code);
+          setOutcome({ kind: "authentic", ...exact });
+          return;
+        }
+
+        // No es un archivo emitido tal cual: ¿lleva un código conocido?
+        let code: string | null = null;
+        try {
+          code = await readCodeFromPdf(bytes);
+        } catch (e: any) {
+          const reason =
+            e?.name === "PasswordException"
+              ? "El PDF pide contraseña para abrirse, así que no se pudo leer su código, y el archivo no coincide con ningún documento emitido."
+              : `No se pudo leer el PDF (${e?.message || e}) y el archivo no coincide con ningún documento emitido.`;
+          setOutcome({ kind: "unknown", reason, fileHash });
+          return;
+        }
+        if (!code) {
+          setOutcome({
+            kind: "unknown",
+            reason: "El PDF no lleva código de verificación y no coincide con ningún documento emitido.",
+            fileHash,
+          });
+          return;
+        }
+
+        setCodeInput(code);
+        const byCode = await findEntry({ code });
+        setOutcome(
+          byCode
+            ? { kind: "modified", ...byCode, fileHash }
+            : { kind: "unknown", reason: `El PDF lleva el código ${code}, pero no está registrado.`, fileHash }
+        );
+      } catch (e: any) {
+        setOutcome({ kind: "unknown", reason: `No se pudo comprobar el archivo: ${e?.message || e}` });
+      } finally {
+        setBusy(false);
+      }
+    },
+    [findEntry]
+  );
+
+  // El QR del documento trae el código en la URL
+  useEffect(() => {
+    const code = params.get("codigo");
+    if (code) checkCode(code);
+  }, [params, checkCode]);
+
+  const onDrop = (ev: React.DragEvent) => {
+    ev.preventDefault();
+    setDragging(false);
+    const file = ev.dataTransfer.files?.[0];
+    if (file) checkFile(file);
+  };
+
+  const onPick = (ev: React.ChangeEvent<HTMLInputElement>) => {
+    const file = ev.target.files?.[0];
+    if (file) checkFile(file);
+    ev.target.value = "";
+  };
+
+  const verdict = (o: Outcome) => {
+    switch (o.kind) {
+      case "authentic":
+        return {
+          tone: "border-green-400/40 bg-green-900/30 text-green-100",
+          title: "Documento auténtico ✅",
+          text: "El archivo es idéntico al que se emitió: no se modificó.",
+        };
+      case "known-code":
+        return {
+          tone: "border-green-400/40 bg-green-900/30 text-green-100",
+          title: "Código válido ✅",
+          text: "El código corresponde a un documento emitido. Para comprobar que el archivo no se modificó, suéltalo aquí.",
+        };
+      case "modified":
+        return {
+          tone: "border-yellow-400/40 bg-yellow-900/30 text-yellow-100",
+          title: "El archivo no es el original ⚠️",
+          text: "El código es de un documento emitido, pero el archivo no coincide: pudo modificarse después (o se volvió a guardar o imprimir a PDF).",
+        };
+      default:
+        return {
+          tone: "border-red-400/40 bg-red-900/30 text-red-100",
+          title: "No verificado ❌",
+          text: o.reason,
+        };
+    }
+  };
+
+  return (
+    <div className="min-h-screen text-white p-6 bg-gradient-to-b from-[#110020] via-[#050014] to-black">
+      <header className="max-w-3xl mx-auto flex items-center justify-between gap-3">
+        <div>
+          <h1 className="text-3xl font-extrabold text-purple-100">Verificar documento</h1>
+          <p className="text-purple-300 text-sm mt-1">
+            Escribe el código que va al pie del PDF o suelta el archivo para comprobar que no se modificó.
+          </p>
+        </div>
+
+        <Link
+          to="/"
+          className="px-4 py-2 rounded-lg bg-white/10 hover:bg-white/15 border border-white/15 shrink-0"
+        >
+          ← Volver al inicio
+        </Link>
+      </header>
+
+      <main className="max-w-3xl mx-auto mt-6 space-y-4">
+        <form
+          className="rounded-xl border border-white/15 bg-white/10 p-4 flex flex-col sm:flex-row gap-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            checkCode(codeInput);
+          }}
+        >
+          <input
+            value={codeInput}
+            onChange={(e) => setCodeInput(e.target.value)}
+            placeholder="HM-XXXX-XXXX"
+            className="flex-1 bg-black/30 border border-white/15 rounded-lg px-3 py-2 outline-none font-mono uppercase"
+          />
+          <button
+            type="submit"
+            disabled={busy || !codeInput.trim()}
+            className="px-4 py-2 rounded-lg bg-purple-700 hover:bg-purple-800 font-semibold disabled:opacity-50"
+          >
+            Verificar código
+          </button>
+        </form>
+
+        <label
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragging(true);
+          }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={onDrop}
+          className={`block rounded-xl border-2 border-dashed p-8 text-center cursor-pointer transition ${
+            dragging ? "border-purple-300 bg-purple-900/30" : "border-white/20 bg-white/5 hover:bg-white/10"
+          }`}
+        >
+          <input type="file" accept="application/pdf,.pdf" className="hidden" onChange={onPick} />
+          <p className="text-purple-100 font-semibold">Suelta aquí el PDF o haz clic para elegirlo</p>
+          <p className="text-xs text-purple-200/70 mt-1">
+            El archivo no sale de tu equipo: solo se calcula su huella SHA-256.
+          </p>
+          {fileName && <p className="text-xs text-purple-200/90 mt-2">{fileName}</p>}
+        </label>
+
+        {busy && <p className="text-sm text-purple-200/80">Comprobando…</p>}
+
+        {outcome && (
+          <div className={`rounded-xl border p-4 ${verdict(outcome).tone}`}>
+            <p className="text-lg font-bold">{verdict(outcome).title}</p>
+            <p className="text-sm mt-1">{verdict(outcome).text}</p>
+
+            {outcome.kind !== "unknown" && (
+              <dl className="mt-4 grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+                <dt className="opacity-70">Título</dt>
+                <dd>{outcome.entry.title || "Sin título"}</dd>
+                <dt className="opacity-70">Plantilla</dt>
+                <dd>{outcome.entry.templateName || "—"}</dd>
+                <dt className="opacity-70">Creado</dt>
+                <dd>{fmtDate(outcome.entry.createdAt)}</dd>
+                <dt className="opacity-70">Código</dt>
+                <dd className="font-mono">{outcome.entry.code}</dd>
+                <dt className="opacity-70">SHA-256 del archivo</dt>
+                <dd className="font-mono break-all">{outcome.entry.fileHash}</dd>
+                {outcome.kind === "modified" && (
+                  <>
+                    <dt className="opacity-70">SHA-256 recibido</dt>
+                    <dd className="font-mono break-all">{outcome.fileHash}</dd>
+                  </>
+                )}
+                <dt className="opacity-70">Registro</dt>
+                <dd>{outcome.source === "local" ? "Este navegador" : "Servidor"}</dd>
+              </dl>
+            )}
+
+            {outcome.kind === "unknown" && outcome.fileHash && (
+              <p className="text-xs mt-3 font-mono break-all opacity-80">SHA-256 del archivo: {outcome.fileHash}</p>
+            )}
+          </div>
+        )}
+
+        {signatures && (
+          <div className="rounded-xl border border-white/15 bg-white/10 p-4 text-sm">
+            <p className="font-semibold text-purple-100">Firma digital</p>
+            {signatures.length === 0 ? (
+              <p className="text-purple-200/80 mt-1">El PDF no está firmado digitalmente.</p>
+            ) : (
+              <ul className="mt-1 space-y-1">
+                {signatures.map((sig, i) => (
+                  <li key={i} className={sig.intact && sig.coversWholeFile ? "text-green-200" : "text-yellow-200"}>
+                    {sig.intact && sig.coversWholeFile ? "✅" : "⚠️"} {describeSignature(sig)}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <p className="text-xs text-purple-200/60 mt-2">
+              Se comprueba que el archivo no cambió desde la firma y quién lo firmó; la confianza en quien emitió el
+              certificado la decide quien lo recibe.
+            </p>
+          </div>
+        )}
+
+        {serverNote && <p className="text-xs text-purple-200/70">{serverNote}</p>}
+      </main>
+    </div>
+  );
+};
+
+export default Verificar;
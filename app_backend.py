@@ -1,4 +1,4 @@
-from fastapi import FastAPI, UploadFile, File, Form, Header, HTTPException
+from fastapi import FastAPI, UploadFile, File, Form, Header, HTTPException, Body
 from fastapi.responses import StreamingResponse
 from fastapi.middleware.cors import CORSMiddleware
 from starlette.status import HTTP_401_UNAUTHORIZED, HTTP_404_NOT_FOUND
@@ -11,6 +11,8 @@ from PyPDF2 import PdfReader, PdfWriter
 
 from typing import Optional, List
 import io
+import json
+import re
 import textwrap
 import os
 import uuid
@@ -23,7 +25,8 @@ app = FastAPI(
     description=(
         "Backend simple para generar y proteger PDFs.\n"
         "- /generar-pdf: genera un PDF a partir de título y cuerpo.\n"
-        "- /proteger-pdf: recibe un PDF y devuelve versión protegida."
+        "- /proteger-pdf: recibe un PDF y devuelve versión protegida.\n"
+        "- /api/verificaciones: registro de documentos emitidos (código y huellas)."
     ),
 )
 
@@ -39,8 +42,11 @@ app.add_middleware(
 API_TOKEN = os.getenv("API_TOKEN", "").strip()
 TEMPLATES_DIR = Path(os.getenv("TEMPLATES_DIR", "templates"))
 MAX_TEMPLATE_MB = float(os.getenv("MAX_TEMPLATE_MB", "15"))
+MAX_LAYOUT_KB = 256
+VERIFICATIONS_DIR = Path(os.getenv("VERIFICATIONS_DIR", "verificaciones"))
 
 TEMPLATES_DIR.mkdir(parents=True, exist_ok=True)
+VERIFICATIONS_DIR.mkdir(parents=True, exist_ok=True)
 
 
 def auth_guard(authorization: Optional[str]) -> None:
@@ -70,6 +76,25 @@ def sanitize_name(name: str) -> str:
     return safe[:80] or "plantilla"
 
 
+def layout_path(tpl_id: str) -> Path:
+    return TEMPLATES_DIR / f"{tpl_id}.layout.json"
+
+
+def read_layout(tpl_id: str) -> Optional[dict]:
+    """
+    Perfil de maquetación guardado junto a la plantilla (campos, regiones,
+    tipografía...). El frontend lo valida; aquí solo se guarda como JSON.
+    """
+    path = layout_path(tpl_id)
+    if not path.exists():
+        return None
+    try:
+        with open(path, "r", encoding="utf-8") as f:
+            return json.load(f)
+    except (OSError, ValueError):
+        return None
+
+
 def list_template_files() -> List[dict]:
     items = []
     for file in TEMPLATES_DIR.glob("*.pdf"):
@@ -86,6 +111,7 @@ def list_template_files() -> List[dict]:
                 "size": stats.st_size,
                 "createdAt": datetime.fromtimestamp(stats.st_mtime, tz=timezone.utc).isoformat(),
                 "filename": file.name,
+                "layout": read_layout(tpl_id),
             }
         )
     # recientes primero
@@ -191,6 +217,49 @@ def mezclar_con_plantilla(contenido: bytes, plantilla: bytes) -> bytes:
     return out_buf.read()
 
 
+# =========================
+#   UTILIDAD: PERMISOS
+# =========================
+# Bits de /P (ISO 32000, tabla 22), contados desde 0
+PERMISO_IMPRIMIR = 1 << 2
+PERMISO_COPIAR = 1 << 4
+PERMISO_ANOTAR = 1 << 5
+PERMISO_RELLENAR = 1 << 8
+PERMISO_ACCESIBILIDAD = 1 << 9
+PERMISO_IMPRIMIR_ALTA = 1 << 11
+
+ALGORITMOS = {"rc4-128": "RC4-128", "aes-128": "AES-128", "aes-256": "AES-256"}
+
+
+def permisos_a_flag(permisos: Optional[str]) -> int:
+    """
+    Convierte el JSON de permisos del frontend
+    ({"imprimir": "none|low|high", "copiar", "rellenar_formularios", "anotar"})
+    en el entero de PyPDF2. Sin permisos, todo bloqueado (como antes).
+    """
+    if not permisos:
+        return 0b0000
+    try:
+        p = json.loads(permisos)
+    except ValueError:
+        raise HTTPException(status_code=400, detail="Permisos inválidos")
+    if not isinstance(p, dict):
+        raise HTTPException(status_code=400, detail="Permisos inválidos")
+
+    flag = PERMISO_ACCESIBILIDAD
+    if p.get("imprimir") in ("low", "high"):
+        flag |= PERMISO_IMPRIMIR
+    if p.get("imprimir") == "high":
+        flag |= PERMISO_IMPRIMIR_ALTA
+    if p.get("copiar"):
+        flag |= PERMISO_COPIAR
+    if p.get("anotar"):
+        flag |= PERMISO_ANOTAR
+    if p.get("rellenar_formularios"):
+        flag |= PERMISO_RELLENAR
+    return flag
+
+
 # =========================
 #       ENDPOINTS
 # =========================
@@ -266,10 +335,15 @@ async def generar_pdf(
 @app.post("/proteger-pdf")
 async def proteger_pdf(
     archivo: UploadFile = File(..., description="PDF ya generado que quieres proteger"),
+    password_usuario: str = Form("", description="Contraseña para abrir (vacía: se abre sin pedirla)"),
+    password_propietario: str = Form("", description="Contraseña de propietario"),
+    permisos: Optional[str] = Form(None, description="JSON con los permisos permitidos"),
+    cifrado: str = Form("", description="rc4-128 | aes-128 | aes-256"),
 ):
     """
     - Recibe un PDF (por ejemplo, el que generas en React con tu plantilla).
-    - Le aplica cifrado y bloquea impresión/copia.
+    - Lo cifra con las contraseñas y permisos indicados; sin ellos, bloquea
+      impresión/copia con la contraseña de propietario de siempre.
     - Devuelve el PDF protegido.
     """
     try:
@@ -280,13 +354,13 @@ async def proteger_pdf(
         for page in reader.pages:
             writer.add_page(page)
 
-        # Sin permisos: no imprimir, no copiar, etc.
-        permissions_flag = 0b0000
+        permissions_flag = permisos_a_flag(permisos)
 
         writer.encrypt(
-            "",
-            "HM2025!",           # contraseña de propietario
+            password_usuario,
+            password_propietario or "HM2025!",  # contraseña de propietario
             permissions_flag=permissions_flag,
+            algorithm=ALGORITMOS.get(cifrado),
         )
 
         out_buf = io.BytesIO()
@@ -305,6 +379,8 @@ async def proteger_pdf(
             },
         )
 
+    except HTTPException:
+        raise
     except Exception as e:
         msg = f"Internal Server Error: {type(e).__name__}: {e}"
         return StreamingResponse(
@@ -362,6 +438,29 @@ async def borrar_plantilla(tpl_id: str, authorization: Optional[str] = Header(No
     if not path or not path.exists():
         raise HTTPException(status_code=HTTP_404_NOT_FOUND, detail="No encontrada")
     path.unlink()
+    layout = layout_path(tpl_id)
+    if layout.exists():
+        layout.unlink()
+    return {"ok": True}
+
+
+@app.put("/api/templates/{tpl_id}/layout")
+async def guardar_layout(
+    tpl_id: str,
+    perfil: dict = Body(..., description="Perfil de maquetación (JSON)"),
+    authorization: Optional[str] = Header(None),
+):
+    auth_guard(authorization)
+    path = find_template_path(tpl_id)
+    if not path or not path.exists():
+        raise HTTPException(status_code=HTTP_404_NOT_FOUND, detail="No encontrada")
+
+    data = json.dumps(perfil, ensure_ascii=False)
+    if len(data.encode("utf-8")) > MAX_LAYOUT_KB * 1024:
+        raise HTTPException(status_code=413, detail=f"Límite {MAX_LAYOUT_KB} KB")
+
+    with open(layout_path(tpl_id), "w", encoding="utf-8") as f:
+        f.write(data)
     return {"ok": True}
 
 
@@ -433,3 +532,69 @@ async def generar_desde_api(
             media_type="text/plain",
             status_code=500,
         )
+
+
+# =========================
+#   API VERIFICACIONES
+# =========================
+
+CODIGO_RX = re.compile(r"^HM-[0-9A-Z]{4}-[0-9A-Z]{4}$")
+HUELLA_RX = re.compile(r"^[0-9a-f]{64}$")
+CAMPOS_VERIFICACION = ("codigo", "hashContenido", "hashArchivo", "documentoId", "titulo", "plantilla", "creado")
+
+
+def verificacion_path(codigo: str) -> Path:
+    return VERIFICATIONS_DIR / f"{codigo}.json"
+
+
+def leer_verificacion(path: Path) -> Optional[dict]:
+    try:
+        with open(path, "r", encoding="utf-8") as f:
+            return json.load(f)
+    except (OSError, ValueError):
+        return None
+
+
+@app.post("/api/verificaciones")
+async def registrar_verificacion(
+    registro: dict = Body(..., description="Código, huellas y datos del documento"),
+    authorization: Optional[str] = Header(None),
+):
+    """
+    Guarda lo necesario para verificar un documento emitido: nunca el PDF ni su texto.
+    """
+    auth_guard(authorization)
+
+    codigo = str(registro.get("codigo") or "")
+    if not CODIGO_RX.match(codigo):
+        raise HTTPException(status_code=400, detail="Código de verificación inválido")
+    for clave in ("hashContenido", "hashArchivo"):
+        if not HUELLA_RX.match(str(registro.get(clave) or "")):
+            raise HTTPException(status_code=400, detail=f"{clave} debe ser un SHA-256 en hexadecimal")
+
+    datos = {clave: registro.get(clave) for clave in CAMPOS_VERIFICACION}
+    datos["titulo"] = str(datos["titulo"] or "")[:300]
+    with open(verificacion_path(codigo), "w", encoding="utf-8") as f:
+        json.dump(datos, f, ensure_ascii=False)
+    return {"ok": True}
+
+
+# La consulta es pública: quien recibe el PDF no tiene token
+@app.get("/api/verificaciones/huella/{hash_archivo}")
+async def buscar_por_huella(hash_archivo: str):
+    hash_archivo = hash_archivo.lower()
+    if HUELLA_RX.match(hash_archivo):
+        for path in VERIFICATIONS_DIR.glob("*.json"):
+            datos = leer_verificacion(path)
+            if datos and datos.get("hashArchivo") == hash_archivo:
+                return datos
+    raise HTTPException(status_code=HTTP_404_NOT_FOUND, detail="No encontrado")
+
+
+@app.get("/api/verificaciones/{codigo}")
+async def buscar_por_codigo(codigo: str):
+    codigo = codigo.upper()
+    datos = leer_verificacion(verificacion_path(codigo)) if CODIGO_RX.match(codigo) else None
+    if not datos:
+        raise HTTPException(status_code=HTTP_404_NOT_FOUND, detail="No encontrado")
+    return datos
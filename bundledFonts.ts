@@ -0,0 +1,39 @@
+import type { RenderFonts } from "./fonts";
+import dejavuSansUrl from "dejavu-fonts-ttf/ttf/DejaVuSans.ttf?url";
+import dejavuSansBoldUrl from "dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf?url";
+import dejavuSansObliqueUrl from "dejavu-fonts-ttf/ttf/DejaVuSans-Oblique.ttf?url";
+import dejavuSansBoldObliqueUrl from "dejavu-fonts-ttf/ttf/DejaVuSans-BoldOblique.ttf?url";
+
+/* ============================= */
+/* FUENTES INCLUIDAS (DejaVu)    */
+/* ============================= */
+
+export const BUNDLED_FONT_NAME = "DejaVu Sans";
+
+let cached: Promise<RenderFonts> | null = null;
+
+const fetchBytes = async (url: string) => {
+  const resp = await fetch(url);
+  if (!resp.ok) throw new Error(`No se pudo cargar la fuente (${resp.status})`);
+  return new Uint8Array(await resp.arrayBuffer());
+};
+
+/**
+ * Carga (una sola vez) las fuentes por defecto. DejaVu Sans cubre Latin
+ * extendido, griego, cirílico, comillas tipográficas, €, ≥ y bastantes símbolos.
+ */
+export function loadBundledFonts(): Promise<RenderFonts> {
+  if (!cached) {
+    cached = Promise.all(
+      [dejavuSansUrl, dejavuSansBoldUrl, dejavuSansObliqueUrl, dejavuSansBoldObliqueUrl].map(
+        fetchBytes
+      )
+    )
+      .then(([regular, bold, italic, boldItalic]) => ({ regular, bold, italic, boldItalic }))
+      .catch((e) => {
+        cached = null;
+        throw e;
+      });
+  }
+  return cached;
+}
@@ -0,0 +1,255 @@
+import { parseInline, runLineText } from "./markup";
+
+/* ============================= */
+/* IMPORTACIÓN DOCX (mammoth)    */
+/* ============================= */
+
+export type DocxImportResult = {
+  /** Cuerpo con el marcado ligero de ./markup */
+  text: string;
+  /** Imágenes PNG/JPG referenciadas en `text` como ![alt](img:N) */
+  images: Record<string, Uint8Array>;
+  /** Lo que no se pudo mapear al modelo (con número de apariciones) */
+  warnings: string[];
+};
+
+type InlineStyle = { bold?: boolean; italic?: boolean };
+
+const base64ToBytes = (b64: string) => {
+  const bin = atob(b64);
+  const out = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i);
+  return out;
+};
+
+const escapeText = (t: string) => t.replace(/\*/g, "\\*");
+
+/** Aplica las marcas al texto dejando los espacios de los extremos fuera */
+const mark = (text: string, style: InlineStyle) => {
+  const m = /^(\s*)(.*?)(\s*)$/s.exec(text)!;
+  if (!m[2]) return text;
+  const stars = style.bold && style.italic ? "***" : style.bold ? "**" : style.italic ? "*" : "";
+  return `${m[1]}${stars}${m[2]}${stars}${m[3]}`;
+};
+
+const UNMAPPED_INLINE: Record<string, string> = {
+  u: "Subrayado",
+  s: "Tachado",
+  del: "Tachado",
+  sup: "Superíndice",
+  sub: "Subíndice",
+};
+
+/**
+ * Convierte un .docx a texto con marcado usando la salida HTML de mammoth
+ * (títulos, negritas, cursivas, listas, tablas e imágenes). Lo demás se
+ * conserva como texto plano y se reporta en `warnings`.
+ */
+export async function importDocx(ab: ArrayBuffer): Promise<DocxImportResult> {
+  const mammoth = window.mammoth;
+  if (!mammoth) throw new Error("mammoth no cargado");
+
+  const images: Record<string, Uint8Array> = {};
+  const unmapped = new Map<string, number>();
+  const note = (what: string) => unmapped.set(what, (unmapped.get(what) || 0) + 1);
+  let imageCount = 0;
+
+  const res = await mammoth.convertToHtml(
+    { arrayBuffer: ab },
+    {
+      // mammoth descarta el subrayado por defecto; lo pedimos para poder reportarlo
+      styleMap: ["u => u"],
+      convertImage: mammoth.images.imgElement(async (image: any) => {
+        const type = String(image.contentType || "");
+        if (!/^image\/(png|jpe?g)$/.test(type)) {
+          note(`Imagen ${type || "desconocida"} (solo PNG/JPG)`);
+          return { src: "" };
+        }
+        const key = `img:${++imageCount}`;
+        images[key] = base64ToBytes(await image.read("base64"));
+        return { src: key, alt: image.altText || "" };
+      }),
+    }
+  );
+
+  const html = new DOMParser().parseFromString(res.value, "text/html");
+  const chunks: string[] = [];
+
+  /* ===== INLINE ===== */
+
+  // Las imágenes dentro de un párrafo se sacan a su propio bloque
+  let pendingImages: string[] = [];
+
+  const inline = (node: Node, style: InlineStyle): string => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      return mark(escapeText((node.textContent || "").replace(/\s+/g, " ")), style);
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return "";
+
+    const el = node as Element;
+    const tag = el.tagName.toLowerCase();
+    const inner = (s: InlineStyle) =>
+      Array.from(el.childNodes)
+        .map((c) => inline(c, s))
+        .join("");
+
+    switch (tag) {
+      case "strong":
+      case "b":
+        return inner({ ...style, bold: true });
+      case "em":
+      case "i":
+        return inner({ ...style, italic: true });
+      case "br":
+        return "\n";
+      case "img": {
+        const src = el.getAttribute("src") || "";
+        if (src) pendingImages.push(`![${el.getAttribute("alt") || ""}](${src})`);
+        return "";
+      }
+      case "a": {
+        const text = inner(style);
+        const href = el.getAttribute("href") || "";
+        if (/^https?:/i.test(href) && !text.includes(href)) return `${text} (${href})`;
+        return text;
+      }
+      default:
+        if (UNMAPPED_INLINE[tag]) note(UNMAPPED_INLINE[tag]);
+        return inner(style);
+    }
+  };
+
+  const inlineOf = (el: Element) =>
+    Array.from(el.childNodes)
+      .map((c) => inline(c, {}))
+      .join("")
+      .split("\n")
+      .map((l) => l.trim())
+      .filter(Boolean)
+      .join("\n");
+
+  const flushImages = () => {
+    chunks.push(...pendingImages);
+    pendingImages = [];
+  };
+
+  /* ===== BLOQUES ===== */
+
+  const listLines = (list: Element, depth: number): string[] => {
+    const ordered = list.tagName.toLowerCase() === "ol";
+    let n = Number(list.getAttribute("start") || 1);
+    const lines: string[] = [];
+
+    for (const li of Array.from(list.children)) {
+      if (li.tagName.toLowerCase() !== "li") continue;
+      const nested: Element[] = [];
+      const own = Array.from(li.childNodes)
+        .filter((c) => {
+          const isList = c instanceof Element && /^(ul|ol)$/i.test(c.tagName);
+          if (isList) nested.push(c as Element);
+          return !isList;
+        })
+        .map((c) => inline(c, {}))
+        .join("")
+        .replace(/\s*\n\s*/g, " ")
+        .trim();
+
+      const marker = ordered ? `${n++}.` : "-";
+      lines.push(`${"  ".repeat(depth)}${marker} ${own}`);
+      for (const sub of nested) lines.push(...listLines(sub, depth + 1));
+    }
+    return lines;
+  };
+
+  const tableLines = (table: Element): string[] => {
+    if (table.querySelector("table")) note("Tabla anidada (se aplanó)");
+    const rows = Array.from(table.querySelectorAll("tr")).filter(
+      (tr) => tr.closest("table") === table
+    );
+    const lines: string[] = [];
+
+    rows.forEach((tr, i) => {
+      const cells = Array.from(tr.children).filter((c) => /^(td|th)$/i.test(c.tagName));
+      if (cells.some((c) => c.hasAttribute("colspan") || c.hasAttribute("rowspan"))) {
+        note("Celdas combinadas");
+      }
+      const texts = cells.map((c) =>
+        Array.from(c.childNodes)
+          .map((n) => inline(n, {}))
+          .join(" ")
+          .replace(/\s+/g, " ")
+          .trim()
+          .replace(/\|/g, "\\|")
+      );
+      lines.push(`| ${texts.join(" | ")} |`);
+      if (i === 0 && cells.length > 0 && cells.every((c) => c.tagName.toLowerCase() === "th")) {
+        lines.push(`|${cells.map(() => " --- ").join("|")}|`);
+      }
+    });
+    return lines;
+  };
+
+  const block = (el: Element) => {
+    const tag = el.tagName.toLowerCase();
+
+    if (/^h[1-6]$/.test(tag)) {
+      const level = Math.min(3, Number(tag[1]));
+      const text = inlineOf(el).replace(/\n/g, " ");
+      if (text) chunks.push(`${"#".repeat(level)} ${text}`);
+      flushImages();
+      return;
+    }
+
+    switch (tag) {
+      case "p": {
+        const text = inlineOf(el);
+        if (text) chunks.push(text);
+        flushImages();
+        return;
+      }
+      case "ul":
+      case "ol":
+        chunks.push(listLines(el, 0).join("\n"));
+        flushImages();
+        return;
+      case "table":
+        chunks.push(tableLines(el).join("\n"));
+        flushImages();
+        return;
+      case "blockquote": {
+        const text = inlineOf(el);
+        if (text) chunks.push(text.split("\n").map((l) => `> ${l}`).join("\n"));
+        flushImages();
+        return;
+      }
+      case "img":
+        inline(el, {});
+        flushImages();
+        return;
+      default:
+        Array.from(el.children).forEach(block);
+    }
+  };
+
+  Array.from(html.body.children).forEach(block);
+
+  const warnings = Array.from(unmapped.entries()).map(([what, n]) =>
+    n > 1 ? `${what} (${n})` : what
+  );
+  for (const m of res.messages || []) {
+    const msg = `Word: ${m.message}`;
+    if (!warnings.includes(msg)) warnings.push(msg);
+  }
+
+  return { text: chunks.join("\n\n"), images, warnings };
+}
+
+/**
+ * Si el documento empieza con un título (# ...), lo separa del cuerpo.
+ */
+export function takeLeadingHeading(text: string): { title: string | null; body: string } {
+  const [first, ...rest] = text.split(/\n{2,}/);
+  const m = /^#{1,6}\s+(.+)$/.exec(first || "");
+  if (!m || first.includes("\n")) return { title: null, body: text };
+  return { title: runLineText(parseInline(m[1])), body: rest.join("\n\n") };
+}
@@ -0,0 +1,68 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { PDFDict, PDFDocument, PDFName, rgb } from "pdf-lib";
+import { embedFontChains, fontFaceOf } from "./fonts";
+
+const ttf = (name: string) =>
+  new Uint8Array(readFileSync(new URL(`./node_modules/dejavu-fonts-ttf/ttf/${name}.ttf`, import.meta.url)));
+
+// ExtraLight no tiene "≥" ni "∞"; Mono sí
+const LIGHT = ttf("DejaVuSans-ExtraLight");
+const MONO = ttf("DejaVuSansMono");
+
+/** Nombres (sin el sufijo del subset) de las fuentes que quedan en el PDF guardado */
+async function embeddedFonts(doc: PDFDocument): Promise<string[]> {
+  const saved = await PDFDocument.load(await doc.save());
+  return saved.context
+    .enumerateIndirectObjects()
+    .map(([, obj]) => obj)
+    .filter((obj): obj is PDFDict => obj instanceof PDFDict && obj.get(PDFName.of("Subtype")) === PDFName.of("Type0"))
+    .map((dict) => dict.lookup(PDFName.of("BaseFont"), PDFName).decodeText().replace(/-\d+$/, ""))
+    .sort();
+}
+
+async function chainsFor(text: string) {
+  const doc = await PDFDocument.create();
+  const page = doc.addPage();
+  const chains = await embedFontChains(doc, { regular: LIGHT, fallbacks: [MONO] }, text);
+  chains.body.drawText(page, text, { x: 20, y: 400, size: 12, color: rgb(0, 0, 0) });
+  return { doc, page, chains };
+}
+
+/* ===== RESPALDOS ===== */
+
+describe("embedFontChains", () => {
+  it("no embebe los respaldos que el texto no necesita", async () => {
+    const { doc } = await chainsFor("Hola, mundo");
+    expect(await embeddedFonts(doc)).toEqual(["DejaVuSans-ExtraLight"]);
+  });
+
+  it("embebe el respaldo que aporta los caracteres que faltan", async () => {
+    const { doc, chains } = await chainsFor("x ≥ 0 y ∞");
+    expect(await embeddedFonts(doc)).toEqual(["DejaVuSans-ExtraLight", "DejaVuSansMono"]);
+    expect(chains.missing.size).toBe(0);
+  });
+
+  it("anota las variantes que se dibujan con la regular por no tener fuente propia", async () => {
+    const { page, chains } = await chainsFor("Hola");
+    expect(chains.substituted.size).toBe(0);
+    chains.styles.bold.drawText(page, "negrita", { x: 20, y: 380, size: 12, color: rgb(0, 0, 0) });
+    expect(Array.from(chains.substituted)).toEqual(["bold"]);
+  });
+
+  it("anota también el título que se dibuja con la regular por falta de negrita", async () => {
+    const { page, chains } = await chainsFor("Hola");
+    chains.title.drawText(page, "Título", { x: 20, y: 700, size: 14, color: rgb(0, 0, 0) });
+    expect(Array.from(chains.substituted)).toEqual(["bold"]);
+  });
+});
+
+/* ===== FAMILIA Y ESTILO ===== */
+
+describe("fontFaceOf", () => {
+  it("lee familia y estilo de la tabla de nombres", () => {
+    expect(fontFaceOf(ttf("DejaVuSans-BoldOblique"))).toEqual({ family: "dejavu sans", style: "boldItalic" });
+    expect(fontFaceOf(ttf("DejaVuSans"))).toEqual({ family: "dejavu sans", style: "regular" });
+    expect(fontFaceOf(new Uint8Array([1, 2, 3]))).toBeNull();
+  });
+});
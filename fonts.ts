@@ -0,0 +1,229 @@
+import fontkit from "@pdf-lib/fontkit";
+import { Color, degrees, PDFDocument, PDFFont, PDFPage, StandardFonts } from "pdf-lib";
+
+/* ============================= */
+/* FUENTES Y CADENAS DE RESPALDO */
+/* ============================= */
+
+/**
+ * Bytes de fuentes TrueType/OpenType para el documento.
+ * Las variantes que falten se resuelven con la más cercana (`bold` o
+ * `regular`); `title` usa `bold` si no se indica. `fallbacks` se consultan, en orden, para cada carácter
+ * que la fuente principal no tenga (p. ej. una fuente de emoji subida por el usuario).
+ */
+export type RenderFonts = {
+  regular: Uint8Array;
+  bold?: Uint8Array | null;
+  italic?: Uint8Array | null;
+  boldItalic?: Uint8Array | null;
+  title?: Uint8Array | null;
+  fallbacks?: Uint8Array[];
+};
+
+export type FontStyle = "regular" | "bold" | "italic" | "boldItalic";
+
+export type StyledFontChains = Record<FontStyle, FontChain>;
+
+/**
+ * Una lista ordenada de fuentes que se comporta como una sola: mide y dibuja
+ * texto eligiendo, carácter por carácter, la primera fuente que tenga el glifo.
+ */
+export type FontChain = {
+  primary: PDFFont;
+  widthOfTextAtSize: (text: string, size: number) => number;
+  drawText: (
+    page: PDFPage,
+    text: string,
+    /** `rotate` en grados, en sentido antihorario (marcas de agua) */
+    opts: { x: number; y: number; size: number; color: Color; rotate?: number; opacity?: number }
+  ) => void;
+};
+
+export type FontRun = { font: PDFFont; text: string };
+
+export const fontStyleOf = (s: { bold?: boolean; italic?: boolean }): FontStyle =>
+  s.bold ? (s.italic ? "boldItalic" : "bold") : s.italic ? "italic" : "regular";
+
+const REPLACEMENT = "?";
+
+/**
+ * Registra fontkit y embebe las fuentes con subsetting. Si no hay fuentes
+ * personalizadas se usa la familia Helvetica (solo Latin-1). `text` es lo que
+ * se va a dibujar: de los respaldos solo se embeben los que aportan algún
+ * carácter que la fuente regular no tiene. Las variantes que faltan se dibujan
+ * con la regular y, si se llegan a usar, quedan en `substituted`.
+ */
+export async function embedFontChains(pdfDoc: PDFDocument, fonts: RenderFonts | null, text = "") {
+  const missing = new Set<string>();
+  const substituted = new Set<FontStyle>();
+
+  if (!fonts) {
+    const regular = await pdfDoc.embedFont(StandardFonts.Helvetica);
+    const bold = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+    const italic = await pdfDoc.embedFont(StandardFonts.HelveticaOblique);
+    const boldItalic = await pdfDoc.embedFont(StandardFonts.HelveticaBoldOblique);
+    const styles: StyledFontChains = {
+      regular: createFontChain([regular], missing),
+      bold: createFontChain([bold], missing),
+      italic: createFontChain([italic], missing),
+      boldItalic: createFontChain([boldItalic], missing),
+    };
+    return { body: styles.regular, title: styles.bold, styles, missing, substituted };
+  }
+
+  pdfDoc.registerFontkit(fontkit);
+  const embed = (bytes: Uint8Array) => pdfDoc.embedFont(bytes, { subset: true });
+
+  const regular = await embed(fonts.regular);
+  const bold = fonts.bold ? await embed(fonts.bold) : regular;
+  const italic = fonts.italic ? await embed(fonts.italic) : regular;
+  const boldItalic = fonts.boldItalic ? await embed(fonts.boldItalic) : bold;
+  const title = fonts.title ? await embed(fonts.title) : bold;
+
+  const fallbacks: PDFFont[] = [];
+  for (const fb of neededFallbacks(regular, fonts.fallbacks || [], text)) {
+    try {
+      fallbacks.push(await embed(fb));
+    } catch (e) {
+      console.warn("No se pudo embeber una fuente de respaldo", e);
+    }
+  }
+
+  const chain = (main: PDFFont) =>
+    createFontChain(main === regular ? [regular, ...fallbacks] : [main, regular, ...fallbacks], missing);
+
+  // una variante prestada se anota al dibujar con ella, no por existir
+  const standIn = (style: FontStyle, own: boolean, c: FontChain): FontChain =>
+    own
+      ? c
+      : {
+          ...c,
+          drawText: (page, line, opts) => {
+            if (line.trim()) substituted.add(style);
+            c.drawText(page, line, opts);
+          },
+        };
+
+  const styles: StyledFontChains = {
+    regular: chain(regular),
+    bold: standIn("bold", !!fonts.bold, chain(bold)),
+    italic: standIn("italic", !!fonts.italic, chain(italic)),
+    boldItalic: standIn("boldItalic", !!fonts.boldItalic, chain(boldItalic)),
+  };
+  // el título va en negrita: sin fuente propia ni negrita, sale en la regular
+  const titleChain = standIn("bold", !!(fonts.title || fonts.bold), chain(title));
+  return { body: styles.regular, title: titleChain, styles, missing, substituted };
+}
+
+/** Respaldos (en su orden) que son los primeros en tener algún carácter de `text` que falta en `regular` */
+function neededFallbacks(regular: PDFFont, fallbacks: Uint8Array[], text: string): Uint8Array[] {
+  const covered = new Set(regular.getCharacterSet());
+  const pending = new Set<number>();
+  for (const ch of text) {
+    const cp = ch.codePointAt(0)!;
+    if (!/\s/.test(ch) && !covered.has(cp)) pending.add(cp);
+  }
+
+  const needed: Uint8Array[] = [];
+  for (const bytes of fallbacks) {
+    if (!pending.size) break;
+    let charset: Set<number>;
+    try {
+      charset = new Set(fontkit.create(bytes).characterSet);
+    } catch (e) {
+      console.warn("No se pudo leer una fuente de respaldo", e);
+      continue;
+    }
+    const hits = Array.from(pending).filter((cp) => charset.has(cp));
+    if (!hits.length) continue;
+    hits.forEach((cp) => pending.delete(cp));
+    needed.push(bytes);
+  }
+  return needed;
+}
+
+/** Familia y estilo declarados en la tabla de nombres de una fuente subida */
+export function fontFaceOf(bytes: Uint8Array): { family: string; style: FontStyle } | null {
+  try {
+    const font = fontkit.create(bytes);
+    const sub = font.subfamilyName || "";
+    return {
+      family: (font.familyName || "").trim().toLowerCase(),
+      style: fontStyleOf({ bold: /bold|black|heavy/i.test(sub), italic: /italic|oblique/i.test(sub) }),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Arma la cadena. Los caracteres que ninguna fuente soporta se sustituyen por
+ * "?" y se anotan en `missing` para el reporte.
+ */
+export function createFontChain(fonts: PDFFont[], missing: Set<string>): FontChain {
+  const charsets = fonts.map((f) => new Set(f.getCharacterSet()));
+  const cache = new Map<string, number>();
+
+  const fontIndexFor = (ch: string) => {
+    const hit = cache.get(ch);
+    if (hit !== undefined) return hit;
+    const cp = ch.codePointAt(0)!;
+    const idx = charsets.findIndex((set) => set.has(cp));
+    cache.set(ch, idx);
+    return idx;
+  };
+
+  const splitRuns = (text: string): FontRun[] => {
+    const runs: FontRun[] = [];
+    let curIdx = -1;
+    let cur = "";
+
+    for (const raw of text) {
+      let ch = raw;
+      let idx = fontIndexFor(ch);
+      if (idx === -1) {
+        if (/\s/.test(ch)) ch = " ";
+        else {
+          missing.add(ch);
+          ch = REPLACEMENT;
+        }
+        idx = Math.max(0, fontIndexFor(ch));
+      }
+      if (idx !== curIdx && cur) {
+        runs.push({ font: fonts[curIdx], text: cur });
+        cur = "";
+      }
+      curIdx = idx;
+      cur += ch;
+    }
+    if (cur) runs.push({ font: fonts[curIdx], text: cur });
+    return runs;
+  };
+
+  return {
+    primary: fonts[0],
+    widthOfTextAtSize: (text, size) =>
+      splitRuns(text).reduce((w, r) => w + r.font.widthOfTextAtSize(r.text, size), 0),
+    drawText: (page, text, { x, y, size, color, rotate = 0, opacity }) => {
+      // cada tramo sigue al anterior en la dirección del texto
+      const dx = Math.cos((rotate * Math.PI) / 180);
+      const dy = Math.sin((rotate * Math.PI) / 180);
+      let cx = x;
+      let cy = y;
+      for (const run of splitRuns(text)) {
+        page.drawText(run.text, {
+          x: cx,
+          y: cy,
+          size,
+          font: run.font,
+          color,
+          ...(rotate && { rotate: degrees(rotate) }),
+          ...(opacity !== undefined && { opacity }),
+        });
+        const w = run.font.widthOfTextAtSize(run.text, size);
+        cx += w * dx;
+        cy += w * dy;
+      }
+    },
+  };
+}
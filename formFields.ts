@@ -0,0 +1,333 @@
+import {
+  drawObject,
+  PDFCheckBox,
+  PDFDict,
+  PDFDocument,
+  PDFDropdown,
+  PDFField,
+  PDFForm,
+  PDFHexString,
+  PDFName,
+  PDFOptionList,
+  PDFPage,
+  PDFRadioGroup,
+  PDFRef,
+  PDFSignature,
+  PDFString,
+  PDFTextField,
+  PDFWidgetAnnotation,
+  popGraphicsState,
+  pushGraphicsState,
+  translate,
+} from "pdf-lib";
+import type { FieldRect } from "./renderDocument";
+
+/* ============================= */
+/* CAMPOS DE FORMULARIO (ACROFORM) */
+/* ============================= */
+
+export type FormFieldKind = "text" | "date" | "checkbox" | "dropdown" | "radio" | "signature" | "button";
+
+export type FormFieldInfo = {
+  name: string;
+  kind: FormFieldKind;
+  /** Opciones de listas desplegables y grupos de radio */
+  options?: string[];
+  multiline?: boolean;
+  maxLength?: number;
+  /** Rectángulo del primer widget, en puntos PDF */
+  rect?: FieldRect;
+  /** Página (0-based) de la plantilla donde está el widget */
+  page: number;
+};
+
+/** Valor de un campo: texto (o fecha ISO yyyy-mm-dd) o casilla marcada */
+export type FieldValue = string | boolean;
+
+// Nombres que, sin formato JavaScript de fecha, delatan un campo de fecha
+const DATE_NAME_RX = /fecha|date|nacimiento|vencimiento/i;
+
+/** ¿El campo tiene una acción de formato AFDate_* (fecha en Acrobat)? */
+function hasDateFormat(pdfDoc: PDFDocument, field: PDFField): boolean {
+  const aa = field.acroField.dict.lookup(PDFName.of("AA"));
+  if (!(aa instanceof PDFDict)) return false;
+  return aa.values().some((v) => {
+    const action = v instanceof PDFRef ? pdfDoc.context.lookup(v) : v;
+    if (!(action instanceof PDFDict)) return false;
+    return /AFDate_/i.test(String(action.lookup(PDFName.of("JS")) ?? ""));
+  });
+}
+
+/**
+ * Describe todos los campos del formulario con pdf-lib: tipo (para elegir el
+ * control de entrada), opciones, rectángulo y página del primer widget.
+ */
+export function describeFormFields(pdfDoc: PDFDocument): FormFieldInfo[] {
+  const pages = pdfDoc.getPages();
+  const infos: FormFieldInfo[] = [];
+
+  for (const field of pdfDoc.getForm().getFields()) {
+    const name = field.getName();
+    const widgets = field.acroField.getWidgets();
+    const widget = widgets[0];
+
+    let page = 0;
+    let rect: FieldRect | undefined;
+    if (widget) {
+      rect = widget.getRectangle();
+      const pageRef = widget.P();
+      const widgetRef = pdfDoc.context.getObjectRef(widget.dict);
+      const idx = pages.findIndex(
+        (p) =>
+          (pageRef && p.ref === pageRef) ||
+          (!!widgetRef && !!p.node.Annots()?.asArray().some((a) => a === widgetRef))
+      );
+      if (idx >= 0) page = idx;
+    }
+
+    let info: FormFieldInfo;
+    if (field instanceof PDFCheckBox) {
+      info = { name, kind: "checkbox", page, rect };
+    } else if (field instanceof PDFDropdown || field instanceof PDFOptionList) {
+      info = { name, kind: "dropdown", options: field.getOptions(), page, rect };
+    } else if (field instanceof PDFRadioGroup) {
+      info = { name, kind: "radio", options: field.getOptions(), page, rect };
+    } else if (field instanceof PDFSignature) {
+      info = { name, kind: "signature", page, rect };
+    } else if (field instanceof PDFTextField) {
+      const isDate = hasDateFormat(pdfDoc, field) || DATE_NAME_RX.test(name);
+      info = {
+        name,
+        kind: isDate ? "date" : "text",
+        multiline: field.isMultiline(),
+        maxLength: field.getMaxLength(),
+        page,
+        rect,
+      };
+    } else {
+      info = { name, kind: "button", page, rect };
+    }
+    infos.push(info);
+  }
+
+  return infos;
+}
+
+const PDFJS_KINDS: Record<string, FormFieldKind> = {
+  text: "text",
+  checkbox: "checkbox",
+  combobox: "dropdown",
+  listbox: "dropdown",
+  radiobutton: "radio",
+  signature: "signature",
+  button: "button",
+};
+
+/**
+ * Lo mismo a partir de `getFieldObjects()` de pdf.js, para PDFs cuyo
+ * formulario pdf-lib no consigue leer.
+ */
+export function describePdfjsFields(fieldObjs: Record<string, any[]>): FormFieldInfo[] {
+  return Object.entries(fieldObjs).map(([name, entries]) => {
+    const w = entries[0] || {};
+    let kind = PDFJS_KINDS[w.type] ?? "text";
+    if (kind === "text" && DATE_NAME_RX.test(name)) kind = "date";
+
+    let rect: FieldRect | undefined;
+    if (w.rect?.length === 4) {
+      const [x1, y1, x2, y2] = w.rect;
+      rect = {
+        x: Math.min(x1, x2),
+        y: Math.min(y1, y2),
+        width: Math.abs(x2 - x1),
+        height: Math.abs(y2 - y1),
+      };
+    }
+
+    const options =
+      kind === "radio"
+        ? entries.map((e) => String(e.buttonValue ?? e.exportValues ?? "")).filter(Boolean)
+        : Array.isArray(w.items)
+          ? w.items.map((it: any) => String(it.displayValue ?? it.exportValue ?? it))
+          : undefined;
+
+    return {
+      name,
+      kind,
+      options,
+      multiline: !!w.multiline,
+      maxLength: w.charLimit || undefined,
+      rect,
+      page: typeof w.page === "number" ? w.page : 0,
+    };
+  });
+}
+
+/** Texto que se dibuja para un valor (las fechas ISO pasan a dd/mm/aaaa) */
+export function formatFieldValue(info: FormFieldInfo, value: FieldValue | undefined): string {
+  if (value === undefined || value === null || typeof value === "boolean") return "";
+  if (info.kind === "date") {
+    const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+    if (m) return `${m[3]}/${m[2]}/${m[1]}`;
+  }
+  return value;
+}
+
+/** ¿Se le puede dar un valor desde el generador? */
+export const isFillable = (info: FormFieldInfo) =>
+  info.kind !== "signature" && info.kind !== "button";
+
+/**
+ * Escribe un valor en el campo real del formulario. Devuelve false si el
+ * campo no existe o el valor no es válido para él (p. ej. una opción que la
+ * lista no tiene).
+ */
+export function fillFormField(form: PDFForm, info: FormFieldInfo, value: FieldValue | undefined): boolean {
+  const field = form.getFieldMaybe(info.name);
+  if (!field) return false;
+
+  if (field instanceof PDFCheckBox) {
+    if (value === true) field.check();
+    else field.uncheck();
+    return true;
+  }
+
+  const text = formatFieldValue(info, value);
+  if (field instanceof PDFTextField) {
+    const max = field.getMaxLength();
+    field.setText(max !== undefined ? text.slice(0, max) : text);
+    return true;
+  }
+  if (field instanceof PDFDropdown || field instanceof PDFOptionList) {
+    if (!text) field.clear();
+    else if (field.getOptions().includes(text) || (field instanceof PDFDropdown && field.isEditable())) {
+      field.select(text);
+    } else return false;
+    return true;
+  }
+  if (field instanceof PDFRadioGroup) {
+    if (!text) field.clear();
+    else if (field.getOptions().includes(text)) field.select(text);
+    else return false;
+    return true;
+  }
+  return false;
+}
+
+/** ¿Algún widget del campo está en una página que sigue en el documento? */
+const widgetPages = (pdfDoc: PDFDocument, field: PDFField) => {
+  const pages = pdfDoc.getPages();
+  return field.acroField.getWidgets().map((w) => {
+    const ref = pdfDoc.context.getObjectRef(w.dict);
+    return pages.find(
+      (p) => p.ref === w.P() || (!!ref && !!p.node.Annots()?.asArray().some((a) => a === ref))
+    );
+  });
+};
+
+/** ¿El campo tiene un widget en esta hoja? */
+export const fieldOnPage = (pdfDoc: PDFDocument, field: PDFField, page: PDFPage) =>
+  widgetPages(pdfDoc, field).includes(page);
+
+/**
+ * Quita un campo y sus widgets. PDFForm.removeField de pdf-lib borra los
+ * widgets que cuelgan del campo como /Kids pero deja su referencia en el
+ * /Annots de la hoja; aquí se quitan de todas las hojas.
+ */
+export function removeFormField(pdfDoc: PDFDocument, field: PDFField) {
+  const { context } = pdfDoc;
+  const refs = new Set<PDFRef>([field.ref]);
+  for (const widget of field.acroField.getWidgets()) {
+    const ref = context.getObjectRef(widget.dict);
+    if (ref) refs.add(ref);
+  }
+  for (const page of pdfDoc.getPages()) refs.forEach((ref) => page.node.removeAnnot(ref));
+  pdfDoc.getForm().acroForm.removeField(field.acroField);
+  refs.forEach((ref) => context.delete(ref));
+}
+
+/**
+ * Quita del formulario los campos cuyos widgets estaban en páginas de la
+ * plantilla que se descartaron (si no, pdf-lib no puede aplanarlos).
+ */
+export function dropOrphanFields(pdfDoc: PDFDocument) {
+  const form = pdfDoc.getForm();
+  for (const field of form.getFields()) {
+    if (widgetPages(pdfDoc, field).every((p) => !p)) form.acroForm.removeField(field.acroField);
+  }
+}
+
+/**
+ * Las hojas copiadas de la plantilla (copyPages) traen los widgets de sus
+ * campos, pero esos campos no quedan en AcroForm.Fields. Con `adopt`, los que
+ * el formulario aún no tiene se suman (así la firma del destinatario de la
+ * contraportada sigue siendo un campo); el resto de widgets se quita de la
+ * hoja, porque en las copias el valor va dibujado.
+ */
+export function linkCopiedWidgets(pdfDoc: PDFDocument, page: PDFPage, adopt: boolean) {
+  const annots = page.node.Annots();
+  if (!annots) return;
+  const { context } = pdfDoc;
+  const form = pdfDoc.getForm();
+  const adopted = new Set<PDFRef>();
+
+  for (let i = annots.size() - 1; i >= 0; i--) {
+    const ref = annots.get(i);
+    const widget = context.lookup(ref);
+    if (!(widget instanceof PDFDict) || widget.get(PDFName.of("Subtype")) !== PDFName.of("Widget")) continue;
+
+    // El campo raíz (el que va en /Fields) se encuentra subiendo por /Parent
+    let root = widget;
+    let rootRef = ref instanceof PDFRef ? ref : undefined;
+    for (let parent = root.get(PDFName.of("Parent")); parent instanceof PDFRef; parent = root.get(PDFName.of("Parent"))) {
+      rootRef = parent;
+      root = context.lookup(parent, PDFDict);
+    }
+    const name = root.lookupMaybe(PDFName.of("T"), PDFString, PDFHexString)?.decodeText();
+    const taken = form.getFields().some((f) => f.getName() === name || f.getName().startsWith(`${name}.`));
+
+    if (adopt && rootRef && (adopted.has(rootRef) || (name && !taken))) {
+      if (!adopted.has(rootRef)) form.acroForm.addField(rootRef);
+      adopted.add(rootRef);
+      widget.set(PDFName.of("P"), page.ref);
+    } else {
+      annots.remove(i);
+    }
+  }
+}
+
+/** Apariencia normal del widget; en casillas y radios, la del estado actual */
+function appearanceRef(widget: PDFWidgetAnnotation): PDFRef | undefined {
+  const normal = widget.getNormalAppearance();
+  if (normal instanceof PDFRef) return normal;
+  const state = normal.get(widget.getAppearanceState() ?? PDFName.of("Off")) ?? normal.get(PDFName.of("Off"));
+  return state instanceof PDFRef ? state : undefined;
+}
+
+/**
+ * Aplana los campos (su apariencia pasa a ser contenido de la página) salvo
+ * los de `keepEditable`, que quedan para que el destinatario los complete.
+ * Es el mismo procedimiento que PDFForm.flatten, pero campo a campo y
+ * quitando también los widgets del /Annots de la hoja (ver removeFormField).
+ */
+export function flattenFormFields(pdfDoc: PDFDocument, keepEditable: Set<string>) {
+  const form = pdfDoc.getForm();
+  for (const field of form.getFields()) {
+    if (keepEditable.has(field.getName())) continue;
+    const pages = widgetPages(pdfDoc, field);
+    field.acroField.getWidgets().forEach((widget, i) => {
+      const page = pages[i];
+      const apRef = appearanceRef(widget);
+      if (!page || !apRef) return;
+      const key = page.node.newXObject("FlatWidget", apRef);
+      const r = widget.getRectangle();
+      page.pushOperators(
+        pushGraphicsState(),
+        translate(r.x, r.y),
+        drawObject(key),
+        popGraphicsState()
+      );
+    });
+    removeFormField(pdfDoc, field);
+  }
+}
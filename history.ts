@@ -1,23 +1,71 @@
+import type { OutputProfile } from "./pdfArchive";
+import type { SignatureRecord } from "./pdfSign";
+import { LOCKED_PERMISSIONS, ProtectionRecord } from "./protection";
+import type { VerificationRecord } from "./verification";
+import type { WatermarkRecord, WatermarkSettings } from "./watermark";
+
 export type HistoryItem = {
   id: string;
   title: string;
   bodyPreview: string;
   bodyFull: string; // recortado (máx. 20k chars)
-  protected: boolean;
+  /** Claves y permisos con que se protegió (null = sin protección) */
+  protection: ProtectionRecord | null;
   templateName: string | null;
   createdAt: string; // ISO
   pages?: number;
+  /** Valores de las {{variables}} usadas (para "Reusar") */
+  variables?: Record<string, string>;
+  /** Perfil de salida con que se generó (sin indicar, "standard") */
+  outputProfile?: OutputProfile;
+  /** Marca de agua: parámetros y texto estampado (para rastrear la copia) */
+  watermark?: WatermarkRecord;
+  /** Código de verificación impreso y huellas del contenido y del archivo */
+  verification?: VerificationRecord;
+  /** Quién firmó y cómo (el certificado no se guarda) */
+  signature?: SignatureRecord;
+  /** Lote de combinación: un solo elemento con lo propio de cada PDF */
+  batch?: BatchRecord;
+};
+
+/** Un PDF de un lote de combinación */
+export type BatchFile = {
+  /** Fila de datos (1-based) */
+  row: number;
+  fileName: string;
+  documentId: string;
+  /** Marca de agua tal como se estampó en esa copia */
+  watermark?: string;
+  verificationCode?: string;
+};
+
+export type BatchRecord = {
+  /** Archivo CSV/XLSX del que salieron las filas */
+  dataFile: string;
+  /** Parámetros de la marca de agua (el texto de cada copia va en `files`) */
+  watermark?: WatermarkSettings;
+  files: BatchFile[];
 };
 
 export const HISTORY_KEY = "hm_pdf_history_v1";
 
+// Las entradas antiguas solo guardaban `protected: boolean` (todo bloqueado)
+const migrateItem = (raw: any): HistoryItem => {
+  if ("protection" in raw) return raw;
+  const { protected: wasProtected, ...rest } = raw;
+  return {
+    ...rest,
+    protection: wasProtected ? { openPassword: false, permissions: LOCKED_PERMISSIONS } : null,
+  };
+};
+
 export function loadHistory(): HistoryItem[] {
   try {
     const raw = localStorage.getItem(HISTORY_KEY);
     if (!raw) return [];
     const parsed = JSON.parse(raw);
     if (!Array.isArray(parsed)) return [];
-    return parsed as HistoryItem[];
+    return parsed.filter((x) => x && typeof x === "object").map(migrateItem);
   } catch {
     return [];
   }
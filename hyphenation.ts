@@ -0,0 +1,90 @@
+/* ============================= */
+/* DIVISIÓN SILÁBICA (ESPAÑOL)   */
+/* ============================= */
+
+const VOWELS = "aeiouáéíóúü";
+const STRONG = "aeoáéíóú"; // í/ú acentuadas forman hiato como las fuertes
+const INSEPARABLE = new Set([
+  "bl", "br", "cl", "cr", "dr", "fl", "fr", "gl", "gr", "kl", "kr", "pl", "pr", "tr", "tl",
+  "ch", "ll", "rr",
+]);
+
+const MIN_WORD = 6;
+const MIN_LEFT = 2;
+const MIN_RIGHT = 2;
+
+const isLetter = (c: string) => /\p{L}/u.test(c);
+const isVowel = (c: string, next?: string) =>
+  VOWELS.includes(c) || (c === "y" && (!next || !isLetter(next)));
+
+/**
+ * Posiciones (índices en `word`) donde se puede partir con guion según las
+ * reglas de silabeo del español: V-CV, VC-CV, V-CCV con grupos inseparables
+ * (bl, pr, tr, ch, ll, rr…), VC-CCV / VCC-CV con tres consonantes y hiatos
+ * entre vocales fuertes. Palabras cortas o con caracteres no alfabéticos no
+ * se parten.
+ */
+export function hyphenationPoints(word: string): number[] {
+  if (word.length < MIN_WORD || !Array.from(word).every(isLetter)) return [];
+
+  const w = word.toLowerCase();
+  const points: number[] = [];
+
+  // "qu" y "gu" + e/i: la u no suena, se trata como parte de la consonante
+  const silentU = (i: number) =>
+    w[i] === "u" && (w[i - 1] === "q" || w[i - 1] === "g") && "eiéí".includes(w[i + 1] || "");
+
+  const vowelAt = (i: number) => isVowel(w[i], w[i + 1]) && !silentU(i);
+
+  let i = 0;
+  // avanza hasta la primera vocal
+  while (i < w.length && !vowelAt(i)) i++;
+
+  while (i < w.length) {
+    // núcleo vocálico: diptongos y triptongos se quedan juntos
+    let j = i + 1;
+    while (j < w.length && vowelAt(j)) {
+      const prev = w[j - 1];
+      const cur = w[j];
+      const hiatus = STRONG.includes(prev) && STRONG.includes(cur);
+      if (hiatus) break;
+      j++;
+    }
+    if (j < w.length && vowelAt(j)) {
+      // hiato: corta entre las dos vocales
+      points.push(j);
+      i = j;
+      continue;
+    }
+
+    // consonantes entre este núcleo y el siguiente
+    let k = j;
+    while (k < w.length && !vowelAt(k)) k++;
+    if (k >= w.length) break; // consonantes finales: se quedan en la última sílaba
+
+    // "qu"/"gu" mudas cuentan como una sola consonante
+    const cons = w.slice(j, silentU(k - 1) ? k - 1 : k);
+    let cut: number;
+    if (cons.length <= 1) cut = j;
+    else if (cons.length === 2) cut = INSEPARABLE.has(cons) ? j : j + 1;
+    else if (cons.length === 3) cut = INSEPARABLE.has(cons.slice(1)) ? j + 1 : j + 2;
+    else cut = j + 2;
+
+    points.push(cut);
+    i = k;
+  }
+
+  return points.filter((p) => p >= MIN_LEFT && p <= w.length - MIN_RIGHT);
+}
+
+/**
+ * Cortes sin guion para "palabras" que no son palabras: URLs, rutas,
+ * correos, identificadores largos. Se corta después de / . - _ ? & = # @.
+ */
+export function softBreakPoints(token: string): number[] {
+  const points: number[] = [];
+  for (let i = 1; i < token.length - 1; i++) {
+    if ("/.-_?&=#@".includes(token[i - 1]) && !"/.-_?&=#@".includes(token[i])) points.push(i);
+  }
+  return points;
+}
@@ -0,0 +1,135 @@
+import {
+  DEFAULT_RUNNING,
+  DEFAULT_TYPOGRAPHY,
+  FieldFit,
+  FieldMode,
+  Numerals,
+  REGION_KINDS,
+  RunningSlots,
+  RunningTexts,
+  TemplatePages,
+  TemplateRegions,
+  Typography,
+} from "./renderDocument";
+import { getTemplateLayout, saveTemplateLayout } from "./templatesStore";
+
+/* ============================= */
+/* PERFILES DE MAQUETACIÓN       */
+/* ============================= */
+
+/**
+ * Todo lo que se ajusta para una plantilla: qué campo es título y cuál cuerpo,
+ * regiones dibujadas, tipografía, páginas de la plantilla, fuentes, cómo se
+ * rellenan los campos del formulario y cabecera/pie. Se guarda
+ * con la plantilla (IndexedDB y, si viene del backend, también allí) y se
+ * reaplica al volver a elegirla.
+ */
+export type LayoutProfile = {
+  version: 1;
+  fieldMapping: { title: string; body: string };
+  regions: TemplateRegions;
+  typography: Typography;
+  templatePages: TemplatePages;
+  /** Ids de fuentes locales ("" = la incluida) */
+  fonts: { titleFontId: string; bodyFontId: string };
+  /** Modo de los campos y cuáles quedan editables al aplanar */
+  formFill: { mode: FieldMode; flatten: boolean; editable: string[] };
+  /** Qué hacer con el texto que no cabe en cada campo */
+  fieldFit: { policies: Record<string, FieldFit>; minFontSize: number };
+  /** Cabecera, pie y numeración de las hojas */
+  running: RunningTexts;
+  updatedAt: string; // ISO
+};
+
+const isRect = (r: any) =>
+  !!r && ["x", "y", "width", "height"].every((k) => typeof r[k] === "number" && isFinite(r[k]));
+
+const FIT_POLICIES: FieldFit[] = ["overflow", "shrink", "ellipsis"];
+
+const num = (v: any) => (typeof v === "number" && isFinite(v) ? v : undefined);
+
+const NUMERALS: Numerals[] = ["arabic", "roman", "ROMAN"];
+
+const slots = (raw: any, fallback: RunningSlots): RunningSlots =>
+  raw && typeof raw === "object"
+    ? { left: String(raw.left ?? ""), center: String(raw.center ?? ""), right: String(raw.right ?? "") }
+    : { ...fallback };
+
+/**
+ * Valida un perfil venido de IndexedDB o del backend; descarta lo que no
+ * tenga la forma esperada en vez de fallar.
+ */
+export function normalizeProfile(raw: any): LayoutProfile | null {
+  if (!raw || typeof raw !== "object" || raw.version !== 1) return null;
+
+  const regions: TemplateRegions = {};
+  for (const kind of REGION_KINDS) {
+    if (isRect(raw.regions?.[kind])) regions[kind] = raw.regions[kind];
+  }
+
+  const typography: Typography = { ...DEFAULT_TYPOGRAPHY };
+  const set = <K extends keyof Typography>(key: K, v: Typography[K]) => {
+    typography[key] = v;
+  };
+  for (const key of Object.keys(DEFAULT_TYPOGRAPHY) as (keyof Typography)[]) {
+    const v = raw.typography?.[key];
+    if (typeof v === typeof DEFAULT_TYPOGRAPHY[key]) set(key, v);
+  }
+  if (!["left", "justify", "center"].includes(typography.align)) typography.align = "left";
+
+  const pages = raw.templatePages || {};
+  return {
+    version: 1,
+    fieldMapping: {
+      title: String(raw.fieldMapping?.title ?? ""),
+      body: String(raw.fieldMapping?.body ?? ""),
+    },
+    regions,
+    typography,
+    templatePages: {
+      first: num(pages.first) ?? 0,
+      continuation: num(pages.continuation) ?? 0,
+      continuationEven: num(pages.continuationEven) ?? null,
+      closing: num(pages.closing) ?? null,
+    },
+    fonts: {
+      titleFontId: String(raw.fonts?.titleFontId ?? ""),
+      bodyFontId: String(raw.fonts?.bodyFontId ?? ""),
+    },
+    formFill: {
+      mode: raw.formFill?.mode === "fill" ? "fill" : "draw",
+      flatten: raw.formFill?.flatten === true,
+      editable: Array.isArray(raw.formFill?.editable) ? raw.formFill.editable.map(String) : [],
+    },
+    fieldFit: {
+      policies: Object.fromEntries(
+        Object.entries(raw.fieldFit?.policies ?? {}).filter(([, v]) =>
+          FIT_POLICIES.includes(v as FieldFit)
+        )
+      ) as Record<string, FieldFit>,
+      minFontSize: num(raw.fieldFit?.minFontSize) ?? 6,
+    },
+    running: {
+      header: slots(raw.running?.header, DEFAULT_RUNNING.header),
+      footer: slots(raw.running?.footer, DEFAULT_RUNNING.footer),
+      skipFirst: raw.running?.skipFirst === true,
+      startAt: Math.max(1, Math.floor(num(raw.running?.startAt) ?? 1)),
+      numerals: NUMERALS.includes(raw.running?.numerals) ? raw.running.numerals : "arabic",
+      hideOnSinglePage: raw.running?.hideOnSinglePage !== false,
+    },
+    updatedAt: String(raw.updatedAt ?? ""),
+  };
+}
+
+export async function loadLocalProfile(templateName: string): Promise<LayoutProfile | null> {
+  try {
+    return normalizeProfile(await getTemplateLayout(templateName));
+  } catch (e) {
+    console.warn("No se pudo leer el perfil local", e);
+    return null;
+  }
+}
+
+export async function saveLocalProfile(templateName: string, profile: LayoutProfile) {
+  await saveTemplateLayout(templateName, profile);
+}
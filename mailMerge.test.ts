@@ -0,0 +1,17 @@
+import { describe, expect, it } from "vitest";
+import { reportToCsv } from "./mailMerge";
+
+/* ===== INFORME ===== */
+
+describe("reportToCsv", () => {
+  it("entrecomilla los valores con separadores, comillas o saltos (también un CR suelto)", () => {
+    const csv = reportToCsv([
+      { row: 1, fileName: "a.pdf", ok: true, pages: 2, warnings: ["celda\rpegada de Excel"] },
+      { row: 2, fileName: 'b "copia", final.pdf', ok: false, error: "sin; plantilla", warnings: [] },
+    ]);
+    const lines = csv.replace(/^\uFEFF/, "").split("\r\n");
+    expect(lines).toHaveLength(3);
+    expect(lines[1]).toBe('1;a.pdf;ok;2;;;"celda\rpegada de Excel"');
+    expect(lines[2]).toBe('2;"b ""copia"", final.pdf";error;;;;"sin; plantilla"');
+  });
+});
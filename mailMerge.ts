@@ -0,0 +1,242 @@
+import type { FieldValue, FormFieldInfo } from "./formFields";
+import { PLACEHOLDER_RX } from "./templateVars";
+
+/* ============================= */
+/* COMBINACIÓN (CSV / XLSX)      */
+/* ============================= */
+
+export type DataTable = {
+  columns: string[];
+  rows: Record<string, string>[];
+};
+
+/** Qué columna alimenta cada {{marcador}} y cada campo del formulario ("" = ninguna) */
+export type MergeMapping = {
+  placeholders: Record<string, string>;
+  fields: Record<string, string>;
+};
+
+export type MergeRowResult = {
+  /** Fila de datos (1-based, sin contar la cabecera) */
+  row: number;
+  fileName: string;
+  ok: boolean;
+  pages?: number;
+  /** Id del documento (el de {{id_documento}}) */
+  documentId?: string;
+  /** Marca de agua tal como se estampó (si se generó con ella) */
+  watermark?: string;
+  /** Código impreso al pie (si se generó con verificación) */
+  verificationCode?: string;
+  /** Contraseña de propietario sacada al azar (si no se eligió una): solo queda aquí */
+  ownerPassword?: string;
+  error?: string;
+  /** Marcadores sin valor, texto recortado… */
+  warnings: string[];
+};
+
+/* ===== LECTURA DE DATOS ===== */
+
+// Excel en español exporta con ";"; se elige el separador más frecuente de la cabecera
+const detectDelimiter = (firstLine: string) => {
+  const counts = [",", ";", "\t"].map((d) => ({ d, n: firstLine.split(d).length - 1 }));
+  counts.sort((a, b) => b.n - a.n);
+  return counts[0].n > 0 ? counts[0].d : ",";
+};
+
+/** Cabeceras vacías o repetidas pasan a "columna N" / "nombre (2)" */
+const uniqueColumns = (raw: string[]) => {
+  const seen = new Map<string, number>();
+  return raw.map((h, i) => {
+    const base = h.trim() || `columna ${i + 1}`;
+    const n = (seen.get(base) || 0) + 1;
+    seen.set(base, n);
+    return n > 1 ? `${base} (${n})` : base;
+  });
+};
+
+const toTable = (matrix: string[][]): DataTable => {
+  const [header = [], ...data] = matrix;
+  const columns = uniqueColumns(header.map(String));
+  const rows = data
+    .filter((cells) => cells.some((c) => String(c ?? "").trim() !== ""))
+    .map((cells) => {
+      const row: Record<string, string> = {};
+      columns.forEach((c, i) => (row[c] = String(cells[i] ?? "").trim()));
+      return row;
+    });
+  return { columns, rows };
+};
+
+/**
+ * CSV con comillas dobles (RFC 4180): campos entre comillas con separadores,
+ * saltos de línea y "" escapadas.
+ */
+export function parseCsv(text: string): DataTable {
+  const src = text.replace(/^\uFEFF/, "");
+  const delim = detectDelimiter(src.split(/\r?\n/, 1)[0] || "");
+
+  const matrix: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"' && cell === "") {
+      quoted = true;
+    } else if (ch === delim) {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(cell);
+      matrix.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    matrix.push(row);
+  }
+
+  return toTable(matrix);
+}
+
+/** Lee un .csv/.txt o la primera hoja de un .xlsx/.xls (SheetJS desde CDN) */
+export async function readDataFile(file: File): Promise<DataTable> {
+  const name = file.name.toLowerCase();
+  if (name.endsWith(".xlsx") || name.endsWith(".xls")) {
+    const XLSX = window.XLSX;
+    if (!XLSX) throw new Error("SheetJS no cargado");
+    const wb = XLSX.read(await file.arrayBuffer(), { type: "array", cellDates: true });
+    const ws = wb.Sheets[wb.SheetNames[0]];
+    if (!ws) throw new Error("El libro no tiene hojas");
+    // raw: false → el texto tal como se ve en Excel (fechas y números formateados)
+    const matrix: string[][] = XLSX.utils.sheet_to_json(ws, { header: 1, raw: false, defval: "" });
+    return toTable(matrix);
+  }
+  return parseCsv(await file.text());
+}
+
+/* ===== MAPEO ===== */
+
+const normalizeKey = (s: string) =>
+  s
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "");
+
+/** Empareja marcadores y campos con columnas del mismo nombre (sin tildes ni mayúsculas) */
+export function guessMapping(
+  columns: string[],
+  placeholders: string[],
+  fields: FormFieldInfo[]
+): MergeMapping {
+  const byKey = new Map(columns.map((c) => [normalizeKey(c), c]));
+  const guess = (name: string) => byKey.get(normalizeKey(name)) ?? "";
+  return {
+    placeholders: Object.fromEntries(placeholders.map((p) => [p, guess(p)])),
+    fields: Object.fromEntries(fields.map((f) => [f.name, guess(f.name)])),
+  };
+}
+
+const TRUE_RX = /^(s[ií]|x|true|verdadero|1|yes|ok)$/i;
+
+/**
+ * Valores de una fila: texto para los marcadores y, para los campos, lo que
+ * pida su tipo (las casillas aceptan sí/x/1/true).
+ */
+export function rowValues(
+  row: Record<string, string>,
+  mapping: MergeMapping,
+  fields: FormFieldInfo[]
+) {
+  const placeholders: Record<string, string> = {};
+  for (const [name, col] of Object.entries(mapping.placeholders)) {
+    if (col) placeholders[name] = row[col] ?? "";
+  }
+
+  const fieldValues: Record<string, FieldValue> = {};
+  for (const f of fields) {
+    const col = mapping.fields[f.name];
+    if (!col) continue;
+    const v = row[col] ?? "";
+    fieldValues[f.name] = f.kind === "checkbox" ? TRUE_RX.test(v.trim()) : v;
+  }
+
+  return { placeholders, fieldValues };
+}
+
+/* ===== NOMBRES DE ARCHIVO ===== */
+
+export const DEFAULT_FILENAME_PATTERN = "documento_{{n}}";
+
+/**
+ * Nombre del PDF de una fila a partir del patrón: admite las columnas como
+ * {{columna}} y {{n}} (número de fila). Se quitan los caracteres que no
+ * valen en un nombre de archivo y se evitan repeticiones dentro del ZIP.
+ */
+export function fileNameFor(
+  pattern: string,
+  row: Record<string, string>,
+  n: number,
+  used: Set<string>
+): string {
+  const raw = (pattern || DEFAULT_FILENAME_PATTERN).replace(PLACEHOLDER_RX, (_, name: string) =>
+    name === "n" ? String(n) : row[name] ?? ""
+  );
+  const base =
+    raw
+      .replace(/\.pdf$/i, "")
+      .replace(/[\\/:*?"<>|\u0000-\u001f]+/g, "_")
+      .replace(/\s+/g, " ")
+      .trim()
+      .slice(0, 120) || `documento_${n}`;
+
+  let name = `${base}.pdf`;
+  for (let k = 2; used.has(name.toLowerCase()); k++) name = `${base} (${k}).pdf`;
+  used.add(name.toLowerCase());
+  return name;
+}
+
+/* ===== INFORME ===== */
+
+const csvCell = (v: string | number | undefined) => {
+  const s = String(v ?? "");
+  return /[";,\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+/** Informe por fila en CSV (separador ";", como lo abre Excel en español) */
+export function reportToCsv(results: MergeRowResult[]): string {
+  const lines = [["fila", "archivo", "estado", "paginas", "codigo_verificacion", "contrasena_propietario", "detalle"].join(";")];
+  for (const r of results) {
+    lines.push(
+      [
+        r.row,
+        r.fileName,
+        r.ok ? "ok" : "error",
+        r.pages,
+        r.verificationCode,
+        r.ownerPassword,
+        [r.error, ...r.warnings].filter(Boolean).join(" | "),
+      ]
+        .map(csvCell)
+        .join(";")
+    );
+  }
+  return "\uFEFF" + lines.join("\r\n");
+}
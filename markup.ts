@@ -0,0 +1,210 @@
+/* ============================= */
+/* MARCADO LIGERO DEL CUERPO     */
+/* ============================= */
+
+/**
+ * Sintaxis soportada (una línea = un renglón, línea en blanco = párrafo nuevo):
+ *   # Título / ## Subtítulo / ### Sección
+ *   **negrita**, *cursiva*, ***ambas***  (\* para un asterisco literal)
+ *   - viñeta / 1. numerada  (dos espacios de sangría por nivel)
+ *   > cita
+ *   | celda | celda |  (tabla; una fila |---| marca la anterior como encabezado)
+ *   ![texto alternativo](img:1)  (imagen en su propio renglón)
+ *   [salto de página]  (solo en su renglón: sigue en una página nueva)
+ */
+
+export type TextRun = { text: string; bold?: boolean; italic?: boolean };
+
+/** Un renglón lógico (salto de línea simple dentro del bloque) */
+export type RunLine = TextRun[];
+
+export type DocBlock =
+  | { type: "heading"; level: 1 | 2 | 3; lines: RunLine[] }
+  | { type: "paragraph"; lines: RunLine[] }
+  | {
+      type: "list-item";
+      ordered: boolean;
+      marker: string;
+      depth: number;
+      /** true si sigue a otro elemento de lista sin línea en blanco */
+      tight: boolean;
+      lines: RunLine[];
+    }
+  | { type: "quote"; lines: RunLine[] }
+  | { type: "table"; rows: RunLine[][]; headerRows: number }
+  | { type: "image"; src: string; alt: string }
+  | { type: "page-break" };
+
+const HEADING_RX = /^(#{1,6})\s+(.*)$/;
+const LIST_RX = /^(\s*)([-*+•]|\d+[.)])\s+(.*)$/;
+const QUOTE_RX = /^>\s?(.*)$/;
+const TABLE_RX = /^\|.*\|$/;
+const TABLE_SEP_RX = /^\|(\s*:?-{3,}:?\s*\|)+$/;
+const IMAGE_RX = /^!\[([^\]]*)\]\(([^)\s]+)\)$/;
+const PAGE_BREAK_RX = /^\[salto de p[aá]gina\]$/i;
+
+const INLINE_RX =
+  /\*\*\*(?=\S)(.+?)(?<=\S)\*\*\*|\*\*(?=\S)(.+?)(?<=\S)\*\*|\*(?=\S)([^*]+?)(?<=\S)\*/;
+
+const ESCAPED_STAR = "\uE000";
+
+const sameStyle = (a: TextRun, b: TextRun) => !!a.bold === !!b.bold && !!a.italic === !!b.italic;
+
+function parseInlineInto(
+  text: string,
+  style: { bold?: boolean; italic?: boolean },
+  out: TextRun[]
+) {
+  let rest = text;
+  while (rest) {
+    const m = INLINE_RX.exec(rest);
+    if (!m) {
+      out.push({ text: rest, ...style });
+      return;
+    }
+    if (m.index > 0) out.push({ text: rest.slice(0, m.index), ...style });
+
+    if (m[1] !== undefined) parseInlineInto(m[1], { bold: true, italic: true }, out);
+    else if (m[2] !== undefined) parseInlineInto(m[2], { ...style, bold: true }, out);
+    else parseInlineInto(m[3], { ...style, italic: true }, out);
+
+    rest = rest.slice(m.index + m[0].length);
+  }
+}
+
+/** Convierte **negrita** / *cursiva* de un renglón en runs con estilo */
+export function parseInline(line: string): RunLine {
+  const raw: TextRun[] = [];
+  parseInlineInto(line.replace(/\\\*/g, ESCAPED_STAR), {}, raw);
+
+  const runs: TextRun[] = [];
+  for (const r of raw) {
+    const run = { ...r, text: r.text.split(ESCAPED_STAR).join("*") };
+    if (!run.text) continue;
+    const prev = runs[runs.length - 1];
+    if (prev && sameStyle(prev, run)) prev.text += run.text;
+    else runs.push(run);
+  }
+  return runs;
+}
+
+const splitCells = (line: string) =>
+  line
+    .replace(/^\|/, "")
+    .replace(/\|$/, "")
+    .split(/(?<!\\)\|/)
+    .map((c) => parseInline(c.trim().replace(/\\\|/g, "|")));
+
+/** Texto plano de un renglón (sin marcas) */
+export const runLineText = (line: RunLine) => line.map((r) => r.text).join("");
+
+/**
+ * Parte el cuerpo en bloques. Texto sin marcas produce solo párrafos,
+ * igual que antes (los saltos simples se respetan como renglones).
+ */
+export function parseMarkup(body: string): DocBlock[] {
+  const blocks: DocBlock[] = [];
+  let current: DocBlock | null = null;
+  let afterBlank = true;
+
+  for (const rawLine of body.split("\n")) {
+    const line = rawLine.replace(/\s+$/g, "");
+
+    if (!line.trim()) {
+      current = null;
+      afterBlank = true;
+      continue;
+    }
+
+    const trimmed = line.trim();
+    const heading = HEADING_RX.exec(trimmed);
+    const list = LIST_RX.exec(line);
+    const quote = QUOTE_RX.exec(trimmed);
+    const image = IMAGE_RX.exec(trimmed);
+
+    if (PAGE_BREAK_RX.test(trimmed)) {
+      blocks.push({ type: "page-break" });
+      current = null;
+    } else if (TABLE_RX.test(trimmed)) {
+      if (current?.type !== "table") {
+        current = { type: "table", rows: [], headerRows: 0 };
+        blocks.push(current);
+      }
+      if (TABLE_SEP_RX.test(trimmed)) current.headerRows = current.rows.length;
+      else current.rows.push(splitCells(trimmed));
+    } else if (image) {
+      blocks.push({ type: "image", alt: image[1], src: image[2] });
+      current = null;
+    } else if (heading) {
+      const level = Math.min(3, heading[1].length) as 1 | 2 | 3;
+      blocks.push({ type: "heading", level, lines: [parseInline(heading[2].trim())] });
+      current = null;
+    } else if (list) {
+      const prev = blocks[blocks.length - 1];
+      const ordered = /\d/.test(list[2]);
+      current = {
+        type: "list-item",
+        ordered,
+        marker: ordered ? list[2].replace(")", ".") : "•",
+        depth: Math.min(4, Math.floor(list[1].replace(/\t/g, "  ").length / 2)),
+        tight: !afterBlank && prev?.type === "list-item",
+        lines: [parseInline(list[3].trim())],
+      };
+      blocks.push(current);
+    } else if (quote) {
+      if (current?.type === "quote") {
+        current.lines.push(parseInline(quote[1].trim()));
+      } else {
+        current = { type: "quote", lines: [parseInline(quote[1].trim())] };
+        blocks.push(current);
+      }
+    } else if (
+      current &&
+      (current.type === "paragraph" || current.type === "list-item" || current.type === "quote")
+    ) {
+      // renglón siguiente del mismo párrafo / viñeta / cita
+      current.lines.push(parseInline(line.trim()));
+    } else {
+      current = { type: "paragraph", lines: [parseInline(line.trim())] };
+      blocks.push(current);
+    }
+
+    afterBlank = false;
+  }
+
+  return blocks;
+}
+
+/**
+ * Índice del bloque (en el orden de parseMarkup) donde cae la posición
+ * `offset` del cuerpo; en una línea en blanco, el bloque anterior.
+ */
+export function blockIndexAt(body: string, offset: number): number {
+  const lineEnd = body.indexOf("\n", offset);
+  const count = parseMarkup(body.slice(0, lineEnd < 0 ? body.length : lineEnd)).length;
+  return Math.max(0, count - 1);
+}
+
+const NUMBERED_HEADING_RX = /^(\d{1,2}(?:\.\d{1,2}){0,2})[.)]?\s+\S/;
+const SECTION_WORD_RX = /^(cap[ií]tulo|unidad|m[oó]dulo|tema|parte|lecci[oó]n|anexo)\b/i;
+
+/**
+ * Nivel de un bloque en el índice: el de sus `#` o, con `guess`, el de un
+ * párrafo de un solo renglón que parece título en texto sin marcas
+ * ("1.2 Objetivos", "Capítulo 3", una línea en MAYÚSCULAS…).
+ */
+export function headingLevelOf(block: DocBlock, guess: boolean): 1 | 2 | 3 | null {
+  if (block.type === "heading") return block.level;
+  if (!guess || block.type !== "paragraph" || block.lines.length !== 1) return null;
+
+  const text = runLineText(block.lines[0]).trim();
+  if (text.length < 3 || text.length > 90 || /[.,;:]$/.test(text)) return null;
+
+  const numbered = NUMBERED_HEADING_RX.exec(text);
+  if (numbered) return Math.min(3, numbered[1].split(".").length) as 1 | 2 | 3;
+  if (SECTION_WORD_RX.test(text)) return 1;
+
+  const letters = text.replace(/[^\p{L}]/gu, "");
+  if (letters.length >= 4 && letters === letters.toUpperCase() && letters !== letters.toLowerCase()) return 1;
+  return null;
+}
@@ -0,0 +1,208 @@
+import { PDFArray, PDFDict, PDFDocument, PDFHexString, PDFName } from "pdf-lib";
+
+/* ============================= */
+/* METADATOS Y SALIDA DE ARCHIVO */
+/* ============================= */
+
+export type DocMetadata = {
+  title: string;
+  author: string;
+  subject: string;
+  keywords: string[];
+  /** Etiqueta BCP 47, p. ej. "es-ES" */
+  language: string;
+};
+
+/**
+ * "standard": el PDF de siempre, con metadatos. "archival": orientado a
+ * PDF/A-2b (XMP, perfil de color sRGB, fuentes incrustadas e ID); no se
+ * valida contra la norma, así que conviene pasarlo por veraPDF si se exige.
+ */
+export type OutputProfile = "standard" | "archival";
+
+export const OUTPUT_PROFILE_LABELS: Record<OutputProfile, string> = {
+  standard: "Estándar",
+  archival: "Archivo (PDF/A)",
+};
+
+export const PRODUCER = "Generador de Documentos – Plataforma Educativa Horacio Marchand";
+
+/** Escribe título, autor, asunto, palabras clave e idioma en el diccionario Info */
+export function applyMetadata(pdfDoc: PDFDocument, meta: DocMetadata, date: Date) {
+  if (meta.title) pdfDoc.setTitle(meta.title, { showInWindowTitleBar: true });
+  if (meta.author) pdfDoc.setAuthor(meta.author);
+  if (meta.subject) pdfDoc.setSubject(meta.subject);
+  if (meta.keywords.length) pdfDoc.setKeywords(meta.keywords);
+  if (meta.language) pdfDoc.setLanguage(meta.language);
+  pdfDoc.setCreator(PRODUCER);
+  pdfDoc.setProducer(PRODUCER);
+  pdfDoc.setCreationDate(date);
+  pdfDoc.setModificationDate(date);
+}
+
+/* ===== PERFIL DE COLOR sRGB (ICC v2) ===== */
+
+// Perfil de monitor mínimo: primarios sRGB adaptados a D50 y gamma 2,2.
+// Se arma aquí para no depender de un .icc externo.
+let srgbCache: Uint8Array | null = null;
+
+export function srgbIccProfile(): Uint8Array {
+  if (srgbCache) return srgbCache;
+
+  const ascii = (s: string) => Array.from(s, (c) => c.charCodeAt(0));
+  const u32 = (n: number) => [(n >>> 24) & 255, (n >>> 16) & 255, (n >>> 8) & 255, n & 255];
+  const s15 = (v: number) => u32(Math.round(v * 65536) | 0);
+  const xyz = (x: number, y: number, z: number) => [...ascii("XYZ "), 0, 0, 0, 0, ...s15(x), ...s15(y), ...s15(z)];
+
+  const name = "sRGB IEC61966-2.1";
+  const desc = [
+    ...ascii("desc"), 0, 0, 0, 0,
+    ...u32(name.length + 1), ...ascii(name), 0,
+    ...u32(0), ...u32(0), // sin descripción Unicode
+    0, 0, 0, ...new Array(67).fill(0), // ni ScriptCode
+  ];
+  const cprt = [...ascii("text"), 0, 0, 0, 0, ...ascii("No copyright, use freely"), 0];
+  const trc = [...ascii("curv"), 0, 0, 0, 0, ...u32(1), 0x02, 0x33]; // gamma 2,2 (u8Fixed8)
+
+  const tags: [string, number[]][] = [
+    ["desc", desc],
+    ["cprt", cprt],
+    ["wtpt", xyz(0.9642, 1.0, 0.8249)],
+    ["rXYZ", xyz(0.4361, 0.2225, 0.0139)],
+    ["gXYZ", xyz(0.3851, 0.7169, 0.0971)],
+    ["bXYZ", xyz(0.1431, 0.0606, 0.7141)],
+    ["rTRC", trc],
+    ["gTRC", trc],
+    ["bTRC", trc],
+  ];
+
+  const pad4 = (a: number[]) => a.concat(new Array((4 - (a.length % 4)) % 4).fill(0));
+  const tableSize = 4 + tags.length * 12;
+  let offset = 128 + tableSize;
+  const table: number[] = [...u32(tags.length)];
+  const data: number[] = [];
+  for (const [sig, bytes] of tags) {
+    table.push(...ascii(sig), ...u32(offset), ...u32(bytes.length));
+    const padded = pad4(bytes);
+    data.push(...padded);
+    offset += padded.length;
+  }
+
+  const size = offset;
+  const header = [
+    ...u32(size),
+    0, 0, 0, 0, // CMM
+    0x02, 0x10, 0, 0, // versión 2.1
+    ...ascii("mntr"),
+    ...ascii("RGB "),
+    ...ascii("XYZ "),
+    ...[2024, 1, 1, 0, 0, 0].flatMap((n) => [(n >> 8) & 255, n & 255]),
+    ...ascii("acsp"),
+    ...new Array(24).fill(0), // plataforma, flags, fabricante, modelo, atributos
+    ...u32(0), // intención: perceptual
+    ...s15(0.9642), ...s15(1.0), ...s15(0.8249), // iluminante D50
+    ...new Array(48).fill(0), // creador y reservado
+  ];
+
+  srgbCache = new Uint8Array([...header, ...table, ...data]);
+  return srgbCache;
+}
+
+/* ===== XMP ===== */
+
+const xml = (s: string) =>
+  s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+function xmpPacket(meta: DocMetadata, date: Date, documentId: string) {
+  const iso = date.toISOString().replace(/\.\d{3}Z$/, "Z");
+  const alt = (tag: string, value: string) =>
+    value
+      ? `<${tag}><rdf:Alt><rdf:li xml:lang="x-default">${xml(value)}</rdf:li></rdf:Alt></${tag}>`
+      : "";
+  return [
+    '<?xpacket begin="﻿" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '<rdf:Description rdf:about=""',
+    ' xmlns:dc="http://purl.org/dc/elements/1.1/"',
+    ' xmlns:xmp="http://ns.adobe.com/xap/1.0/"',
+    ' xmlns:xmpMM="http://ns.adobe.com/xap/1.0/mm/"',
+    ' xmlns:pdf="http://ns.adobe.com/pdf/1.3/"',
+    ' xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/">',
+    "<dc:format>application/pdf</dc:format>",
+    alt("dc:title", meta.title),
+    meta.author ? `<dc:creator><rdf:Seq><rdf:li>${xml(meta.author)}</rdf:li></rdf:Seq></dc:creator>` : "",
+    alt("dc:description", meta.subject),
+    meta.language ? `<dc:language><rdf:Bag><rdf:li>${xml(meta.language)}</rdf:li></rdf:Bag></dc:language>` : "",
+    meta.keywords.length ? `<pdf:Keywords>${xml(meta.keywords.join(" "))}</pdf:Keywords>` : "",
+    `<pdf:Producer>${xml(PRODUCER)}</pdf:Producer>`,
+    `<xmp:CreatorTool>${xml(PRODUCER)}</xmp:CreatorTool>`,
+    `<xmp:CreateDate>${iso}</xmp:CreateDate>`,
+    `<xmp:ModifyDate>${iso}</xmp:ModifyDate>`,
+    `<xmp:MetadataDate>${iso}</xmp:MetadataDate>`,
+    documentId ? `<xmpMM:DocumentID>uuid:${xml(documentId)}</xmpMM:DocumentID>` : "",
+    "<pdfaid:part>2</pdfaid:part>",
+    "<pdfaid:conformance>B</pdfaid:conformance>",
+    "</rdf:Description>",
+    "</rdf:RDF>",
+    "</x:xmpmeta>",
+    '<?xpacket end="w"?>',
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+/** Fuentes del documento que no van incrustadas (las estándar de la plantilla, la /Helv de un formulario…) */
+function nonEmbeddedFonts(pdfDoc: PDFDocument): string[] {
+  const names = new Set<string>();
+  const fontFile = ["FontFile", "FontFile2", "FontFile3"].map((k) => PDFName.of(k));
+  for (const [, obj] of pdfDoc.context.enumerateIndirectObjects()) {
+    if (!(obj instanceof PDFDict)) continue;
+    const type = obj.get(PDFName.of("Type"));
+    const subtype = obj.lookup(PDFName.of("Subtype"));
+    if (type === PDFName.of("Font") && subtype !== PDFName.of("Type0") && subtype !== PDFName.of("Type3")) {
+      const descriptor = obj.lookup(PDFName.of("FontDescriptor"));
+      const embedded = descriptor instanceof PDFDict && fontFile.some((k) => descriptor.has(k));
+      if (!embedded) names.add(String(obj.lookup(PDFName.of("BaseFont")) ?? "?").replace(/^\//, ""));
+    }
+  }
+  return Array.from(names);
+}
+
+/**
+ * Deja el documento listo para archivo: XMP con los mismos datos que Info,
+ * intención de salida sRGB e ID en el trailer. Devuelve lo que impide que
+ * sea PDF/A de verdad (fuentes sin incrustar).
+ */
+export async function makeArchival(
+  pdfDoc: PDFDocument,
+  meta: DocMetadata,
+  date: Date,
+  documentId: string
+): Promise<string[]> {
+  const { context, catalog } = pdfDoc;
+
+  const xmp = context.stream(new TextEncoder().encode(xmpPacket(meta, date, documentId)), {
+    Type: "Metadata",
+    Subtype: "XML",
+  });
+  catalog.set(PDFName.of("Metadata"), context.register(xmp));
+
+  const icc = context.register(context.flateStream(srgbIccProfile(), { N: 3 }));
+  const intent = context.obj({
+    Type: "OutputIntent",
+    S: "GTS_PDFA1",
+    OutputConditionIdentifier: PDFHexString.fromText("sRGB IEC61966-2.1"),
+    Info: PDFHexString.fromText("sRGB IEC61966-2.1"),
+    DestOutputProfile: icc,
+  });
+  catalog.set(PDFName.of("OutputIntents"), context.obj([intent]) as PDFArray);
+
+  // El ID del trailer sale del id del documento (el mismo del historial)
+  const hex = (documentId.replace(/[^0-9a-f]/gi, "") + "0".repeat(32)).slice(0, 32);
+  context.trailerInfo.ID = context.obj([PDFHexString.of(hex), PDFHexString.of(hex)]);
+
+  // las fuentes se escriben al guardar: hay que volcarlas antes de revisarlas
+  await pdfDoc.flush();
+  return nonEmbeddedFonts(pdfDoc).map((f) => `La fuente "${f}" no va incrustada en el PDF.`);
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { PDFDocument, StandardFonts } from "pdf-lib";
+import * as pdfjs from "pdfjs-dist/legacy/build/pdf.js";
+import { EncryptionAlgorithm, encryptPdf } from "./pdfEncrypt";
+import { LOCKED_PERMISSIONS } from "./protection";
+
+const TEXT = "Contenido cifrado de prueba";
+
+async function samplePdf(): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  doc.addPage().drawText(TEXT, { x: 50, y: 700, size: 14, font });
+  doc.setTitle("Informe trimestral");
+  return doc.save();
+}
+
+const open = (data: Uint8Array, password?: string) =>
+  pdfjs.getDocument({ data: data.slice(), password, verbosity: 0 }).promise;
+
+/** Texto de la primera hoja, título de la información del documento y permisos */
+async function readBack(data: Uint8Array, password?: string) {
+  const pdf = await open(data, password);
+  const { items } = await (await pdf.getPage(1)).getTextContent();
+  const { info } = await pdf.getMetadata();
+  const permissions = await pdf.getPermissions();
+  await pdf.destroy();
+  return {
+    text: items.map((it) => ("str" in it ? it.str : "")).join(""),
+    title: (info as { Title?: string }).Title,
+    permissions,
+  };
+}
+
+/* ===== IDA Y VUELTA CON PDF.JS ===== */
+
+describe.each<EncryptionAlgorithm>(["rc4-128", "aes-128", "aes-256"])("encryptPdf %s", (algorithm) => {
+  it("se abre sin contraseña de apertura y conserva texto, metadatos y permisos", async () => {
+    const out = await encryptPdf(await samplePdf(), {
+      userPassword: "",
+      ownerPassword: "propietario",
+      permissions: LOCKED_PERMISSIONS,
+      algorithm,
+    });
+    const back = await readBack(out);
+    expect(back.text).toBe(TEXT);
+    expect(back.title).toBe("Informe trimestral");
+    // imprimir (4) y copiar (16) quedan fuera; la accesibilidad (512) siempre va
+    expect(back.permissions).not.toContain(pdfjs.PermissionFlag.PRINT);
+    expect(back.permissions).not.toContain(pdfjs.PermissionFlag.COPY);
+    expect(back.permissions).toContain(pdfjs.PermissionFlag.COPY_FOR_ACCESSIBILITY);
+  });
+
+  it("pide la contraseña de apertura y acepta también la de propietario", async () => {
+    const out = await encryptPdf(await samplePdf(), {
+      userPassword: "abrir ñandú",
+      ownerPassword: "propietario",
+      permissions: { printing: "high", copying: true, fillingForms: true, annotating: true },
+      algorithm,
+    });
+    await expect(open(out)).rejects.toMatchObject({ name: "PasswordException" });
+    await expect(open(out, "otra")).rejects.toMatchObject({ name: "PasswordException" });
+    expect((await readBack(out, "abrir ñandú")).text).toBe(TEXT);
+    expect((await readBack(out, "propietario")).text).toBe(TEXT);
+  });
+});
@@ -0,0 +1,347 @@
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFObject,
+  PDFRawStream,
+  PDFRef,
+  PDFString,
+} from "pdf-lib";
+import type { PdfPermissions } from "./protection";
+
+/* ============================= */
+/* CIFRADO EN EL NAVEGADOR       */
+/* ============================= */
+
+// Manejador de seguridad estándar de PDF (ISO 32000): RC4 de 128 bits (R3),
+// AES-128 (R4) y AES-256 (R6). pdf-lib no cifra, así que se recorre el
+// documento ya guardado y se cifran a mano cadenas y streams.
+
+export type EncryptionAlgorithm = "rc4-128" | "aes-128" | "aes-256";
+
+export type EncryptOptions = {
+  userPassword: string;
+  /** No puede ir vacía: sin ella cualquiera quita las restricciones */
+  ownerPassword: string;
+  permissions: PdfPermissions;
+  algorithm: EncryptionAlgorithm;
+};
+
+/* ===== PRIMITIVAS ===== */
+
+const MD5_S = [7, 12, 17, 22, 5, 9, 14, 20, 4, 11, 16, 23, 6, 10, 15, 21];
+const MD5_K = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32) >>> 0);
+
+/** MD5 (RFC 1321); WebCrypto no lo trae y R3/R4 lo necesitan */
+export function md5(data: Uint8Array): Uint8Array {
+  const total = (Math.floor((data.length + 8) / 64) + 1) * 64;
+  const buf = new Uint8Array(total);
+  buf.set(data);
+  buf[data.length] = 0x80;
+  const view = new DataView(buf.buffer);
+  view.setUint32(total - 8, (data.length * 8) >>> 0, true);
+  view.setUint32(total - 4, Math.floor(data.length / 2 ** 29), true);
+
+  let a0 = 0x67452301;
+  let b0 = 0xefcdab89;
+  let c0 = 0x98badcfe;
+  let d0 = 0x10325476;
+  for (let off = 0; off < total; off += 64) {
+    let a = a0;
+    let b = b0;
+    let c = c0;
+    let d = d0;
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+      f = (f + a + MD5_K[i] + view.getUint32(off + g * 4, true)) | 0;
+      const s = MD5_S[(i >> 4) * 4 + (i % 4)];
+      a = d;
+      d = c;
+      c = b;
+      b = (b + ((f << s) | (f >>> (32 - s)))) | 0;
+    }
+    a0 = (a0 + a) | 0;
+    b0 = (b0 + b) | 0;
+    c0 = (c0 + c) | 0;
+    d0 = (d0 + d) | 0;
+  }
+
+  const out = new Uint8Array(16);
+  const ov = new DataView(out.buffer);
+  [a0, b0, c0, d0].forEach((w, i) => ov.setUint32(i * 4, w, true));
+  return out;
+}
+
+export function rc4(key: Uint8Array, data: Uint8Array): Uint8Array {
+  const s = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) s[i] = i;
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + s[i] + key[i % key.length]) & 255;
+    [s[i], s[j]] = [s[j], s[i]];
+  }
+  const out = new Uint8Array(data.length);
+  for (let k = 0, i = 0, j = 0; k < data.length; k++) {
+    i = (i + 1) & 255;
+    j = (j + s[i]) & 255;
+    [s[i], s[j]] = [s[j], s[i]];
+    out[k] = data[k] ^ s[(s[i] + s[j]) & 255];
+  }
+  return out;
+}
+
+const concat = (...parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let off = 0;
+  for (const p of parts) {
+    out.set(p, off);
+    off += p.length;
+  }
+  return out;
+};
+
+const randomBytes = (n: number) => crypto.getRandomValues(new Uint8Array(n));
+
+const toHex = (b: Uint8Array) => Array.from(b, (x) => x.toString(16).padStart(2, "0")).join("");
+
+const aesKey = (key: Uint8Array) =>
+  crypto.subtle.importKey("raw", key, { name: "AES-CBC" }, false, ["encrypt"]);
+
+/**
+ * AES-CBC. WebCrypto siempre añade relleno PKCS#7; cuando el algoritmo pide
+ * cifrar sin relleno (datos múltiplos de 16) basta con quitar el último bloque.
+ */
+async function aesCbc(key: CryptoKey, iv: Uint8Array, data: Uint8Array, padding = true) {
+  const out = new Uint8Array(await crypto.subtle.encrypt({ name: "AES-CBC", iv }, key, data));
+  return padding ? out : out.slice(0, data.length);
+}
+
+const sha = async (alg: "SHA-256" | "SHA-384" | "SHA-512", data: Uint8Array) =>
+  new Uint8Array(await crypto.subtle.digest(alg, data));
+
+/* ===== CLAVES Y DICCIONARIO /Encrypt ===== */
+
+const PASSWORD_PAD = new Uint8Array([
+  0x28, 0xbf, 0x4e, 0x5e, 0x4e, 0x75, 0x8a, 0x41, 0x64, 0x00, 0x4e, 0x56, 0xff, 0xfa, 0x01, 0x08,
+  0x2e, 0x2e, 0x00, 0xb6, 0xd0, 0x68, 0x3e, 0x80, 0x2f, 0x0c, 0xa9, 0xfe, 0x64, 0x53, 0x69, 0x7a,
+]);
+
+/** R3/R4: la contraseña en Latin-1 (lo que no cabe, "?") completada a 32 bytes */
+const padPassword = (pw: string) => {
+  const bytes = Array.from(pw.slice(0, 32), (ch) => (ch.charCodeAt(0) < 256 ? ch.charCodeAt(0) : 0x3f));
+  return concat(new Uint8Array(bytes), PASSWORD_PAD).slice(0, 32);
+};
+
+/** R6: UTF-8 normalizada (aproximación de SASLprep), hasta 127 bytes */
+const utf8Password = (pw: string) => new TextEncoder().encode(pw.normalize("NFKC")).slice(0, 127);
+
+/**
+ * Valor /P: bits 3 (imprimir), 5 (copiar), 6 (comentar), 9 (rellenar),
+ * 10 (accesibilidad, siempre) y 12 (impresión de alta calidad). Modificar
+ * y reordenar páginas nunca se permiten.
+ */
+export function permissionFlags(p: PdfPermissions): number {
+  let flags = 0xfffff0c0; // bits reservados en 1 (7-8 y 13-32)
+  const bit = (n: number) => 1 << (n - 1);
+  if (p.printing !== "none") flags |= bit(3);
+  if (p.printing === "high") flags |= bit(12);
+  if (p.copying) flags |= bit(5);
+  if (p.annotating) flags |= bit(6);
+  if (p.fillingForms) flags |= bit(9);
+  flags |= bit(10);
+  return flags | 0;
+}
+
+const int32le = (n: number) => {
+  const b = new Uint8Array(4);
+  new DataView(b.buffer).setInt32(0, n, true);
+  return b;
+};
+
+/** R3/R4 (algoritmos 2, 3 y 5 de la norma): clave de 128 bits, /O y /U */
+function legacyKeys(opts: EncryptOptions, p: number, id: Uint8Array) {
+  const rounds = (seed: Uint8Array) => {
+    let h = md5(seed);
+    for (let i = 0; i < 50; i++) h = md5(h);
+    return h;
+  };
+  const xorRounds = (key: Uint8Array, data: Uint8Array) => {
+    let out = rc4(key, data);
+    for (let i = 1; i <= 19; i++) out = rc4(key.map((b) => b ^ i), out);
+    return out;
+  };
+
+  const ownerKey = rounds(padPassword(opts.ownerPassword || opts.userPassword));
+  const O = xorRounds(ownerKey, padPassword(opts.userPassword));
+
+  const key = rounds(concat(padPassword(opts.userPassword), O, int32le(p), id));
+  const U = concat(xorRounds(key, md5(concat(PASSWORD_PAD, id))), new Uint8Array(16));
+  return { key, O, U };
+}
+
+/** R6 (algoritmo 2.B): hash iterado con SHA-256/384/512 y AES-128 */
+async function hashR6(password: Uint8Array, salt: Uint8Array, udata: Uint8Array) {
+  let k = await sha("SHA-256", concat(password, salt, udata));
+  for (let round = 0; ; round++) {
+    const block = concat(password, k, udata);
+    const k1 = new Uint8Array(block.length * 64);
+    for (let i = 0; i < 64; i++) k1.set(block, i * block.length);
+    const e = await aesCbc(await aesKey(k.slice(0, 16)), k.slice(16, 32), k1, false);
+    const mod = e.slice(0, 16).reduce((n, b) => n + b, 0) % 3;
+    k = await sha(mod === 0 ? "SHA-256" : mod === 1 ? "SHA-384" : "SHA-512", e);
+    if (round >= 63 && e[e.length - 1] <= round - 31) break;
+  }
+  return k.slice(0, 32);
+}
+
+/** R6: clave aleatoria de 256 bits protegida con cada contraseña (/U, /UE, /O, /OE) y /Perms */
+async function aes256Keys(opts: EncryptOptions, p: number) {
+  const key = randomBytes(32);
+  const zeroIv = new Uint8Array(16);
+  const user = utf8Password(opts.userPassword);
+  const owner = utf8Password(opts.ownerPassword || opts.userPassword);
+
+  const [uValidation, uKey, oValidation, oKey] = [8, 8, 8, 8].map(randomBytes);
+  const U = concat(await hashR6(user, uValidation, new Uint8Array()), uValidation, uKey);
+  const UE = await aesCbc(await aesKey(await hashR6(user, uKey, new Uint8Array())), zeroIv, key, false);
+  const O = concat(await hashR6(owner, oValidation, U), oValidation, oKey);
+  const OE = await aesCbc(await aesKey(await hashR6(owner, oKey, U)), zeroIv, key, false);
+
+  // /Perms: P + "adb" cifrado en ECB (un solo bloque: CBC con IV cero)
+  const perms = concat(int32le(p), new Uint8Array([0xff, 0xff, 0xff, 0xff]), new TextEncoder().encode("Tadb"), randomBytes(4));
+  const Perms = await aesCbc(await aesKey(key), zeroIv, perms, false);
+  return { key, U, UE, O, OE, Perms };
+}
+
+/* ===== CIFRADO DEL DOCUMENTO ===== */
+
+type Cipher = (data: Uint8Array) => Promise<Uint8Array>;
+
+/**
+ * Cifra un PDF ya generado con el manejador estándar. Las cadenas y los
+ * streams se cifran por objeto; el diccionario /Encrypt y el /ID quedan en
+ * claro, como pide la norma. Se guarda sin object streams para que cada
+ * objeto lleve su propio cifrado.
+ */
+export async function encryptPdf(bytes: Uint8Array, opts: EncryptOptions): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.load(bytes, { updateMetadata: false });
+  const { context } = pdfDoc;
+  const p = permissionFlags(opts.permissions);
+
+  // El /ID entra en la clave de R3/R4: si no hay, se crea
+  let idArray = context.lookup(context.trailerInfo.ID);
+  if (!(idArray instanceof PDFArray)) {
+    const id = PDFHexString.of(toHex(randomBytes(16)));
+    idArray = context.obj([id, id]);
+    context.trailerInfo.ID = idArray;
+  }
+  const firstId = (idArray as PDFArray).lookup(0);
+  const idBytes = firstId instanceof PDFHexString || firstId instanceof PDFString ? firstId.asBytes() : new Uint8Array();
+
+  let encryptDict: PDFDict;
+  let cipherFor: (ref: PDFRef) => Promise<Cipher>;
+
+  if (opts.algorithm === "aes-256") {
+    const k = await aes256Keys(opts, p);
+    const fileKey = await aesKey(k.key);
+    const cipher: Cipher = async (data) => {
+      const iv = randomBytes(16);
+      return concat(iv, await aesCbc(fileKey, iv, data));
+    };
+    cipherFor = async () => cipher;
+    encryptDict = context.obj({
+      Filter: "Standard",
+      V: 5,
+      R: 6,
+      Length: 256,
+      CF: { StdCF: { CFM: "AESV3", AuthEvent: "DocOpen", Length: 32 } },
+      StmF: "StdCF",
+      StrF: "StdCF",
+      O: PDFHexString.of(toHex(k.O)),
+      U: PDFHexString.of(toHex(k.U)),
+      OE: PDFHexString.of(toHex(k.OE)),
+      UE: PDFHexString.of(toHex(k.UE)),
+      P: p,
+      Perms: PDFHexString.of(toHex(k.Perms)),
+    });
+  } else {
+    const aes = opts.algorithm === "aes-128";
+    const { key, O, U } = legacyKeys(opts, p, idBytes);
+    // Cada objeto tiene su clave: MD5(clave + número + generación [+ "sAlT"])
+    cipherFor = async (ref) => {
+      const suffix = new Uint8Array([
+        ref.objectNumber & 255,
+        (ref.objectNumber >> 8) & 255,
+        (ref.objectNumber >> 16) & 255,
+        ref.generationNumber & 255,
+        (ref.generationNumber >> 8) & 255,
+      ]);
+      const objKey = md5(concat(key, suffix, aes ? new TextEncoder().encode("sAlT") : new Uint8Array()));
+      if (!aes) return async (data) => rc4(objKey, data);
+      const cryptoKey = await aesKey(objKey);
+      return async (data) => {
+        const iv = randomBytes(16);
+        return concat(iv, await aesCbc(cryptoKey, iv, data));
+      };
+    };
+    encryptDict = context.obj({
+      Filter: "Standard",
+      V: aes ? 4 : 2,
+      R: aes ? 4 : 3,
+      Length: 128,
+      ...(aes && {
+        CF: { StdCF: { CFM: "AESV2", AuthEvent: "DocOpen", Length: 16 } },
+        StmF: "StdCF",
+        StrF: "StdCF",
+      }),
+      O: PDFHexString.of(toHex(O)),
+      U: PDFHexString.of(toHex(U)),
+      P: p,
+    });
+  }
+
+  const encryptValue = async (obj: PDFObject, cipher: Cipher): Promise<PDFObject> => {
+    if (obj instanceof PDFString || obj instanceof PDFHexString) {
+      return PDFHexString.of(toHex(await cipher(obj.asBytes())));
+    }
+    if (obj instanceof PDFDict) {
+      // el /Contents de una firma va en claro: se rellena después, ya sobre el archivo cifrado
+      const isSignature = obj.get(PDFName.of("Type")) === PDFName.of("Sig");
+      for (const [k, v] of obj.entries()) {
+        if (isSignature && k === PDFName.of("Contents")) continue;
+        obj.set(k, await encryptValue(v, cipher));
+      }
+    } else if (obj instanceof PDFArray) {
+      for (let i = 0; i < obj.size(); i++) obj.set(i, await encryptValue(obj.get(i), cipher));
+    }
+    return obj;
+  };
+
+  for (const [ref, obj] of context.enumerateIndirectObjects()) {
+    const cipher = await cipherFor(ref);
+    if (obj instanceof PDFRawStream) {
+      await encryptValue(obj.dict, cipher);
+      context.assign(ref, PDFRawStream.of(obj.dict, await cipher(obj.contents)));
+    } else {
+      context.assign(ref, await encryptValue(obj, cipher));
+    }
+  }
+
+  context.trailerInfo.Encrypt = context.register(encryptDict);
+  return pdfDoc.save({ useObjectStreams: false, updateFieldAppearances: false, addDefaultPage: false });
+}
@@ -0,0 +1,93 @@
+import { PDFDocument, PDFHexString, PDFName, PDFNull, PDFNumber, PDFPage, PDFRef } from "pdf-lib";
+import type { FieldRect } from "./renderDocument";
+
+/* ============================= */
+/* MARCADORES Y ENLACES INTERNOS */
+/* ============================= */
+
+// pdf-lib no tiene API para esto: se arman los diccionarios a mano
+
+export type OutlineItem = {
+  title: string;
+  level: 1 | 2 | 3;
+  /** Hoja de destino (0-based) */
+  page: number;
+  /** Altura (pt desde abajo) a la que debe quedar el visor */
+  top: number;
+};
+
+/** Destino /XYZ: la hoja con `top` arriba y el zoom que tenga el lector */
+const destination = (pdfDoc: PDFDocument, page: number, top: number) =>
+  pdfDoc.context.obj([pdfDoc.getPage(page).ref, PDFName.of("XYZ"), PDFNull, PDFNumber.of(top), PDFNull]);
+
+type OutlineNode = { item: OutlineItem; ref: PDFRef; children: OutlineNode[] };
+
+/**
+ * Escribe el árbol de marcadores (/Outlines) del documento. Un nivel más
+ * profundo cuelga del último marcador de nivel menor; todos quedan abiertos.
+ */
+export function addOutline(pdfDoc: PDFDocument, items: OutlineItem[]) {
+  if (items.length === 0) return;
+  const { context } = pdfDoc;
+
+  const rootRef = context.nextRef();
+  const roots: OutlineNode[] = [];
+  const stack: OutlineNode[] = [];
+  for (const item of items) {
+    const node: OutlineNode = { item, ref: context.nextRef(), children: [] };
+    while (stack.length && stack[stack.length - 1].item.level >= item.level) stack.pop();
+    (stack.length ? stack[stack.length - 1].children : roots).push(node);
+    stack.push(node);
+  }
+
+  // Devuelve cuántos marcadores visibles hay debajo (el /Count de un nodo abierto)
+  const writeLevel = (nodes: OutlineNode[], parent: PDFRef): number => {
+    let visible = 0;
+    nodes.forEach((node, i) => {
+      const below = writeLevel(node.children, node.ref);
+      const dict = context.obj({
+        Title: PDFHexString.fromText(node.item.title),
+        Parent: parent,
+        Dest: destination(pdfDoc, node.item.page, node.item.top),
+      });
+      if (i > 0) dict.set(PDFName.of("Prev"), nodes[i - 1].ref);
+      if (i < nodes.length - 1) dict.set(PDFName.of("Next"), nodes[i + 1].ref);
+      if (node.children.length) {
+        dict.set(PDFName.of("First"), node.children[0].ref);
+        dict.set(PDFName.of("Last"), node.children[node.children.length - 1].ref);
+        dict.set(PDFName.of("Count"), PDFNumber.of(below));
+      }
+      context.assign(node.ref, dict);
+      visible += 1 + below;
+    });
+    return visible;
+  };
+
+  const total = writeLevel(roots, rootRef);
+  context.assign(
+    rootRef,
+    context.obj({
+      Type: "Outlines",
+      First: roots[0].ref,
+      Last: roots[roots.length - 1].ref,
+      Count: total,
+    })
+  );
+  pdfDoc.catalog.set(PDFName.of("Outlines"), rootRef);
+  // el lector abre con el panel de marcadores a la vista
+  pdfDoc.catalog.set(PDFName.of("PageMode"), PDFName.of("UseOutlines"));
+}
+
+/** Zona clicable de `page` que lleva a la hoja `target` (a la altura `top`) */
+export function addInternalLink(pdfDoc: PDFDocument, page: PDFPage, rect: FieldRect, target: number, top: number) {
+  const link = pdfDoc.context.register(
+    pdfDoc.context.obj({
+      Type: "Annot",
+      Subtype: "Link",
+      Rect: [rect.x, rect.y, rect.x + rect.width, rect.y + rect.height],
+      Border: [0, 0, 0],
+      Dest: destination(pdfDoc, target, top),
+    })
+  );
+  page.node.addAnnot(link);
+}
@@ -0,0 +1,400 @@
+import fontkit from "@pdf-lib/fontkit";
+import { PDFDocument, PDFHexString, PDFName, PDFNumber, PDFString, rgb, StandardFonts } from "pdf-lib";
+import { createFontChain, RenderFonts } from "./fonts";
+import type { FieldRect } from "./renderDocument";
+
+/* ============================= */
+/* FIRMA DIGITAL (PKCS#12)       */
+/* ============================= */
+
+// Firma PKCS#7 separada (adbe.pkcs7.detached) con un certificado .p12/.pfx
+// que no sale del navegador. El ASN.1, el PKCS#12 y el RSA los pone
+// node-forge (window.forge, por CDN); la hora es la del equipo, sin sello de
+// tiempo externo. Solo se admiten claves RSA.
+
+/** Certificado ya abierto; vive en memoria, nunca se guarda */
+export type SigningIdentity = {
+  key: any;
+  certificate: any;
+  /** Resto de la cadena que venía en el .p12 */
+  chain: any[];
+  signer: string;
+  organization: string;
+  issuer: string;
+  notBefore: Date;
+  notAfter: Date;
+  selfSigned: boolean;
+};
+
+export type SignatureAppearance = "visible" | "invisible";
+
+export const APPEARANCE_LABELS: Record<SignatureAppearance, string> = {
+  visible: "Recuadro visible",
+  invisible: "Invisible (solo en el panel de firmas)",
+};
+
+export type SignatureOptions = {
+  identity: SigningIdentity;
+  appearance: SignatureAppearance;
+  /** Región "signature" de la plantilla; sin ella, abajo a la derecha de la última hoja */
+  rect?: FieldRect | null;
+  reason: string;
+  location: string;
+  date: Date;
+  /** Para el texto del recuadro; sin ellas, Helvetica */
+  fonts?: RenderFonts | null;
+};
+
+/** Lo que queda en el historial */
+export type SignatureRecord = {
+  signer: string;
+  issuer: string;
+  appearance: SignatureAppearance;
+};
+
+/** Bytes reservados para el PKCS#7 (certificado y cadena incluidos) */
+const SIGNATURE_BYTES = 16384;
+const CONTENTS_PLACEHOLDER = `<${"0".repeat(SIGNATURE_BYTES * 2)}>`;
+// Se reemplaza por los números reales sin cambiar el largo del archivo
+const BYTE_RANGE_MARK = "**********";
+const BYTE_RANGE_RX = /\/ByteRange\s*\[\s*0\s+\/\*{10}\s+\/\*{10}\s+\/\*{10}\s*\]/;
+
+const DEFAULT_BOX = { width: 200, height: 54, right: 48, bottom: 96 };
+
+const forgeLib = () => {
+  const forge = window.forge;
+  if (!forge) throw new Error("node-forge no cargado");
+  return forge;
+};
+
+/** forge trabaja con cadenas binarias (un carácter por byte) */
+const toBinary = (bytes: Uint8Array) => {
+  let out = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    out += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return out;
+};
+
+const fieldOf = (name: any, short: string) => name.getField(short)?.value as string | undefined;
+
+/**
+ * forge deja los UTF8String del nombre como bytes sin decodificar y, al armar
+ * el PKCS#7, los vuelve a codificar: "Pérez" saldría mal y ningún lector
+ * encontraría el certificado del firmante. Se decodifican una sola vez al leer.
+ */
+const decodeNames = (forge: any, cert: any) => {
+  for (const attr of [...cert.subject.attributes, ...cert.issuer.attributes]) {
+    if (attr.valueTagClass !== forge.asn1.Type.UTF8 || typeof attr.value !== "string") continue;
+    try {
+      attr.value = forge.util.decodeUtf8(attr.value);
+    } catch {
+      // no era UTF-8 válido: se deja como vino
+    }
+  }
+};
+
+/* ===== CERTIFICADO ===== */
+
+/** Abre un .p12/.pfx con su contraseña y se queda con la clave y su certificado */
+export function readPkcs12(data: Uint8Array, password: string): SigningIdentity {
+  const forge = forgeLib();
+  let p12: any;
+  try {
+    const der = forge.asn1.fromDer(toBinary(data));
+    p12 = forge.pkcs12.pkcs12FromAsn1(der, false, password);
+  } catch (e: any) {
+    const msg = String(e?.message || e);
+    if (/password|MAC/i.test(msg)) throw new Error("contraseña incorrecta o archivo dañado");
+    if (/not RSA/i.test(msg)) throw new Error("solo se admiten certificados con clave RSA");
+    throw new Error(`no es un PKCS#12 válido (${msg})`);
+  }
+
+  const { oids } = forge.pki;
+  const keyBags = [
+    ...(p12.getBags({ bagType: oids.pkcs8ShroudedKeyBag })[oids.pkcs8ShroudedKeyBag] || []),
+    ...(p12.getBags({ bagType: oids.keyBag })[oids.keyBag] || []),
+  ];
+  const key = keyBags.find((b: any) => b.key)?.key;
+  if (!key) throw new Error("el archivo no trae una clave privada RSA");
+
+  const certs: any[] = (p12.getBags({ bagType: oids.certBag })[oids.certBag] || [])
+    .map((b: any) => b.cert)
+    .filter(Boolean);
+  certs.forEach((c) => decodeNames(forge, c));
+  const certificate = certs.find((c) => c.publicKey?.n?.equals?.(key.n));
+  if (!certificate) throw new Error("ningún certificado del archivo corresponde a la clave");
+
+  return {
+    key,
+    certificate,
+    chain: certs.filter((c) => c !== certificate),
+    signer: fieldOf(certificate.subject, "CN") || fieldOf(certificate.subject, "O") || "Sin nombre",
+    organization: fieldOf(certificate.subject, "O") || "",
+    issuer: fieldOf(certificate.issuer, "CN") || fieldOf(certificate.issuer, "O") || "Desconocido",
+    notBefore: certificate.validity.notBefore,
+    notAfter: certificate.validity.notAfter,
+    selfSigned: certificate.subject.hash === certificate.issuer.hash,
+  };
+}
+
+/* ===== PREPARAR Y FIRMAR ===== */
+
+/**
+ * Agrega el campo de firma con el hueco para el PKCS#7 (y, si es visible, el
+ * recuadro en la última hoja). Va antes de cifrar: el /Contents queda en
+ * claro y se rellena con signPreparedPdf sobre el archivo final.
+ */
+export async function addSignaturePlaceholder(bytes: Uint8Array, opts: SignatureOptions): Promise<Uint8Array> {
+  const { identity, date } = opts;
+  if (date < identity.notBefore || date > identity.notAfter) {
+    throw new Error(`el certificado no es válido en esta fecha (vence el ${identity.notAfter.toLocaleDateString()})`);
+  }
+
+  const pdfDoc = await PDFDocument.load(bytes, { updateMetadata: false });
+  const { context } = pdfDoc;
+  const page = pdfDoc.getPage(pdfDoc.getPageCount() - 1);
+  const { width } = page.getSize();
+
+  const sig = context.obj({
+    Type: "Sig",
+    Filter: "Adobe.PPKLite",
+    SubFilter: "adbe.pkcs7.detached",
+    ByteRange: [0, PDFName.of(BYTE_RANGE_MARK), PDFName.of(BYTE_RANGE_MARK), PDFName.of(BYTE_RANGE_MARK)],
+    Contents: PDFHexString.of("0".repeat(SIGNATURE_BYTES * 2)),
+    Name: PDFHexString.fromText(identity.signer),
+    M: PDFString.fromDate(date),
+  });
+  if (opts.reason.trim()) sig.set(PDFName.of("Reason"), PDFHexString.fromText(opts.reason.trim()));
+  if (opts.location.trim()) sig.set(PDFName.of("Location"), PDFHexString.fromText(opts.location.trim()));
+
+  const visible = opts.appearance === "visible";
+  const box = opts.rect ?? {
+    x: width - DEFAULT_BOX.right - DEFAULT_BOX.width,
+    y: DEFAULT_BOX.bottom,
+    width: DEFAULT_BOX.width,
+    height: DEFAULT_BOX.height,
+  };
+  const rect = visible ? [box.x, box.y, box.x + box.width, box.y + box.height] : [0, 0, 0, 0];
+
+  if (visible) {
+    // El recuadro se dibuja en la hoja; el widget lleva una apariencia vacía
+    let font;
+    if (opts.fonts) {
+      pdfDoc.registerFontkit(fontkit);
+      font = createFontChain([await pdfDoc.embedFont(opts.fonts.regular, { subset: true })], new Set());
+    } else {
+      font = createFontChain([await pdfDoc.embedFont(StandardFonts.Helvetica)], new Set());
+    }
+    const color = rgb(0.2, 0.2, 0.35);
+    page.drawRectangle({ ...box, borderColor: color, borderWidth: 0.75 });
+    const lines = [
+      "Firmado digitalmente por",
+      identity.signer,
+      date.toLocaleString("es", { dateStyle: "short", timeStyle: "short" }),
+      opts.reason.trim() && `Motivo: ${opts.reason.trim()}`,
+    ].filter(Boolean) as string[];
+    const size = Math.max(5, Math.min(9, (box.height - 6) / (lines.length * 1.25)));
+    lines.forEach((line, i) => {
+      let text = line;
+      for (let cut = line.length; cut > 1 && font.widthOfTextAtSize(text, size) > box.width - 8; cut--) {
+        text = line.slice(0, cut - 1) + "…";
+      }
+      font.drawText(page, text, {
+        x: box.x + 4,
+        y: box.y + box.height - 3 - size * (i + 1) * 1.2 + size * 0.2,
+        size,
+        color,
+      });
+    });
+  }
+
+  const appearance = context.register(
+    context.stream("", { Type: "XObject", Subtype: "Form", BBox: [0, 0, rect[2] - rect[0], rect[3] - rect[1]] })
+  );
+  const widget = context.register(
+    context.obj({
+      Type: "Annot",
+      Subtype: "Widget",
+      FT: "Sig",
+      Rect: rect,
+      V: context.register(sig),
+      T: PDFHexString.fromText(`Firma ${identity.signer}`),
+      F: 4, // imprimible
+      P: page.ref,
+      AP: { N: appearance },
+    })
+  );
+  page.node.addAnnot(widget);
+
+  const form = pdfDoc.getForm();
+  form.acroForm.addField(widget);
+  // 1 = hay firmas; 2 = solo se puede añadir al final, sin reescribir
+  form.acroForm.dict.set(PDFName.of("SigFlags"), PDFNumber.of(3));
+
+  return pdfDoc.save({ useObjectStreams: false, updateFieldAppearances: false, addDefaultPage: false });
+}
+
+/** Completa /ByteRange y /Contents en el archivo final (cifrado o no) */
+export function signPreparedPdf(bytes: Uint8Array, identity: SigningIdentity, date: Date): Uint8Array {
+  const forge = forgeLib();
+  const text = new TextDecoder("latin1").decode(bytes);
+
+  const start = text.lastIndexOf(CONTENTS_PLACEHOLDER);
+  const brMatch = BYTE_RANGE_RX.exec(text);
+  if (start === -1 || !brMatch) throw new Error("el PDF no tiene el hueco para la firma");
+  const end = start + CONTENTS_PLACEHOLDER.length;
+
+  const out = bytes.slice();
+  const range = `/ByteRange [0 ${start} ${end} ${bytes.length - end}`;
+  const padded = range + " ".repeat(brMatch[0].length - range.length - 1) + "]";
+  out.set(new TextEncoder().encode(padded), brMatch.index);
+
+  const p7 = forge.pkcs7.createSignedData();
+  p7.content = forge.util.createBuffer(toBinary(out.subarray(0, start)) + toBinary(out.subarray(end)));
+  p7.addCertificate(identity.certificate);
+  identity.chain.forEach((c) => p7.addCertificate(c));
+  p7.addSigner({
+    key: identity.key,
+    certificate: identity.certificate,
+    digestAlgorithm: forge.pki.oids.sha256,
+    authenticatedAttributes: [
+      { type: forge.pki.oids.contentType, value: forge.pki.oids.data },
+      { type: forge.pki.oids.messageDigest },
+      { type: forge.pki.oids.signingTime, value: date },
+    ],
+  });
+  p7.sign({ detached: true });
+
+  const hex = forge.util.bytesToHex(forge.asn1.toDer(p7.toAsn1()).getBytes());
+  if (hex.length > SIGNATURE_BYTES * 2) throw new Error("la firma no cabe en el hueco reservado (cadena muy larga)");
+  out.set(new TextEncoder().encode(hex.padEnd(SIGNATURE_BYTES * 2, "0")), start + 1);
+  return out;
+}
+
+/* ===== VALIDACIÓN ===== */
+
+export type SignatureCheck = {
+  signer: string;
+  issuer: string;
+  signedAt: Date | null;
+  /** El resumen coincide con el archivo y la firma corresponde al certificado */
+  intact: boolean;
+  /** La firma abarca todo el archivo (nada se añadió después de firmar) */
+  coversWholeFile: boolean;
+  /** El certificado estaba vigente al firmar */
+  certValid: boolean;
+  /** Autofirmado: nadie más responde por la identidad */
+  selfSigned: boolean;
+  error?: string;
+};
+
+const DIGESTS: Record<string, string> = { sha1: "SHA-1", sha256: "SHA-256", sha384: "SHA-384", sha512: "SHA-512" };
+
+/**
+ * Busca las firmas del PDF (por su /ByteRange, que nunca va cifrado ni
+ * comprimido en los que genera la app) y las comprueba. La confianza en la
+ * autoridad que emitió el certificado no se comprueba: se informa el emisor.
+ */
+export async function checkSignatures(bytes: Uint8Array): Promise<SignatureCheck[]> {
+  const text = new TextDecoder("latin1").decode(bytes);
+  const rx = /\/ByteRange\s*\[\s*(\d+)\s+(\d+)\s+(\d+)\s+(\d+)\s*\]/g;
+  const checks: SignatureCheck[] = [];
+
+  for (let m = rx.exec(text); m; m = rx.exec(text)) {
+    const [a, b, c, d] = m.slice(1).map(Number);
+    const check: SignatureCheck = {
+      signer: "Desconocido",
+      issuer: "Desconocido",
+      signedAt: null,
+      intact: false,
+      coversWholeFile: a === 0 && c + d === bytes.length,
+      certValid: false,
+      selfSigned: false,
+    };
+    checks.push(check);
+    try {
+      check.intact = await verifyOne(bytes, text.slice(b + 1, c - 1), [a, b, c, d], check);
+    } catch (e: any) {
+      check.error = String(e?.message || e);
+    }
+  }
+  return checks;
+}
+
+async function verifyOne(bytes: Uint8Array, hex: string, range: number[], check: SignatureCheck): Promise<boolean> {
+  const forge = forgeLib();
+  const { asn1 } = forge;
+  const der = forge.util.hexToBytes(hex.replace(/[^0-9a-f]/gi, ""));
+  const p7 = forge.pkcs7.messageFromAsn1(asn1.fromDer(der, { parseAllBytes: false }));
+  const signerInfo = p7.rawCapture?.signerInfos?.[0];
+  if (!signerInfo) throw new Error("la firma no trae firmante");
+
+  // SignerInfo: versión, emisor y serie, digestAlgorithm, [0] atributos firmados, algoritmo, firma
+  const [, issuerAndSerial, digestAlg, ...rest] = signerInfo.value;
+  const serial = forge.util.bytesToHex(issuerAndSerial.value[1].value);
+  const cert = p7.certificates.find((x: any) => x.serialNumber === serial) ?? p7.certificates[0];
+  if (!cert) throw new Error("la firma no trae el certificado");
+  decodeNames(forge, cert);
+  check.signer = fieldOf(cert.subject, "CN") || fieldOf(cert.subject, "O") || "Sin nombre";
+  check.issuer = fieldOf(cert.issuer, "CN") || fieldOf(cert.issuer, "O") || "Desconocido";
+  check.selfSigned = cert.subject.hash === cert.issuer.hash;
+
+  const attrs = rest.find((n: any) => n.tagClass === asn1.Class.CONTEXT_SPECIFIC && n.type === 0);
+  const signature = rest.find((n: any) => n.tagClass === asn1.Class.UNIVERSAL && n.type === asn1.Type.OCTETSTRING)?.value;
+  if (!attrs) throw new Error("firma sin atributos firmados: no se puede comprobar");
+
+  const attr = (oid: string) =>
+    attrs.value.find((at: any) => asn1.derToOid(at.value[0].value) === oid)?.value[1].value[0];
+  const time = attr(forge.pki.oids.signingTime);
+  if (time) {
+    check.signedAt =
+      time.type === asn1.Type.GENERALIZEDTIME ? asn1.generalizedTimeToDate(time.value) : asn1.utcTimeToDate(time.value);
+  }
+  const when = check.signedAt ?? new Date();
+  check.certValid = when >= cert.validity.notBefore && when <= cert.validity.notAfter;
+
+  // 1) el resumen del archivo (sin el /Contents) es el que se firmó
+  const mdName = forge.pki.oids[asn1.derToOid(digestAlg.value[0].value)];
+  if (!DIGESTS[mdName]) throw new Error(`algoritmo de resumen no admitido (${mdName})`);
+  const [a, b, c, d] = range;
+  const signed = new Uint8Array(b + d);
+  signed.set(bytes.subarray(a, a + b));
+  signed.set(bytes.subarray(c, c + d), b);
+  const digest = new Uint8Array(await crypto.subtle.digest(DIGESTS[mdName], signed));
+  const expected = attr(forge.pki.oids.messageDigest)?.value;
+  if (!expected || toBinary(digest) !== expected) return false;
+
+  // 2) la firma de los atributos (codificados como SET) corresponde a la clave del certificado
+  const md = forge.md[mdName].create();
+  md.update(asn1.toDer(asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SET, true, attrs.value)).getBytes());
+  try {
+    return cert.publicKey.verify(md.digest().getBytes(), signature);
+  } catch {
+    return false;
+  }
+}
+
+export const signatureRecord = (o: SignatureOptions): SignatureRecord => ({
+  signer: o.identity.signer,
+  issuer: o.identity.issuer,
+  appearance: o.appearance,
+});
+
+/** "Válida · Ana Pérez (emitido por X) · 19/10/2026 10:30" */
+export function describeSignature(s: SignatureCheck): string {
+  const status = !s.intact
+    ? "No válida: el documento cambió o la firma está dañada"
+    : !s.coversWholeFile
+      ? "Válida, pero el archivo tiene cambios añadidos después de firmar"
+      : "Válida";
+  return [
+    status,
+    `${s.signer} (emitido por ${s.selfSigned ? "el propio firmante" : s.issuer})`,
+    s.signedAt ? s.signedAt.toLocaleString() : "",
+    s.certValid ? "" : "certificado no vigente al firmar",
+    s.error ?? "",
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
@@ -0,0 +1,153 @@
+/* ============================= */
+/* TEXTO DE UN PDF IMPORTADO     */
+/* ============================= */
+
+/**
+ * Lo que hace falta de cada página de pdf.js (getTextContent) para armar el
+ * texto: se copia así para poder mandarlo al worker.
+ */
+export type PdfTextPage = {
+  height: number;
+  items: { str: string; x: number; y: number }[];
+};
+
+/* ============================= */
+/* CONFIGURACIONES Y STOPWORDS   */
+/* ============================= */
+
+const HEADER_STOPWORDS = [
+  "tm",
+  "plataforma educativa",
+  "horacio marchand",
+  "diplomado",
+  "aceleración comercial",
+  "aceleraci6n comercial",
+  "comercial",
+  "para impulsar tu negocio",
+  "text title",
+  "text body",
+];
+
+export const FOOTER_PATTERNS = [/Página\s+\d+\s+de\s+\d+/i, /Copyright/i];
+
+export const isStopwordLine = (s: string) =>
+  HEADER_STOPWORDS.some((w) => s.trim().toLowerCase() === w);
+
+/**
+ * Toma el texto plano y saca:
+ *  - title: primera línea "útil"
+ *  - body: resto del texto
+ */
+export const extractTitleAndBody = (raw: string) => {
+  const cleaned = raw
+    .replace(/\r/g, "")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+  const lines = cleaned.split("\n").map((l) => l.trim()).filter(Boolean);
+
+  // líneas que NO deben ser título
+  const badTitle = (l: string) => {
+    const s = l.trim();
+    const low = s.toLowerCase();
+
+    if (!s) return true;
+    if (s.length < 3) return true;
+    if (s.length > 180) return true;
+    if (FOOTER_PATTERNS.some((rx) => rx.test(s))) return true;
+    if (isStopwordLine(s)) return true;
+
+    // cosas típicas de plantillas / OCR
+    if (/(p(á|a)gina)\s*\d+\s*(de)?\s*\d+/i.test(s)) return true;
+    if (/plataforma educativa|horacio marchand|diplomado/i.test(low)) return true;
+    if (/copyright/i.test(low)) return true;
+
+    return false;
+  };
+
+  const titleIndex = lines.findIndex((l) => !badTitle(l));
+  if (titleIndex === -1) return { title: "Sin título", body: cleaned };
+
+  let title = lines[titleIndex];
+  if (title.length > 140) title = title.slice(0, 140) + "…";
+
+  const body = lines.slice(titleIndex + 1).join("\n").trim();
+  return { title, body };
+};
+
+/** Renglones de una página: agrupa los trozos por altura y quita cabecera/pie */
+export function pageLines(page: PdfTextPage): string[] {
+  const H = page.height;
+
+  // Bandas a ignorar (más agresivas que antes)
+  const headerCut = H - 140; // ignora más arriba
+  const footerCut = 90; // ignora más abajo
+
+  // Agrupar por renglón (Y)
+  const rows: Record<number, { y: number; chunks: { x: number; s: string }[] }> = {};
+
+  page.items.forEach((it) => {
+    const s = (it.str || "").replace(/\s+/g, " ").trim();
+    if (!s) return;
+
+    const { x, y } = it;
+
+    // Filtra header/footer por posición
+    if (y >= headerCut) return;
+    if (y <= footerCut) return;
+
+    const yKey = Math.round(y);
+    rows[yKey] ??= { y, chunks: [] };
+    rows[yKey].chunks.push({ x, s });
+  });
+
+  const sortedY = Object.keys(rows).map(Number).sort((a, b) => b - a);
+
+  return sortedY
+    .map((k) =>
+      rows[k].chunks
+        .sort((a, b) => a.x - b.x)
+        .map((c) => c.s)
+        .join(" ")
+        .trim()
+    )
+    .filter((ln) => {
+      if (!ln) return false;
+      if (FOOTER_PATTERNS.some((rx) => rx.test(ln))) return false;
+      if (isStopwordLine(ln)) return false;
+      return true;
+    });
+}
+
+/**
+ * Une los renglones de todas las páginas quitando los que se repiten en
+ * muchas (plantilla/OCR) y los cortes de palabra con guion.
+ */
+export function joinPdfPages(pagesLines: string[][]): string {
+  // ===== FILTRO: remover líneas repetidas entre páginas (plantilla/OCR) =====
+  const freq = new Map<string, number>();
+  for (const lines of pagesLines) {
+    const uniq = new Set(lines.map((l) => l.toLowerCase()));
+    for (const l of uniq) freq.set(l, (freq.get(l) || 0) + 1);
+  }
+
+  // Si una línea aparece en >= 40% de páginas, probablemente es plantilla
+  const threshold = Math.max(2, Math.ceil(pagesLines.length * 0.4));
+
+  const finalLines: string[] = [];
+  for (const lines of pagesLines) {
+    for (const ln of lines) {
+      const key = ln.toLowerCase();
+      if ((freq.get(key) || 0) >= threshold) continue; // quita repetidas
+      finalLines.push(ln);
+    }
+    finalLines.push(""); // separador de página
+  }
+
+  let text = finalLines.join("\n");
+  text = text.replace(/-\n(?=[a-záéíóúñ])/gi, ""); // quita corte por guion
+  text = text.replace(/\n{3,}/g, "\n\n").trim();
+
+  return text;
+}
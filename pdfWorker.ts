@@ -0,0 +1,48 @@
+import { RenderContent, renderDocument, RenderOptions, RenderProgress, RenderResult } from "./renderDocument";
+import { extractTitleAndBody, joinPdfPages, pageLines, PdfTextPage } from "./pdfText";
+
+/* ============================= */
+/* WORKER: MAQUETACIÓN E IMPORT  */
+/* ============================= */
+
+// Un worker por trabajo: cancelar es terminarlo (ver ./pdfWorkerClient)
+
+export type WorkerRequest =
+  | {
+      type: "render";
+      templateBytes: Uint8Array | null;
+      content: RenderContent;
+      options: Omit<RenderOptions, "onProgress">;
+    }
+  | { type: "extract"; pages: PdfTextPage[] };
+
+export type WorkerResponse =
+  | { type: "progress"; progress: RenderProgress }
+  | { type: "rendered"; result: RenderResult }
+  | { type: "extracted"; title: string; body: string }
+  | { type: "error"; message: string };
+
+// tsconfig solo trae los tipos del DOM: lo justo del ámbito del worker
+const scope = self as unknown as {
+  postMessage(msg: WorkerResponse, transfer?: Transferable[]): void;
+  onmessage: ((ev: MessageEvent<WorkerRequest>) => void) | null;
+};
+
+scope.onmessage = async (ev) => {
+  const req = ev.data;
+  try {
+    if (req.type === "render") {
+      const result = await renderDocument(req.templateBytes, req.content, {
+        ...req.options,
+        onProgress: (progress) => scope.postMessage({ type: "progress", progress }),
+      });
+      // el PDF vuelve sin copiarse
+      scope.postMessage({ type: "rendered", result }, [result.bytes.buffer]);
+    } else {
+      const { title, body } = extractTitleAndBody(joinPdfPages(req.pages.map(pageLines)));
+      scope.postMessage({ type: "extracted", title, body });
+    }
+  } catch (e: any) {
+    scope.postMessage({ type: "error", message: e?.message || String(e) });
+  }
+};
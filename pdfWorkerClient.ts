@@ -0,0 +1,131 @@
+import { RenderContent, renderDocument, RenderOptions, RenderProgress, RenderResult } from "./renderDocument";
+import { extractTitleAndBody, joinPdfPages, pageLines, PdfTextPage } from "./pdfText";
+import type { WorkerRequest, WorkerResponse } from "./pdfWorker";
+
+/* ============================= */
+/* TRABAJOS EN EL WORKER         */
+/* ============================= */
+
+export type JobControl = {
+  onProgress?: (progress: RenderProgress) => void;
+  /** Al abortar se termina el worker y la promesa falla con AbortError */
+  signal?: AbortSignal;
+};
+
+export const isAbortError = (e: unknown) => (e as any)?.name === "AbortError";
+
+const abortError = () => new DOMException("Cancelado", "AbortError");
+
+/**
+ * Arranca un worker para un solo trabajo y lo termina al acabar (o al
+ * cancelar). Los bytes de `transfer` pasan al worker sin copiarse.
+ */
+function runJob<T>(
+  request: WorkerRequest,
+  transfer: Transferable[],
+  onResponse: (msg: WorkerResponse) => T | undefined,
+  signal?: AbortSignal
+): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+
+    const worker = new Worker(new URL("./pdfWorker.ts", import.meta.url), { type: "module" });
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener("abort", onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      reject(abortError());
+    };
+    signal?.addEventListener("abort", onAbort);
+
+    worker.onmessage = (ev: MessageEvent<WorkerResponse>) => {
+      const msg = ev.data;
+      if (msg.type === "error") {
+        finish();
+        reject(new Error(msg.message));
+        return;
+      }
+      const value = onResponse(msg);
+      if (value !== undefined) {
+        finish();
+        resolve(value);
+      }
+    };
+    worker.onerror = (ev) => {
+      finish();
+      reject(new Error(ev.message || "El worker falló"));
+    };
+
+    worker.postMessage(request, transfer);
+  });
+}
+
+/**
+ * renderDocument fuera del hilo principal. La plantilla se copia antes de
+ * transferirla (quien llama la sigue usando); fuentes e imágenes se clonan.
+ * Sin soporte de workers se maqueta aquí mismo.
+ */
+export function renderInWorker(
+  templateBytes: Uint8Array | null,
+  content: RenderContent,
+  options: RenderOptions,
+  control: JobControl = {}
+): Promise<RenderResult> {
+  const { onProgress, ...rest } = options;
+  const report = control.onProgress ?? onProgress;
+
+  if (typeof Worker === "undefined") {
+    return renderDocument(templateBytes, content, { ...rest, onProgress: report });
+  }
+
+  const tpl = templateBytes ? templateBytes.slice() : null;
+  return runJob<RenderResult>(
+    { type: "render", templateBytes: tpl, content, options: rest },
+    tpl ? [tpl.buffer] : [],
+    (msg) => {
+      if (msg.type === "progress") report?.(msg.progress);
+      return msg.type === "rendered" ? msg.result : undefined;
+    },
+    control.signal
+  );
+}
+
+/**
+ * Lee el texto de un PDF: pdf.js (que ya parsea en su propio worker) saca
+ * los trozos de cada página y el armado de renglones, el filtro de líneas
+ * repetidas y la separación título/cuerpo corren en el worker.
+ */
+export async function extractPdfText(
+  data: ArrayBuffer,
+  control: { onPage?: (page: number, total: number) => void; signal?: AbortSignal } = {}
+): Promise<{ title: string; body: string }> {
+  if (!window.pdfjsLib) throw new Error("pdf.js no cargado");
+
+  const pdf = await window.pdfjsLib.getDocument({ data }).promise;
+  const pages: PdfTextPage[] = [];
+  try {
+    for (let p = 1; p <= pdf.numPages; p++) {
+      if (control.signal?.aborted) throw abortError();
+      control.onPage?.(p, pdf.numPages);
+      const page = await pdf.getPage(p);
+      const viewport = page.getViewport({ scale: 1 });
+      const tc = await page.getTextContent({ normalizeWhitespace: true });
+      pages.push({
+        height: viewport.height,
+        items: tc.items.map((it: any) => ({ str: it.str || "", x: it.transform[4], y: it.transform[5] })),
+      });
+    }
+  } finally {
+    pdf.destroy();
+  }
+
+  if (typeof Worker === "undefined") return extractTitleAndBody(joinPdfPages(pages.map(pageLines)));
+  return runJob(
+    { type: "extract", pages },
+    [],
+    (msg) => (msg.type === "extracted" ? { title: msg.title, body: msg.body } : undefined),
+    control.signal
+  );
+}
@@ -0,0 +1,150 @@
+import type { FontStyle } from "./fonts";
+import type { LayoutReport } from "./renderDocument";
+
+/* ============================= */
+/* REVISIÓN PREVIA (PRE-FLIGHT)  */
+/* ============================= */
+
+/** Caja de texto del generador donde se puede señalar un problema */
+export type PreflightSource = "title" | "body" | "footer";
+
+export type PreflightIssue = {
+  severity: "error" | "warning" | "info";
+  message: string;
+  /** Dónde está en el texto original (para seleccionarlo al hacer clic) */
+  target?: { source: PreflightSource; start: number; end: number };
+  /** Campo del formulario afectado, si lo hay */
+  field?: string;
+};
+
+export type PreflightTexts = Record<PreflightSource, string>;
+
+const STYLE_LABELS: Record<FontStyle, string> = {
+  regular: "regular",
+  bold: "negrita",
+  italic: "cursiva",
+  boldItalic: "negrita cursiva",
+};
+
+/** Primera aparición de `needle` en título, cuerpo o pie (en ese orden) */
+const locate = (texts: PreflightTexts, needle: string, order: PreflightSource[] = ["title", "body", "footer"]) => {
+  if (!needle) return undefined;
+  for (const source of order) {
+    const start = (texts[source] || "").indexOf(needle);
+    if (start >= 0) return { source, start, end: start + needle.length };
+  }
+  return undefined;
+};
+
+/**
+ * Convierte el reporte de una maquetación en seco en una lista de avisos
+ * para el usuario: glifos que saldrán como "?", negritas o cursivas sin
+ * fuente propia, títulos recortados, palabras que no caben en una línea,
+ * campos desbordados, variables sin valor… y el número de páginas estimado.
+ * Los avisos que se pueden ubicar en el texto llevan `target`.
+ */
+export function buildPreflight(
+  report: LayoutReport,
+  texts: PreflightTexts,
+  missingVariables: string[] = []
+): PreflightIssue[] {
+  const issues: PreflightIssue[] = [];
+
+  if (!texts.title.trim()) {
+    issues.push({
+      severity: "warning",
+      message: 'El título está vacío: se usará "Sin título".',
+      target: { source: "title", start: 0, end: 0 },
+    });
+  }
+
+  for (const ch of report.unsupportedChars) {
+    const code = ch.codePointAt(0)!.toString(16).toUpperCase().padStart(4, "0");
+    issues.push({
+      severity: "error",
+      message: `"${ch}" (U+${code}) no existe en las fuentes: saldrá como "?".`,
+      target: locate(texts, ch),
+    });
+  }
+
+  for (const style of report.substitutedStyles) {
+    issues.push({
+      severity: "warning",
+      message: `La fuente no tiene ${STYLE_LABELS[style]}: ese texto saldrá en la variante regular. Sube la ${STYLE_LABELS[style]} de la misma familia.`,
+    });
+  }
+
+  // Una palabra puede repetirse en el reporte (una vez por bloque donde aparece)
+  const seen = new Set<string>();
+  for (const o of report.overflow) {
+    const key = `${o.kind}:${o.text}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    if (o.kind === "title-truncated") {
+      issues.push({
+        severity: "error",
+        message: `El título no cabe; se corta antes de "${o.text}".`,
+        target: locate(texts, o.text, ["title"]),
+      });
+    } else if (o.kind === "word-too-wide") {
+      issues.push({
+        severity: "warning",
+        message: `"${o.text}" no cabe en una línea y se partirá (pág. ${o.page + 1}).`,
+        target: locate(texts, o.text, ["body", "title", "footer"]),
+      });
+    } else {
+      issues.push({
+        severity: "error",
+        message: `El campo "${o.field ?? ""}" es pequeño; no cabe: "${o.text.replace(/^[^:]*:\s*/, "")}".`,
+        field: o.field,
+      });
+    }
+  }
+
+  // Lo ya avisado como desborde no se repite; aquí van el cuerpo recortado y
+  // los campos donde se redujo la letra
+  const reported = new Set(report.overflow.map((o) => o.field).filter(Boolean));
+  for (const fit of report.fieldFit) {
+    if (fit.truncated && !reported.has(fit.field)) {
+      issues.push({
+        severity: "error",
+        message: `El texto no cabe en el campo "${fit.field}": se recorta con "…".`,
+        field: fit.field,
+      });
+    } else if (fit.shrunk) {
+      issues.push({
+        severity: "info",
+        message: `Campo "${fit.field}": letra reducida a ${fit.fontSize} pt.`,
+      });
+    }
+  }
+
+  for (const name of missingVariables) {
+    issues.push({
+      severity: "warning",
+      message: `{{${name}}} no tiene valor: se imprimirá tal cual.`,
+      target: locate(texts, `{{${name}}}`) ?? locate(texts, name),
+    });
+  }
+
+  for (const key of report.missingImages) {
+    issues.push({
+      severity: "warning",
+      message: `No se encontró la imagen "${key}".`,
+      target: locate(texts, key, ["body"]),
+    });
+  }
+
+  // Solo con salida de archivo: lo que impide que el PDF sea PDF/A
+  for (const message of report.archivalIssues) {
+    issues.push({ severity: "warning", message });
+  }
+
+  issues.push({
+    severity: "info",
+    message: `Páginas estimadas: ${report.pages}.`,
+  });
+
+  return issues;
+}
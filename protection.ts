@@ -0,0 +1,190 @@
+import { encryptPdf, EncryptionAlgorithm } from "./pdfEncrypt";
+
+/* ============================= */
+/* PROTECCIÓN: CLAVES Y PERMISOS */
+/* ============================= */
+
+export type PrintPermission = "none" | "low" | "high";
+
+/** Lo que el lector deja hacer sin la contraseña de propietario */
+export type PdfPermissions = {
+  printing: PrintPermission;
+  copying: boolean;
+  fillingForms: boolean;
+  annotating: boolean;
+};
+
+export type ProtectionSettings = {
+  /** Contraseña para abrir el PDF ("" = se abre sin pedirla) */
+  userPassword: string;
+  /** Contraseña de propietario ("" = se genera una al azar para cada documento) */
+  ownerPassword: string;
+  permissions: PdfPermissions;
+  algorithm: EncryptionAlgorithm;
+};
+
+/** Dónde se cifró: en el navegador o, si eso falló, en el backend */
+export type ProtectionVia = "browser" | "backend";
+
+/** Lo que se guarda en el historial: nunca las contraseñas */
+export type ProtectionRecord = {
+  openPassword: boolean;
+  permissions: PdfPermissions;
+  /** Las entradas anteriores al cifrado en el navegador no lo traen */
+  algorithm?: EncryptionAlgorithm;
+  via?: ProtectionVia;
+};
+
+/** Lo que hacía "Proteger PDF" antes: todo bloqueado */
+export const LOCKED_PERMISSIONS: PdfPermissions = {
+  printing: "none",
+  copying: false,
+  fillingForms: false,
+  annotating: false,
+};
+
+export const DEFAULT_PROTECTION: ProtectionSettings = {
+  userPassword: "",
+  ownerPassword: "",
+  permissions: LOCKED_PERMISSIONS,
+  algorithm: "aes-256",
+};
+
+export const ENCRYPTION_LABELS: Record<EncryptionAlgorithm, string> = {
+  "aes-256": "AES-256 (recomendado)",
+  "aes-128": "AES-128",
+  "rc4-128": "RC4 128 bits (lectores antiguos)",
+};
+
+export const PRINT_LABELS: Record<PrintPermission, string> = {
+  none: "No permitir",
+  low: "Baja calidad",
+  high: "Alta calidad",
+};
+
+const PASSWORD_CHARS = "ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz23456789";
+
+/** Contraseña de propietario aleatoria (sin caracteres que se confundan al copiarla) */
+export function randomOwnerPassword(length = 20): string {
+  const rnd = crypto.getRandomValues(new Uint8Array(length));
+  return Array.from(rnd, (b) => PASSWORD_CHARS[b % PASSWORD_CHARS.length]).join("");
+}
+
+export const protectionRecord = (s: ProtectionSettings, via?: ProtectionVia): ProtectionRecord => ({
+  openPassword: s.userPassword !== "",
+  permissions: { ...s.permissions },
+  algorithm: s.algorithm,
+  via,
+});
+
+/** "Abrir con contraseña · Impresión: baja calidad · Copiar" */
+export function describeProtection(r: ProtectionRecord): string {
+  const p = r.permissions;
+  const parts = [
+    r.openPassword ? "Abrir con contraseña" : "",
+    p.printing !== "none" ? `Impresión: ${PRINT_LABELS[p.printing].toLowerCase()}` : "",
+    p.copying ? "Copiar" : "",
+    p.fillingForms ? "Rellenar formularios" : "",
+    p.annotating ? "Comentar" : "",
+  ].filter(Boolean);
+  if (parts.length === 0) parts.push("Todo bloqueado");
+  if (r.algorithm) parts.push(ENCRYPTION_LABELS[r.algorithm].replace(/ \(.*\)$/, ""));
+  if (r.via) parts.push(r.via === "browser" ? "cifrado en el navegador" : "cifrado en el servidor");
+  return parts.join(" · ");
+}
+
+/**
+ * Cifra el PDF en el backend. La contraseña de propietario tiene que venir
+ * ya resuelta (ver randomOwnerPassword); los permisos van como JSON.
+ */
+export async function protectOnBackend(
+  backendUrl: string,
+  bytes: Uint8Array,
+  fileName: string,
+  settings: ProtectionSettings
+): Promise<Uint8Array> {
+  const p = settings.permissions;
+  // ArrayBuffer "normal" para File/BlobPart
+  const file = new File([bytes.slice().buffer], fileName, { type: "application/pdf" });
+
+  const formData = new FormData();
+  formData.append("archivo", file);
+  formData.append("password_usuario", settings.userPassword);
+  formData.append("password_propietario", settings.ownerPassword);
+  formData.append("cifrado", settings.algorithm);
+  formData.append(
+    "permisos",
+    JSON.stringify({
+      imprimir: p.printing,
+      copiar: p.copying,
+      rellenar_formularios: p.fillingForms,
+      anotar: p.annotating,
+    })
+  );
+
+  const resp = await fetch(`${backendUrl}/proteger-pdf`, { method: "POST", body: formData });
+  if (!resp.ok) throw new Error(`Backend respondió ${resp.status}`);
+  return new Uint8Array(await (await resp.blob()).arrayBuffer());
+}
+
+/**
+ * Comprueba con pdf.js que el PDF cifrado se abre con la contraseña y que
+ * dice lo mismo que el original (páginas y texto de la primera hoja).
+ */
+async function checkWithPdfjs(original: Uint8Array, encrypted: Uint8Array, userPassword: string) {
+  const pdfjs = window.pdfjsLib;
+  if (!pdfjs) throw new Error("pdf.js no está listo para comprobar el resultado");
+  const open = (data: Uint8Array, password?: string) => pdfjs.getDocument({ data: data.slice(), password }).promise;
+  const firstPageText = async (pdf: any) =>
+    (await (await pdf.getPage(1)).getTextContent()).items.map((i: any) => i.str).join("");
+
+  if (userPassword) {
+    const asked = await open(encrypted).then(
+      (pdf: any) => (pdf.destroy(), false),
+      (e: any) => e?.name === "PasswordException"
+    );
+    if (!asked) throw new Error("el PDF cifrado se abre sin pedir contraseña");
+  }
+
+  const a = await open(original);
+  const b = await open(encrypted, userPassword || undefined);
+  try {
+    if (a.numPages !== b.numPages) throw new Error("el PDF cifrado no tiene las mismas páginas");
+    if ((await firstPageText(a)) !== (await firstPageText(b))) throw new Error("el texto cifrado no se lee igual");
+  } finally {
+    a.destroy();
+    b.destroy();
+  }
+}
+
+export type ProtectResult = {
+  bytes: Uint8Array;
+  via: ProtectionVia;
+  /** Por qué no se pudo cifrar en el navegador (cuando se usó el backend) */
+  fallbackReason?: string;
+};
+
+/**
+ * Cifra en el navegador y lo comprueba con pdf.js; solo si algo de eso falla
+ * se manda el documento al backend.
+ */
+export async function protectDocument(
+  bytes: Uint8Array,
+  settings: ProtectionSettings,
+  backend: { url: string; fileName: string }
+): Promise<ProtectResult> {
+  try {
+    const encrypted = await encryptPdf(bytes, settings);
+    await checkWithPdfjs(bytes, encrypted, settings.userPassword);
+    return { bytes: encrypted, via: "browser" };
+  } catch (e: any) {
+    console.warn("Cifrado en el navegador falló; se usa el backend", e);
+    const fallbackReason = String(e?.message || e);
+    try {
+      const protectedBytes = await protectOnBackend(backend.url, bytes, backend.fileName, settings);
+      return { bytes: protectedBytes, via: "backend", fallbackReason };
+    } catch (be: any) {
+      throw new Error(`No se pudo proteger: ${fallbackReason}; backend: ${be?.message || be}`);
+    }
+  }
+}
@@ -0,0 +1,319 @@
+/* ============================= */
+/* CÓDIGO QR                     */
+/* ============================= */
+
+// Codificador mínimo (modo byte, corrección M, versiones 1 a 10): alcanza para
+// una URL de verificación y evita otra dependencia. Sigue ISO/IEC 18004.
+
+/** Módulos del símbolo, fila a fila (true = negro); sin la zona en blanco */
+export type QrMatrix = boolean[][];
+
+// Por versión: codewords de corrección por bloque y bloques [cantidad, datos por bloque]
+const EC_M: { ec: number; groups: [number, number][] }[] = [
+  { ec: 10, groups: [[1, 16]] },
+  { ec: 16, groups: [[1, 28]] },
+  { ec: 26, groups: [[1, 44]] },
+  { ec: 18, groups: [[2, 32]] },
+  { ec: 24, groups: [[2, 43]] },
+  { ec: 16, groups: [[4, 27]] },
+  { ec: 18, groups: [[4, 31]] },
+  { ec: 22, groups: [[2, 38], [2, 39]] },
+  { ec: 22, groups: [[3, 36], [2, 37]] },
+  { ec: 26, groups: [[4, 43], [1, 44]] },
+];
+
+const ALIGNMENT: number[][] = [
+  [],
+  [6, 18],
+  [6, 22],
+  [6, 26],
+  [6, 30],
+  [6, 34],
+  [6, 22, 38],
+  [6, 24, 42],
+  [6, 26, 46],
+  [6, 28, 50],
+];
+
+const MAX_VERSION = EC_M.length;
+
+/* ===== REED-SOLOMON (GF(256), polinomio 0x11D) ===== */
+
+const EXP = new Uint8Array(512);
+const LOG = new Uint8Array(256);
+{
+  let x = 1;
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = x;
+    LOG[x] = i;
+    x <<= 1;
+    if (x & 0x100) x ^= 0x11d;
+  }
+  for (let i = 255; i < 512; i++) EXP[i] = EXP[i - 255];
+}
+
+const gfMul = (a: number, b: number) => (a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]]);
+
+/** Codewords de corrección de un bloque */
+function reedSolomon(data: number[], degree: number): number[] {
+  // generador: (x - α^0)(x - α^1)…(x - α^(degree-1)), sin el coeficiente principal
+  let gen = [1];
+  for (let i = 0; i < degree; i++) {
+    const next = new Array(gen.length + 1).fill(0);
+    gen.forEach((c, j) => {
+      next[j] ^= c;
+      next[j + 1] ^= gfMul(c, EXP[i]);
+    });
+    gen = next;
+  }
+  const rest = new Array(degree).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ rest.shift()!;
+    rest.push(0);
+    for (let i = 0; i < degree; i++) rest[i] ^= gfMul(gen[i + 1], factor);
+  }
+  return rest;
+}
+
+/* ===== DATOS ===== */
+
+function encodeData(bytes: Uint8Array, version: number): number[] {
+  const { ec, groups } = EC_M[version - 1];
+  const dataCount = groups.reduce((n, [blocks, size]) => n + blocks * size, 0);
+
+  const bits: number[] = [];
+  const push = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  push(0b0100, 4); // modo byte
+  push(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach((b) => push(b, 8));
+  push(0, Math.min(4, dataCount * 8 - bits.length)); // terminador
+  while (bits.length % 8) bits.push(0);
+
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) data.push(parseInt(bits.slice(i, i + 8).join(""), 2));
+  for (let pad = 0xec; data.length < dataCount; pad ^= 0xec ^ 0x11) data.push(pad);
+
+  // bloques con su corrección, intercalados columna a columna
+  const blocks: { data: number[]; ec: number[] }[] = [];
+  let offset = 0;
+  for (const [count, size] of groups) {
+    for (let i = 0; i < count; i++) {
+      const chunk = data.slice(offset, offset + size);
+      blocks.push({ data: chunk, ec: reedSolomon(chunk, ec) });
+      offset += size;
+    }
+  }
+  const out: number[] = [];
+  const longest = Math.max(...blocks.map((b) => b.data.length));
+  for (let i = 0; i < longest; i++) for (const b of blocks) if (i < b.data.length) out.push(b.data[i]);
+  for (let i = 0; i < ec; i++) for (const b of blocks) out.push(b.ec[i]);
+  return out;
+}
+
+/* ===== MATRIZ ===== */
+
+const MASKS: ((r: number, c: number) => boolean)[] = [
+  (r, c) => (r + c) % 2 === 0,
+  (r) => r % 2 === 0,
+  (_, c) => c % 3 === 0,
+  (r, c) => (r + c) % 3 === 0,
+  (r, c) => (Math.floor(r / 2) + Math.floor(c / 3)) % 2 === 0,
+  (r, c) => ((r * c) % 2) + ((r * c) % 3) === 0,
+  (r, c) => (((r * c) % 2) + ((r * c) % 3)) % 2 === 0,
+  (r, c) => (((r + c) % 2) + ((r * c) % 3)) % 2 === 0,
+];
+
+/** Resto BCH de `value` (ya desplazado) con el generador `poly` */
+function bch(value: number, poly: number): number {
+  const polyLen = Math.floor(Math.log2(poly));
+  let v = value;
+  while (v && Math.floor(Math.log2(v)) >= polyLen) v ^= poly << (Math.floor(Math.log2(v)) - polyLen);
+  return v;
+}
+
+type Grid = { size: number; dark: boolean[][]; reserved: boolean[][] };
+
+function baseGrid(version: number): Grid {
+  const size = version * 4 + 17;
+  const dark = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const reserved = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const set = (r: number, c: number, v: boolean) => {
+    if (r < 0 || c < 0 || r >= size || c >= size) return;
+    dark[r][c] = v;
+    reserved[r][c] = true;
+  };
+
+  // patrones de posición (con su separador blanco)
+  for (const [r0, c0] of [[0, 0], [0, size - 7], [size - 7, 0]]) {
+    for (let r = -1; r <= 7; r++) {
+      for (let c = -1; c <= 7; c++) {
+        const ring = Math.max(Math.abs(r - 3), Math.abs(c - 3));
+        set(r0 + r, c0 + c, ring !== 2 && ring !== 4);
+      }
+    }
+  }
+
+  // alineación (menos donde pisaría un patrón de posición)
+  const pos = ALIGNMENT[version - 1];
+  for (const r of pos) {
+    for (const c of pos) {
+      if (reserved[r][c]) continue;
+      for (let dr = -2; dr <= 2; dr++) {
+        for (let dc = -2; dc <= 2; dc++) set(r + dr, c + dc, Math.max(Math.abs(dr), Math.abs(dc)) !== 1);
+      }
+    }
+  }
+
+  // patrones de sincronía
+  for (let i = 8; i < size - 8; i++) {
+    set(6, i, i % 2 === 0);
+    set(i, 6, i % 2 === 0);
+  }
+
+  // módulo oscuro y sitio del formato
+  set(size - 8, 8, true);
+  for (let i = 0; i < 9; i++) {
+    if (!reserved[8][i]) set(8, i, false);
+    if (!reserved[i][8]) set(i, 8, false);
+  }
+  for (let i = 0; i < 8; i++) {
+    set(8, size - 1 - i, false);
+    if (i < 7) set(size - 1 - i, 8, false);
+  }
+
+  // información de versión (a partir de la 7)
+  if (version >= 7) {
+    const info = (version << 12) | bch(version << 12, 0x1f25);
+    for (let i = 0; i < 18; i++) {
+      const bit = ((info >>> i) & 1) === 1;
+      const [a, b] = [Math.floor(i / 3), size - 11 + (i % 3)];
+      set(a, b, bit);
+      set(b, a, bit);
+    }
+  }
+  return { size, dark, reserved };
+}
+
+function placeData(grid: Grid, codewords: number[]) {
+  const { size, dark, reserved } = grid;
+  let bit = 0;
+  const total = codewords.length * 8;
+  // columnas de dos en dos, de derecha a izquierda, subiendo y bajando; la 6 es la de sincronía
+  for (let right = size - 1, upward = true; right >= 1; right -= 2, upward = !upward) {
+    if (right === 6) right = 5;
+    for (let k = 0; k < size; k++) {
+      const r = upward ? size - 1 - k : k;
+      for (const c of [right, right - 1]) {
+        if (reserved[r][c]) continue;
+        dark[r][c] = bit < total && ((codewords[bit >> 3] >>> (7 - (bit & 7))) & 1) === 1;
+        bit++;
+      }
+    }
+  }
+}
+
+function applyMask(grid: Grid, mask: number): boolean[][] {
+  const test = MASKS[mask];
+  const out = grid.dark.map((row, r) => row.map((v, c) => (grid.reserved[r][c] ? v : v !== test(r, c))));
+  const { size } = grid;
+
+  // formato: corrección M (00) y máscara, con su BCH y la máscara fija 0x5412
+  const data = mask; // 0b00 << 3 | mask
+  const format = ((data << 10) | bch(data << 10, 0x537)) ^ 0x5412;
+  const bitAt = (i: number) => ((format >>> i) & 1) === 1;
+  for (let i = 0; i < 6; i++) out[i][8] = bitAt(i);
+  out[7][8] = bitAt(6);
+  out[8][8] = bitAt(7);
+  out[8][7] = bitAt(8);
+  for (let i = 9; i < 15; i++) out[8][14 - i] = bitAt(i);
+  for (let i = 0; i < 8; i++) out[8][size - 1 - i] = bitAt(i);
+  for (let i = 8; i < 15; i++) out[size - 15 + i][8] = bitAt(i);
+  out[size - 8][8] = true;
+  return out;
+}
+
+/** Penalización de la norma: se queda la máscara que menos suma */
+function penalty(m: boolean[][]): number {
+  const size = m.length;
+  let score = 0;
+  const lines = [
+    ...m,
+    ...m.map((_, c) => m.map((row) => row[c])),
+  ];
+  for (const line of lines) {
+    // N1: cinco o más iguales seguidos
+    let run = 1;
+    for (let i = 1; i <= size; i++) {
+      if (i < size && line[i] === line[i - 1]) run++;
+      else {
+        if (run >= 5) score += run - 2;
+        run = 1;
+      }
+    }
+    // N3: 1011101 con cuatro blancos a un lado
+    const s = line.map((v) => (v ? "1" : "0")).join("");
+    for (let i = s.indexOf("1011101"); i !== -1; i = s.indexOf("1011101", i + 1)) {
+      const before = s.slice(Math.max(0, i - 4), i);
+      const after = s.slice(i + 7, i + 11);
+      if ((i >= 4 && before === "0000") || (i + 11 <= size && after === "0000")) score += 40;
+    }
+  }
+  // N2: bloques 2×2 del mismo color
+  for (let r = 0; r < size - 1; r++) {
+    for (let c = 0; c < size - 1; c++) {
+      const v = m[r][c];
+      if (m[r][c + 1] === v && m[r + 1][c] === v && m[r + 1][c + 1] === v) score += 3;
+    }
+  }
+  // N4: proporción de negros lejos del 50 %
+  const darkCount = m.reduce((n, row) => n + row.filter(Boolean).length, 0);
+  score += Math.floor(Math.abs((darkCount * 100) / (size * size) - 50) / 5) * 10;
+  return score;
+}
+
+/** Símbolo QR para `text` (UTF-8) en la versión más chica que lo admita */
+export function qrMatrix(text: string): QrMatrix {
+  const bytes = new TextEncoder().encode(text);
+  let version = 1;
+  for (; version <= MAX_VERSION; version++) {
+    const { groups } = EC_M[version - 1];
+    const capacity = groups.reduce((n, [blocks, size]) => n + blocks * size, 0) * 8;
+    if (4 + (version < 10 ? 8 : 16) + bytes.length * 8 <= capacity) break;
+  }
+  if (version > MAX_VERSION) throw new Error(`Texto demasiado largo para el QR (${bytes.length} bytes)`);
+
+  const grid = baseGrid(version);
+  placeData(grid, encodeData(bytes, version));
+
+  let best: boolean[][] = [];
+  let bestScore = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    const candidate = applyMask(grid, mask);
+    const score = penalty(candidate);
+    if (score < bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Trayecto SVG con los módulos negros (un rectángulo por tramo de cada fila),
+ * en unidades de módulo; para `page.drawSvgPath` con `scale` = tamaño del módulo.
+ */
+export function qrSvgPath(matrix: QrMatrix): string {
+  const parts: string[] = [];
+  matrix.forEach((row, r) => {
+    for (let c = 0; c < row.length; c++) {
+      if (!row[c]) continue;
+      let end = c;
+      while (end + 1 < row.length && row[end + 1]) end++;
+      parts.push(`M${c} ${r}h${end - c + 1}v1h${-(end - c + 1)}z`);
+      c = end;
+    }
+  });
+  return parts.join("");
+}
@@ -0,0 +1,180 @@
+import { describe, expect, it } from "vitest";
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFRef } from "pdf-lib";
+import * as pdfjs from "pdfjs-dist/legacy/build/pdf.js";
+import { describeFormFields } from "./formFields";
+import { renderDocument, RenderOptions } from "./renderDocument";
+
+/* ===== PLANTILLA DE PRUEBA ===== */
+
+// Portada con título, cuerpo y dos campos; contraportada con la firma del destinatario
+async function formTemplate(): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  const cover = doc.addPage([595, 842]);
+  const closing = doc.addPage([595, 842]);
+  const form = doc.getForm();
+  form.createTextField("titulo").addToPage(cover, { x: 50, y: 760, width: 495, height: 30 });
+  form.createTextField("cuerpo").addToPage(cover, { x: 50, y: 100, width: 495, height: 640 });
+  form.createTextField("nombre").addToPage(cover, { x: 50, y: 60, width: 200, height: 20 });
+  form.createCheckBox("acepto").addToPage(cover, { x: 300, y: 60, width: 14, height: 14 });
+  form.createTextField("firma_destinatario").addToPage(closing, { x: 50, y: 100, width: 250, height: 40 });
+  return doc.save();
+}
+
+async function renderFilled(extra: Partial<RenderOptions>) {
+  const template = await formTemplate();
+  const formFields = describeFormFields(await PDFDocument.load(template));
+  const { bytes } = await renderDocument(
+    template,
+    { title: "Contrato", body: "Texto del cuerpo.\n\n".repeat(80) },
+    {
+      detectedFields: formFields.map((f) => f.name),
+      fieldRects: Object.fromEntries(formFields.map((f) => [f.name, f.rect!])),
+      titleFieldName: "titulo",
+      bodyFieldName: "cuerpo",
+      formFields,
+      fieldValues: { nombre: "Ana", acepto: true },
+      templatePages: { first: 0, continuation: 0, closing: 1 },
+      fieldMode: "fill",
+      ...extra,
+    }
+  );
+  return PDFDocument.load(bytes);
+}
+
+/** Referencias de /Annots que ya no llevan a ningún objeto */
+function danglingAnnots(doc: PDFDocument): string[] {
+  return doc.getPages().flatMap((page, i) =>
+    (page.node.Annots()?.asArray() ?? [])
+      .filter((a) => a instanceof PDFRef && !doc.context.lookup(a))
+      .map((a) => `hoja ${i + 1}: ${a}`)
+  );
+}
+
+/** Widgets de las hojas que no pertenecen a ningún campo de AcroForm.Fields */
+function deadWidgets(doc: PDFDocument): string[] {
+  const live = new Set(
+    doc
+      .getForm()
+      .getFields()
+      .flatMap((f) => f.acroField.getWidgets().map((w) => w.dict))
+  );
+  return doc.getPages().flatMap((page, i) =>
+    (page.node.Annots()?.asArray() ?? [])
+      .map((a) => doc.context.lookup(a))
+      .filter((a): a is PDFDict => a instanceof PDFDict && a.get(PDFName.of("Subtype")) === PDFName.of("Widget"))
+      .filter((a) => !live.has(a))
+      .map((a) => `hoja ${i + 1}: ${a.get(PDFName.of("T")) ?? a.get(PDFName.of("Parent"))}`)
+  );
+}
+
+/* ===== MODO "FILL" ===== */
+
+describe("renderDocument en modo fill", () => {
+  it("no deja anotaciones colgando ni widgets muertos sin aplanar", async () => {
+    const doc = await renderFilled({ flattenFields: false });
+    expect(doc.getPageCount()).toBeGreaterThan(2);
+    expect(danglingAnnots(doc)).toEqual([]);
+    expect(deadWidgets(doc)).toEqual([]);
+    const names = doc.getForm().getFields().map((f) => f.getName());
+    expect(names).not.toContain("cuerpo");
+    expect(names).toEqual(expect.arrayContaining(["titulo", "nombre", "acepto", "firma_destinatario"]));
+  });
+
+  it("al aplanar deja vivos solo los campos editables, también en la contraportada", async () => {
+    const doc = await renderFilled({ flattenFields: true, editableFields: ["firma_destinatario"] });
+    expect(danglingAnnots(doc)).toEqual([]);
+    expect(deadWidgets(doc)).toEqual([]);
+    expect(doc.getForm().getFields().map((f) => f.getName())).toEqual(["firma_destinatario"]);
+    const last = doc.getPage(doc.getPageCount() - 1);
+    expect(last.node.lookupMaybe(PDFName.of("Annots"), PDFArray)?.size()).toBe(1);
+  });
+});
+
+/* ===== HOJAS DE LA PLANTILLA ===== */
+
+describe("renderDocument con varias hojas de plantilla", () => {
+  it("deja solo la portada elegida antes de añadir las continuaciones", async () => {
+    const doc = await PDFDocument.create();
+    doc.addPage([500, 700]);
+    doc.addPage([595, 842]);
+    doc.addPage([600, 600]);
+    const { bytes } = await renderDocument(
+      await doc.save(),
+      { title: "Informe", body: "Párrafo de prueba.\n\n".repeat(120) },
+      { templatePages: { first: 1, continuation: 2 } }
+    );
+    const out = await PDFDocument.load(bytes);
+    const sizes = out.getPages().map((p) => `${p.getWidth()}x${p.getHeight()}`);
+    expect(sizes.length).toBeGreaterThan(1);
+    expect(sizes[0]).toBe("595x842");
+    expect(sizes.slice(1).every((s) => s === "600x600")).toBe(true);
+  });
+});
+
+/** Borde derecho del texto que cumple `match` en cada hoja */
+async function rightEdges(bytes: Uint8Array, match: RegExp): Promise<number[]> {
+  const pdf = await pdfjs.getDocument({ data: bytes.slice(), disableFontFace: true, verbosity: 0 }).promise;
+  const edges: number[] = [];
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const { items } = await (await pdf.getPage(i)).getTextContent();
+    edges.push(Math.max(0, ...items.map((it) => ("str" in it && match.test(it.str) ? it.transform[4] + it.width : 0))));
+  }
+  await pdf.destroy();
+  return edges;
+}
+
+describe("renderDocument con hojas de distinto ancho", () => {
+  // un solo párrafo largo, para que siga de una hoja a otra
+  const body = Array.from({ length: 900 }, (_, i) => `palabra${i % 17}`).join(" ");
+
+  const render = async (first: number, continuation: number) => {
+    const doc = await PDFDocument.create();
+    doc.addPage([first, 842]);
+    doc.addPage([continuation, 842]);
+    const { bytes } = await renderDocument(await doc.save(), { title: "Informe", body }, {
+      templatePages: { first: 0, continuation: 1 },
+    });
+    return rightEdges(bytes, /palabra/);
+  };
+
+  it("vuelve a cortar el párrafo en una continuación más estrecha", async () => {
+    const edges = await render(595, 300);
+    expect(edges.length).toBeGreaterThan(2);
+    expect(edges[0]).toBeGreaterThan(400);
+    edges.slice(1).forEach((e) => expect(e).toBeLessThanOrEqual(300));
+  });
+
+  it("aprovecha el ancho de una continuación más ancha", async () => {
+    const edges = await render(300, 595);
+    expect(edges.length).toBeGreaterThan(1);
+    expect(edges[0]).toBeLessThanOrEqual(300);
+    edges.slice(1, -1).forEach((e) => expect(e).toBeGreaterThan(400));
+  });
+});
+
+/* ===== ÍNDICE Y HOJAS PARES ===== */
+
+describe("renderDocument con índice y plantilla para hojas pares", () => {
+  it("cada hoja, también tras insertar el índice, sale de la plantilla de su paridad", async () => {
+    const doc = await PDFDocument.create();
+    doc.addPage([595, 842]); // portada
+    doc.addPage([590, 842]); // hojas impares
+    doc.addPage([580, 842]); // hojas pares
+    const body = Array.from({ length: 6 }, (_, i) => `# Capítulo ${i + 1}\n\n${"Texto del capítulo. ".repeat(300)}`).join(
+      "\n\n"
+    );
+    const { bytes, report } = await renderDocument(
+      await doc.save(),
+      { title: "Informe", body },
+      {
+        templatePages: { first: 0, continuation: 1, continuationEven: 2 },
+        toc: { outline: false, contentsPage: true, detectHeadings: false, maxLevel: 1 },
+      }
+    );
+    const widths = (await PDFDocument.load(bytes)).getPages().map((p) => p.getWidth());
+    expect(report.headings).toHaveLength(6);
+    expect(widths.length).toBeGreaterThan(4);
+    // hoja n (1-based): la 1 es la portada, las pares usan la plantilla par
+    widths.forEach((w, i) => expect(w).toBe(i === 0 ? 595 : (i + 1) % 2 === 0 ? 580 : 590));
+  });
+});
@@ -0,0 +1,1522 @@
+import { Color, PDFDocument, PDFImage, PDFPage, PDFTextField, rgb } from "pdf-lib";
+import { embedFontChains, FontChain, FontStyle, RenderFonts } from "./fonts";
+import {
+  dropOrphanFields,
+  fieldOnPage,
+  FieldValue,
+  fillFormField,
+  flattenFormFields,
+  FormFieldInfo,
+  formatFieldValue,
+  isFillable,
+  linkCopiedWidgets,
+  removeFormField,
+} from "./formFields";
+import { DocBlock, headingLevelOf, parseMarkup, RunLine, runLineText } from "./markup";
+import { applyMetadata, DocMetadata, makeArchival, OutputProfile } from "./pdfArchive";
+import { addInternalLink, addOutline, OutlineItem } from "./pdfOutline";
+import { qrMatrix, qrSvgPath } from "./qrCode";
+import { drawLine, LayoutLine, measureWords, rewrapLines, TextAlign, withEllipsis, wrapWords } from "./textLayout";
+import type { VerificationStamp } from "./verification";
+import { drawWatermark, WatermarkSettings } from "./watermark";
+
+/* ============================= */
+/* MOTOR DE MAQUETACIÓN (HEADLESS) */
+/* ============================= */
+
+export type FieldRect = { x: number; y: number; width: number; height: number };
+
+export type RenderContent = {
+  title: string;
+  body: string;
+  /** Texto fijo del pie (en la región `footer` o abajo a la izquierda) */
+  footer?: string;
+};
+
+/**
+ * Regiones dibujadas sobre la plantilla (en puntos PDF, origen abajo a la
+ * izquierda). Sustituyen a los márgenes por defecto cuando la plantilla no
+ * tiene campos de formulario para ese rol.
+ */
+export type TemplateRegions = {
+  title?: FieldRect | null;
+  /** Cuerpo en la portada */
+  body?: FieldRect | null;
+  /** Cuerpo en las hojas de continuación; sin ella se usa `body` (ampliada hasta el título) */
+  continuationBody?: FieldRect | null;
+  footer?: FieldRect | null;
+  pageNumber?: FieldRect | null;
+  /** Recuadro de la firma digital visible, en la última hoja (ver pdfSign.ts) */
+  signature?: FieldRect | null;
+};
+
+export const REGION_KINDS = ["title", "body", "continuationBody", "footer", "pageNumber", "signature"] as const;
+
+export type RegionKind = (typeof REGION_KINDS)[number];
+
+/**
+ * Qué página de la plantilla (0-based) se usa para cada hoja del documento.
+ * Las páginas de la plantilla que no se designan no aparecen en el resultado.
+ */
+export type TemplatePages = {
+  /** Portada: primera hoja, con título */
+  first: number;
+  /** Hojas de continuación (las impares/derechas si hay `continuationEven`) */
+  continuation: number;
+  /** Alternativa para las hojas pares (izquierdas); null = siempre `continuation` */
+  continuationEven?: number | null;
+  /** Página que se añade al final como cierre (contraportada); null = ninguna */
+  closing?: number | null;
+};
+
+/** Controles tipográficos del cuerpo (en puntos) */
+export type Typography = {
+  fontSize: number;
+  /** Distancia entre líneas base */
+  leading: number;
+  /** Espacio extra entre bloques (párrafos, listas, tablas) */
+  paragraphSpacing: number;
+  /** Sangría de la primera línea de cada párrafo */
+  firstLineIndent: number;
+  align: TextAlign;
+  /** Partir palabras con guion al final de línea (silabeo español) */
+  hyphenate: boolean;
+  /** Margen interior dentro del rectángulo del título/cuerpo */
+  padding: number;
+  /** Mínimo de renglones de un párrafo que pueden quedar al pie de una página */
+  orphans: number;
+  /** Mínimo de renglones de un párrafo que pueden pasar solos a la página siguiente */
+  widows: number;
+};
+
+export const DEFAULT_TYPOGRAPHY: Typography = {
+  fontSize: 11,
+  leading: 14,
+  paragraphSpacing: 14,
+  firstLineIndent: 0,
+  align: "left",
+  hyphenate: false,
+  padding: 5,
+  orphans: 2,
+  widows: 2,
+};
+
+export type RenderOptions = {
+  /** Nombres de campos detectados en la plantilla (AcroForm) */
+  detectedFields?: string[] | null;
+  /** Rectángulos de cada campo detectado */
+  fieldRects?: Record<string, FieldRect>;
+  titleFieldName?: string;
+  bodyFieldName?: string;
+  /** Todos los campos del formulario con su tipo (ver ./formFields) */
+  formFields?: FormFieldInfo[];
+  /** Valores de los campos que no son título ni cuerpo */
+  fieldValues?: Record<string, FieldValue>;
+  /** Regiones del editor visual (ver TemplateRegions) */
+  regions?: TemplateRegions | null;
+  /** Fuentes TTF/OTF a embeber; sin ellas se usa Helvetica (solo Latin-1) */
+  fonts?: RenderFonts | null;
+  /** Imágenes PNG/JPG referenciadas en el cuerpo como ![alt](clave) */
+  images?: Record<string, Uint8Array>;
+  /** Tamaño, interlineado, alineación… (lo que falte, de DEFAULT_TYPOGRAPHY) */
+  typography?: Partial<Typography>;
+  /** Sin indicar, todas las hojas repiten la página 0 de la plantilla */
+  templatePages?: TemplatePages | null;
+  /**
+   * "draw" (por defecto) dibuja los valores encima de la plantilla; "fill"
+   * los escribe en los campos reales del formulario (hace falta la plantilla
+   * original, con su AcroForm).
+   */
+  fieldMode?: FieldMode;
+  /** Solo en modo "fill": convierte los campos en contenido fijo de la página */
+  flattenFields?: boolean;
+  /** Campos que quedan editables aunque se aplane el resto */
+  editableFields?: string[];
+  /** Qué hacer cuando el texto no cabe en un campo (por nombre; por defecto "overflow") */
+  fieldFit?: Record<string, FieldFit>;
+  /** Tamaño mínimo al que "shrink" puede reducir la letra */
+  minFontSize?: number;
+  /** Marcadores y página de índice a partir de los títulos del cuerpo */
+  toc?: TocOptions | null;
+  /** Cabecera, pie y numeración (sin indicar, DEFAULT_RUNNING) */
+  running?: RunningTexts | null;
+  /** Marca de agua en todas las hojas (texto ya con las variables resueltas) */
+  watermark?: WatermarkSettings | null;
+  /** Título, autor, asunto… del PDF (sin título, el del documento) */
+  metadata?: Partial<DocMetadata> | null;
+  /** "archival": XMP, perfil de color sRGB e ID en el trailer (ver ./pdfArchive) */
+  outputProfile?: OutputProfile;
+  /** Id del documento (el del historial): va al XMP y al ID del trailer */
+  documentId?: string;
+  /** Código bajo el pie de cada hoja y el QR en la última (ver ./verification) */
+  verification?: VerificationStamp | null;
+  /** Avisa de cada hoja nueva del cuerpo y de cada pie numerado */
+  onProgress?: (progress: RenderProgress) => void;
+};
+
+export type TocOptions = {
+  /** Marcadores del PDF (el panel lateral del lector) */
+  outline: boolean;
+  /** Página de índice, con números y enlaces, justo después de la primera hoja */
+  contentsPage: boolean;
+  /** Si el cuerpo no tiene títulos con #, adivinarlos en el texto plano */
+  detectHeadings: boolean;
+  /** Hasta qué nivel de título entra en el índice */
+  maxLevel: 1 | 2 | 3;
+};
+
+export const DEFAULT_TOC: TocOptions = {
+  outline: true,
+  contentsPage: false,
+  detectHeadings: true,
+  maxLevel: 2,
+};
+
+/** Texto a la izquierda, al centro y a la derecha de una cabecera o pie */
+export type RunningSlots = { left: string; center: string; right: string };
+
+export type Numerals = "arabic" | "roman" | "ROMAN";
+
+/**
+ * Cabecera y pie que se repiten en cada hoja. Los textos admiten
+ * {{pagina}}, {{total}} (número de la última hoja numerada), {{titulo}} y
+ * {{pie}} (el pie escrito en el generador); el resto de {{variables}} ya
+ * llegan resueltas.
+ */
+export type RunningTexts = {
+  header: RunningSlots;
+  footer: RunningSlots;
+  /** La primera hoja (portada) no lleva cabecera ni pie ni cuenta para el número */
+  skipFirst: boolean;
+  /** Número de la primera hoja numerada */
+  startAt: number;
+  numerals: Numerals;
+  /** Con una sola hoja numerada se omiten los textos con {{pagina}} o {{total}} */
+  hideOnSinglePage: boolean;
+};
+
+export const RUNNING_VARIABLES = ["pagina", "total", "titulo", "pie"] as const;
+
+export const DEFAULT_RUNNING: RunningTexts = {
+  header: { left: "", center: "", right: "" },
+  footer: { left: "{{pie}}", center: "", right: "Página {{pagina}} de {{total}}" },
+  skipFirst: false,
+  startAt: 1,
+  numerals: "arabic",
+  hideOnSinglePage: true,
+};
+
+const ROMAN: [number, string][] = [
+  [1000, "m"], [900, "cm"], [500, "d"], [400, "cd"], [100, "c"], [90, "xc"],
+  [50, "l"], [40, "xl"], [10, "x"], [9, "ix"], [5, "v"], [4, "iv"], [1, "i"],
+];
+
+/** 14 → "14", "xiv" o "XIV" (los romanos solo de 1 a 3999) */
+export function formatPageNumber(n: number, numerals: Numerals): string {
+  if (numerals === "arabic" || n < 1 || n > 3999) return String(n);
+  let rest = n;
+  let out = "";
+  for (const [value, digits] of ROMAN) {
+    while (rest >= value) {
+      out += digits;
+      rest -= value;
+    }
+  }
+  return numerals === "ROMAN" ? out.toUpperCase() : out;
+}
+
+/** "layout": se abrió la hoja `page`; "footer": pie de la hoja `page` de `total` */
+export type RenderProgress = { phase: "layout" | "footer"; page: number; total?: number };
+
+export type FieldMode = "draw" | "fill";
+
+/**
+ * Política para campos de tamaño fijo: "overflow" deja que el cuerpo siga en
+ * otra hoja (en los demás campos, recorta); "shrink" reduce la letra hasta el
+ * mínimo y, si aun así no cabe, recorta con "…"; "ellipsis" recorta con "…"
+ * al tamaño normal. Con "shrink" o "ellipsis" el cuerpo no pasa de la hoja 1.
+ */
+export type FieldFit = "overflow" | "shrink" | "ellipsis";
+
+export type FieldFitEntry = {
+  field: string;
+  policy: FieldFit;
+  /** Tamaño de letra con que quedó (0 = automático, en un campo real) */
+  fontSize: number;
+  /** Se redujo la letra para que cupiera */
+  shrunk: boolean;
+  /** Hubo que recortar texto */
+  truncated: boolean;
+};
+
+export type OverflowEntry = {
+  kind: "title-truncated" | "word-too-wide" | "field-truncated";
+  page: number; // índice 0-based
+  text: string;
+  /** Campo del formulario afectado ("field-truncated" y el título en un campo) */
+  field?: string;
+};
+
+export type LayoutReport = {
+  pages: number;
+  linesPerPage: number[];
+  /** Página (0-based) donde empieza cada bloque del cuerpo, en el orden de parseMarkup */
+  blockPages: number[];
+  /** Títulos que entraron en el índice/marcadores, con su página final (0-based) */
+  headings: HeadingEntry[];
+  overflow: OverflowEntry[];
+  /** Caracteres sin glifo en ninguna fuente (se dibujaron como "?") */
+  unsupportedChars: string[];
+  /** Estilos usados en el texto sin variante propia en la fuente (se dibujaron con la regular) */
+  substitutedStyles: FontStyle[];
+  /** Imágenes referenciadas que no se encontraron o no son PNG/JPG */
+  missingImages: string[];
+  usingFormFields: boolean;
+  /** Política de ajuste aplicada a cada campo con texto */
+  fieldFit: FieldFitEntry[];
+  /** Solo en salida "archival": lo que impide que sea PDF/A (fuentes sin incrustar) */
+  archivalIssues: string[];
+};
+
+export type HeadingEntry = { level: 1 | 2 | 3; text: string; page: number };
+
+export type RenderResult = {
+  bytes: Uint8Array;
+  report: LayoutReport;
+};
+
+const A4: [number, number] = [595, 842];
+
+const FONT_TITLE = 14;
+const LINE_H_TITLE = 16;
+
+/** Puntos que cada nivel de título suma al tamaño del cuerpo */
+const HEADING_BUMP = { 1: 5, 2: 3, 3: 1 } as const;
+const LIST_INDENT = 18;
+const QUOTE_INDENT = 14;
+
+const CELL_PAD = 4;
+
+const FIELD_FONT = 11;
+const MIN_FONT = 6;
+const FOOTER_SIZE = 9;
+const FOOTER_COLOR = rgb(0.35, 0.35, 0.35);
+const STAMP_SIZE = 7;
+/** Lado del QR de verificación (se achica si el pie está muy abajo) */
+const QR_SIZE = 54;
+const QR_MIN_SIZE = 28;
+
+const BLACK = rgb(0, 0, 0);
+const QUOTE_COLOR = rgb(0.25, 0.25, 0.25);
+const QUOTE_BAR = rgb(0.7, 0.7, 0.7);
+const TABLE_BORDER = rgb(0.6, 0.6, 0.6);
+const TABLE_HEADER_BG = rgb(0.92, 0.92, 0.92);
+
+type TextBlock = Exclude<DocBlock, { type: "table" } | { type: "image" } | { type: "page-break" }>;
+
+const imageKind = (b: Uint8Array): "png" | "jpg" | null => {
+  if (b[0] === 0x89 && b[1] === 0x50 && b[2] === 0x4e && b[3] === 0x47) return "png";
+  if (b[0] === 0xff && b[1] === 0xd8) return "jpg";
+  return null;
+};
+
+/** Textos fijos que dibuja el motor, aparte de lo que llega en el contenido y las opciones */
+const ENGINE_TEXT = "Sin título Índice …-?0123456789";
+
+/** Todas las cadenas de un valor (contenido, valores de campos, pies, marca de agua…) */
+const stringsIn = (value: unknown, out: string[] = []): string[] => {
+  if (typeof value === "string") out.push(value);
+  else if (Array.isArray(value)) value.forEach((v) => stringsIn(v, out));
+  else if (value && typeof value === "object" && !ArrayBuffer.isView(value)) {
+    Object.values(value).forEach((v) => stringsIn(v, out));
+  }
+  return out;
+};
+
+/** Tamaño, interlineado, sangría y alineación con que se dibuja cada tipo de bloque */
+type BlockSpec = {
+  size: number;
+  lineHeight: number;
+  indent: number;
+  firstLineIndent: number;
+  align: TextAlign;
+  force: { bold?: boolean; italic?: boolean };
+  color: Color;
+};
+
+export const normalizeBody = (t: string) =>
+  t.replace(/\r/g, "").replace(/\u2028|\u2029/g, "\n"); // separadores raros → \n
+
+/**
+ * Para título: parte el texto en líneas que quepan en un ancho.
+ */
+export function wrapAndConsume(
+  text: string,
+  font: FontChain,
+  size: number,
+  maxWidth: number,
+  maxLines: number
+) {
+  const words = text.split(/\s+/);
+  const lines: string[] = [];
+  let cur = "";
+
+  const width = (s: string) => font.widthOfTextAtSize(s, size);
+
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i];
+    const test = cur ? `${cur} ${word}` : word;
+
+    if (width(test) <= maxWidth) {
+      cur = test;
+    } else {
+      if (cur) lines.push(cur);
+      else lines.push(word);
+      cur = word;
+      if (lines.length === maxLines) break;
+    }
+  }
+
+  if (lines.length < maxLines && cur) lines.push(cur);
+
+  const consumed = lines.join(" ");
+  const rest = text.slice(consumed.length).trimStart();
+
+  return { lines, rest };
+}
+
+/**
+ * Ajusta un texto a un recuadro según la política de campo (ver FieldFit).
+ * `linesFor` da cuántos renglones caben con cada tamaño.
+ */
+function fitInBox(
+  text: string,
+  font: FontChain,
+  opts: { size: number; minSize: number; maxWidth: number; linesFor: (size: number) => number; policy: FieldFit }
+) {
+  let size = opts.size;
+  let { lines, rest } = wrapAndConsume(text, font, size, opts.maxWidth, opts.linesFor(size));
+
+  if (opts.policy === "shrink") {
+    while (rest && size - 0.5 >= opts.minSize) {
+      size -= 0.5;
+      ({ lines, rest } = wrapAndConsume(text, font, size, opts.maxWidth, opts.linesFor(size)));
+    }
+  }
+
+  if (rest && opts.policy !== "overflow" && lines.length > 0) {
+    let last = lines[lines.length - 1];
+    const fits = (t: string) => font.widthOfTextAtSize(t + "…", size) <= opts.maxWidth;
+    while (last && !fits(last)) {
+      last = /\s/.test(last) ? last.replace(/\s*\S+$/, "") : last.slice(0, -1);
+    }
+    lines[lines.length - 1] = last.trimEnd() + "…";
+  }
+
+  return { lines, rest, size, shrunk: size < opts.size, truncated: !!rest };
+}
+
+/**
+ * Genera el documento final sobre la plantilla: título, cuerpo paginado
+ * (con el marcado ligero de ./markup, viudas/huérfanas y saltos de página
+ * manuales) y cabecera/pie con numeración (ver RunningTexts). No depende de
+ * React ni del DOM, así que sirve igual desde Generador, Diagnostico o un
+ * script.
+ *
+ * Si no se pasa plantilla se usa una hoja A4 en blanco.
+ */
+export async function renderDocument(
+  templateBytes: Uint8Array | null,
+  content: RenderContent,
+  options: RenderOptions = {}
+): Promise<RenderResult> {
+  const bodyName = options.bodyFieldName || "";
+  if (!bodyName || options.fieldFit?.[bodyName] !== "shrink") {
+    return renderOnce(templateBytes, content, options);
+  }
+
+  // "shrink" en el cuerpo: se busca (por bisección, de medio en medio punto)
+  // el mayor tamaño con el que todo cabe en la primera hoja
+  const base: Typography = { ...DEFAULT_TYPOGRAPHY, ...options.typography };
+  const minSize = Math.min(base.fontSize, options.minFontSize ?? MIN_FONT);
+  const scaled = (size: number): Typography => {
+    const k = size / base.fontSize;
+    return {
+      ...base,
+      fontSize: size,
+      leading: base.leading * k,
+      paragraphSpacing: base.paragraphSpacing * k,
+      firstLineIndent: base.firstLineIndent * k,
+    };
+  };
+  const attempt = async (size: number) => {
+    const r = await renderOnce(templateBytes, content, { ...options, typography: scaled(size) });
+    const entry = r.report.fieldFit.find((f) => f.field === bodyName);
+    if (entry) entry.shrunk = size < base.fontSize;
+    return r;
+  };
+  const bodyEntry = (r: RenderResult) => r.report.fieldFit.find((f) => f.field === bodyName);
+
+  const first = await attempt(base.fontSize);
+  if (!bodyEntry(first)?.truncated) return first;
+
+  // pasos de 0,5 pt por debajo del tamaño base: `lo` no cabe, `hi` sí (o es el tope)
+  const maxStep = Math.floor((base.fontSize - minSize) * 2);
+  let lo = 0;
+  let hi = maxStep + 1;
+  let best: RenderResult | null = null;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    const r = await attempt(base.fontSize - mid / 2);
+    if (bodyEntry(r)?.truncated) lo = mid;
+    else {
+      hi = mid;
+      best = r;
+    }
+  }
+  // ni con la letra mínima cabe: se queda al mínimo, recortado con "…"
+  if (best) return best;
+  return maxStep > 0 ? attempt(base.fontSize - maxStep / 2) : first;
+}
+
+async function renderOnce(
+  templateBytes: Uint8Array | null,
+  content: RenderContent,
+  options: RenderOptions
+): Promise<RenderResult> {
+  const {
+    detectedFields = null,
+    fieldRects = {},
+    titleFieldName = "",
+    bodyFieldName = "",
+    regions = {},
+    formFields = [],
+    fieldValues = {},
+    fonts = null,
+    images = {},
+  } = options;
+  const typo: Typography = { ...DEFAULT_TYPOGRAPHY, ...options.typography };
+  typo.leading = Math.max(typo.leading, typo.fontSize); // sin renglones encimados
+  const PAD = typo.padding;
+  const LINE_H = typo.leading;
+  const TABLE_FONT = Math.max(6, typo.fontSize - 1);
+  const TABLE_LINE_H = Math.max(TABLE_FONT + 1, typo.leading - 1);
+
+  let tplBytes = templateBytes;
+  if (!tplBytes) {
+    const blank = await PDFDocument.create();
+    blank.addPage(A4);
+    tplBytes = await blank.save();
+  }
+
+  const pdfDoc = await PDFDocument.load(tplBytes);
+  const srcTemplate = await PDFDocument.load(tplBytes);
+
+  const tplCount = srcTemplate.getPageCount();
+  const clampPage = (i: number) => Math.min(tplCount - 1, Math.max(0, Math.floor(i)));
+  const optionalPage = (i: number | null | undefined) => (i == null ? null : clampPage(i));
+  const roles = {
+    first: clampPage(options.templatePages?.first ?? 0),
+    continuation: clampPage(options.templatePages?.continuation ?? 0),
+    continuationEven: optionalPage(options.templatePages?.continuationEven),
+    closing: optionalPage(options.templatePages?.closing),
+  };
+
+  // Página de la plantilla para la hoja `pageIndex` del resultado
+  const templatePageFor = (pageIndex: number) => {
+    if (pageIndex === 0) return roles.first;
+    const evenSheet = (pageIndex + 1) % 2 === 0;
+    return evenSheet && roles.continuationEven !== null ? roles.continuationEven : roles.continuation;
+  };
+
+  // Página de la plantilla de la que sale cada hoja del resultado
+  const sourcePages: number[] = [roles.first];
+
+  // Solo queda la portada; se quita el resto sin recargar para conservar el
+  // formulario. Va por el árbol de páginas del catálogo y antes de pedir
+  // ninguna página: removePage dejaría la lista de páginas de pdf-lib con las
+  // quitadas (solo addPage/insertPage la rehacen)
+  for (let i = tplCount - 1; i >= 0; i--) {
+    if (i !== roles.first) pdfDoc.catalog.removeLeafNode(i);
+  }
+
+  // solo se embeben los respaldos que pide algún carácter de lo que se puede dibujar
+  const chains = await embedFontChains(pdfDoc, fonts, stringsIn([content, options, ENGINE_TEXT]).join("\n"));
+  const titleFont = chains.title;
+  const bodyFont = chains.body;
+  const styles = chains.styles;
+
+  // Modo "fill": los valores van a los campos del formulario de la portada
+  const form = options.fieldMode === "fill" ? pdfDoc.getForm() : null;
+  if (form) dropOrphanFields(pdfDoc);
+  const liveField = (name: string) => (form && name ? form.getFieldMaybe(name) : undefined);
+
+  // La apariencia de los campos se genera con la fuente del cuerpo: lo que no
+  // tenga glifo se cambia por "?" igual que en el texto dibujado
+  const fieldCharset = new Set(bodyFont.primary.getCharacterSet());
+  const encodable = (text: string) =>
+    Array.from(text)
+      .map((ch) => {
+        if (/\s/.test(ch) || fieldCharset.has(ch.codePointAt(0)!)) return ch;
+        chains.missing.add(ch);
+        return "?";
+      })
+      .join("");
+  const fieldValueFor = (value: FieldValue | undefined) =>
+    typeof value === "string" ? encodable(value) : value;
+
+  const p0 = pdfDoc.getPage(0);
+  const { width, height } = p0.getSize();
+
+  const overflow: OverflowEntry[] = [];
+  const missingImages: string[] = [];
+  const linesPerPage: number[] = [0];
+  const blockPages: number[] = [];
+  // Altura del primer renglón de cada bloque (destino de marcadores y enlaces)
+  const blockTops: number[] = [];
+
+  const fieldFit = options.fieldFit ?? {};
+  const minFont = options.minFontSize ?? MIN_FONT;
+  const fitEntries: FieldFitEntry[] = [];
+  const noteFit = (entry: FieldFitEntry) => {
+    if (!fitEntries.some((e) => e.field === entry.field)) fitEntries.push(entry);
+  };
+  // En un campo real "shrink" se deja al visor: tamaño 0 = automático
+  const autoSizeLiveField = (name: string) => {
+    const field = liveField(name);
+    if (field instanceof PDFTextField) field.setFontSize(0);
+  };
+
+  // Campos
+  const hasTitleField =
+    detectedFields &&
+    detectedFields.length > 0 &&
+    titleFieldName &&
+    fieldRects[titleFieldName];
+
+  const hasBodyField =
+    detectedFields &&
+    detectedFields.length > 1 &&
+    bodyFieldName &&
+    bodyFieldName !== titleFieldName &&
+    fieldRects[bodyFieldName];
+
+  const usingFormFields = !!(
+    (hasTitleField || hasBodyField) &&
+    detectedFields &&
+    detectedFields.length > 0
+  );
+
+  // ========= MÁRGENES ADAPTATIVOS =========
+  let marginX: number;
+  let bottomMargin: number;
+  let topMarginFirst: number;
+  let topBandFlow: number;
+
+  if (usingFormFields) {
+    marginX = 72;
+    bottomMargin = 72;
+    topMarginFirst = 140;
+    topBandFlow = 72;
+  } else {
+    marginX = 48;
+    bottomMargin = 96;
+    topMarginFirst = 80;
+    topBandFlow = 80;
+  }
+
+  // Rect título
+  let titleRect: FieldRect;
+  if (hasTitleField) {
+    titleRect = fieldRects[titleFieldName];
+  } else if (regions?.title) {
+    titleRect = regions.title;
+  } else {
+    titleRect = {
+      x: marginX,
+      y: height - topMarginFirst,
+      width: width - marginX * 2,
+      height: 32,
+    };
+  }
+
+  // Rect cuerpo primera página
+  let bodyRectFirst: FieldRect;
+  if (hasBodyField) {
+    bodyRectFirst = fieldRects[bodyFieldName];
+  } else if (regions?.body) {
+    bodyRectFirst = regions.body;
+  } else {
+    const usableHeight = titleRect.y - 16 - bottomMargin;
+    bodyRectFirst = {
+      x: marginX,
+      y: bottomMargin,
+      width: width - marginX * 2,
+      height: Math.max(usableHeight, LINE_H * 4),
+    };
+  }
+
+  // Rect flujo genérico para hojas de continuación (cada página de la plantilla
+  // puede tener otro tamaño)
+  const flowRectFor = (page: PDFPage): FieldRect => {
+    const size = page.getSize();
+    return {
+      x: marginX,
+      y: bottomMargin,
+      width: size.width - marginX * 2,
+      height: size.height - bottomMargin - topBandFlow,
+    };
+  };
+
+  let flowRectWithTitle: FieldRect | null = null;
+  if (hasBodyField) {
+    const extraHeight = titleRect.height + 8;
+    flowRectWithTitle = {
+      x: bodyRectFirst.x,
+      y: bodyRectFirst.y,
+      width: bodyRectFirst.width,
+      height: bodyRectFirst.height + extraHeight,
+    };
+  }
+
+  const rectForPage = (pageIndex: number, page: PDFPage): FieldRect => {
+    if (pageIndex === 0) return bodyRectFirst;
+    // los campos están en la portada: solo valen si la continuación es la misma página
+    const samePage = templatePageFor(pageIndex) === roles.first;
+    if (hasBodyField && samePage) {
+      return flowRectWithTitle ?? bodyRectFirst;
+    }
+    if (regions?.continuationBody) return regions.continuationBody;
+    if (regions?.body) {
+      // sin título en las hojas siguientes, el cuerpo sube hasta donde empezaba
+      if (!samePage || !regions.title) return regions.body;
+      const top = Math.max(regions.body.y + regions.body.height, titleRect.y + titleRect.height);
+      return { ...regions.body, height: top - regions.body.y };
+    }
+    return flowRectFor(page);
+  };
+
+  // Limpia SOLO título si no hay campos ni región dibujada (para quitar texto demo de la plantilla)
+  if (!usingFormFields && !regions?.title) {
+    p0.drawRectangle({
+      x: titleRect.x,
+      y: titleRect.y,
+      width: titleRect.width,
+      height: titleRect.height,
+      color: rgb(1, 1, 1),
+    });
+  }
+
+  /* ===== TÍTULO ===== */
+  const titleField = hasTitleField ? liveField(titleFieldName) : undefined;
+  const filledTitle =
+    !!titleField &&
+    fillFormField(form!, { name: titleFieldName, kind: "text", page: 0 }, encodable(content.title || "Sin título"));
+  const titleMaxW = titleRect.width - PAD * 2;
+  const titlePolicy: FieldFit = hasTitleField ? fieldFit[titleFieldName] ?? "overflow" : "overflow";
+  const titleLineH = (size: number) => (size * LINE_H_TITLE) / FONT_TITLE;
+  const titleFit = fitInBox(content.title || "Sin título", titleFont, {
+    size: FONT_TITLE,
+    minSize: Math.min(FONT_TITLE, minFont),
+    maxWidth: titleMaxW,
+    linesFor: (size) => Math.max(1, Math.floor(titleRect.height / titleLineH(size))),
+    policy: titlePolicy,
+  });
+  if (titleFit.rest) {
+    overflow.push({
+      kind: "title-truncated",
+      page: 0,
+      text: titleFit.rest,
+      field: hasTitleField ? titleFieldName : undefined,
+    });
+  }
+
+  if (filledTitle) {
+    if (titlePolicy === "shrink") autoSizeLiveField(titleFieldName);
+    noteFit({ field: titleFieldName, policy: titlePolicy, fontSize: 0, shrunk: false, truncated: false });
+  } else {
+    if (hasTitleField) {
+      noteFit({
+        field: titleFieldName,
+        policy: titlePolicy,
+        fontSize: titleFit.size,
+        shrunk: titleFit.shrunk,
+        truncated: titleFit.truncated,
+      });
+    }
+    let ty = titleRect.y + titleRect.height - PAD - titleFit.size;
+    titleFit.lines.forEach((line) => {
+      titleFont.drawText(p0, line, {
+        x: titleRect.x + PAD,
+        y: ty,
+        size: titleFit.size,
+        color: rgb(0, 0, 0),
+      });
+      ty -= titleLineH(titleFit.size);
+    });
+  }
+
+  /* ===== CUERPO ===== */
+
+  // El cuerpo fluye por varias hojas: el campo real se quita para que su
+  // widget no tape el texto dibujado
+  const bodyField = hasBodyField ? liveField(bodyFieldName) : undefined;
+  if (bodyField) removeFormField(pdfDoc, bodyField);
+
+  const blocks = parseMarkup(normalizeBody(content.body));
+
+  /* ===== HOJAS DE ÍNDICE (RESERVA) ===== */
+  const toc = options.toc ?? null;
+  const guessHeadings = !!toc?.detectHeadings && !blocks.some((b) => b.type === "heading");
+  const TOC_SIZE = typo.fontSize;
+  const TOC_LINE_H = typo.leading + 2;
+  const TOC_TITLE_SIZE = typo.fontSize + HEADING_BUMP[1];
+
+  /** Entrada del índice para un bloque (null si no es un título que entre) */
+  const tocEntryOf = (block: DocBlock) => {
+    if (!toc) return null;
+    const level = headingLevelOf(block, guessHeadings);
+    if (!level || level > toc.maxLevel || !("lines" in block)) return null;
+    const title = block.lines.map(runLineText).join(" ").replace(/\s+/g, " ").trim();
+    return title ? { level, title } : null;
+  };
+
+  /** Renglones de índice que caben en una hoja (al menos uno, aunque la región sea muy baja) */
+  const tocLinesOn = (rect: FieldRect, first: boolean) => {
+    const heading = first ? TOC_TITLE_SIZE + TOC_LINE_H : 0;
+    const firstY = rect.y + rect.height - PAD - TOC_SIZE - heading;
+    return Math.max(1, Math.floor((firstY - rect.y - PAD) / TOC_LINE_H) + 1);
+  };
+
+  // El índice va tras la portada pero se inserta después de maquetar (hacen
+  // falta las páginas finales). Sus hojas se cuentan ya, para que cada hoja del
+  // cuerpo tome la plantilla par/impar y la región de su posición definitiva
+  let tocReserved = 0;
+  if (toc?.contentsPage) {
+    let remaining = blocks.filter((b) => tocEntryOf(b)).length;
+    while (remaining > 0) {
+      const idx = 1 + tocReserved;
+      remaining -= tocLinesOn(rectForPage(idx, srcTemplate.getPage(templatePageFor(idx))), tocReserved === 0);
+      tocReserved++;
+    }
+  }
+
+  // Con "shrink"/"ellipsis" el cuerpo no pasa de su campo en la primera hoja:
+  // pedir otra hoja corta el flujo (BODY_FULL) y el último renglón lleva "…"
+  const bodyPolicy: FieldFit = hasBodyField ? fieldFit[bodyFieldName] ?? "overflow" : "overflow";
+  const clipBody = bodyPolicy !== "overflow";
+  const BODY_FULL = Symbol("cuerpo lleno");
+  let bodyClipped = false;
+
+  // Bloque que se está colocando: su página es la del primer renglón que dibuja
+  let currentBlock = -1;
+  const markBlockPage = () => {
+    if (currentBlock < 0 || blockPages[currentBlock] !== undefined) return;
+    blockPages[currentBlock] = currentPageIndex;
+    blockTops[currentBlock] = cursorTop;
+  };
+
+  let currentPage: PDFPage = p0;
+  let currentPageIndex = 0;
+  let currentRect = rectForPage(0, p0);
+  let cursorTop = currentRect.y + currentRect.height - PAD;
+  let atPageTop = true;
+
+  const ensureNewPage = async () => {
+    if (clipBody) throw BODY_FULL;
+    const idx = pdfDoc.getPageCount();
+    // plantilla y región de la posición que tendrá la hoja tras insertar el índice
+    sourcePages[idx] = templatePageFor(idx + tocReserved);
+    const [tpl] = await pdfDoc.copyPages(srcTemplate, [sourcePages[idx]]);
+    const page = pdfDoc.addPage(tpl);
+    if (form) linkCopiedWidgets(pdfDoc, page, false);
+    const rect = rectForPage(idx + tocReserved, page);
+
+    currentPage = page;
+    currentPageIndex = idx;
+    currentRect = rect;
+    cursorTop = currentRect.y + currentRect.height - PAD;
+    atPageTop = true;
+    linesPerPage[idx] = 0;
+    options.onProgress?.({ phase: "layout", page: idx + 1 });
+  };
+
+  // Misma regla que antes: la base del renglón debe quedar a `size` del borde inferior
+  const lineTooLow = (size: number) => cursorTop - size < currentRect.y + PAD + size;
+
+  const bodySpec: BlockSpec = {
+    size: typo.fontSize,
+    lineHeight: typo.leading,
+    indent: 0,
+    firstLineIndent: 0,
+    align: typo.align,
+    force: {},
+    color: BLACK,
+  };
+
+  const specFor = (block: TextBlock): BlockSpec => {
+    switch (block.type) {
+      case "heading": {
+        const size = typo.fontSize + HEADING_BUMP[block.level];
+        const lineHeight = Math.round((size * typo.leading) / typo.fontSize);
+        return { ...bodySpec, size, lineHeight, align: "left", force: { bold: true } };
+      }
+      case "list-item":
+        // una viñeta centrada no se lee como lista
+        return {
+          ...bodySpec,
+          indent: LIST_INDENT * (block.depth + 1),
+          align: typo.align === "center" ? "left" : typo.align,
+        };
+      case "quote":
+        return { ...bodySpec, indent: QUOTE_INDENT, color: QUOTE_COLOR };
+      default:
+        return { ...bodySpec, firstLineIndent: typo.align === "center" ? 0 : typo.firstLineIndent };
+    }
+  };
+
+  type TextLayout = { spec: BlockSpec; lines: LayoutLine[]; maxWidth: number; tooWide: string[] };
+  type TableLayout = { rows: TableRowLayout[]; colW: number };
+  type TableRowLayout = { cells: LayoutLine[][]; header: boolean; height: number };
+
+  // Los bloques se miden una vez por ancho: la vista previa de "mantener con el
+  // siguiente" reutiliza la medición, y una hoja de continuación de otro ancho
+  // vuelve a cortar los renglones. Los avisos se dan al colocar, no al medir.
+  const textLayouts = new Map<DocBlock, Map<number, TextLayout>>();
+  const tableLayouts = new Map<DocBlock, Map<number, TableLayout>>();
+
+  const textWidth = (spec: BlockSpec) => currentRect.width - PAD * 2 - spec.indent;
+
+  const layoutText = (block: TextBlock): TextLayout => {
+    const spec = specFor(block);
+    const maxWidth = textWidth(spec);
+    const byWidth = textLayouts.get(block) ?? new Map<number, TextLayout>();
+    textLayouts.set(block, byWidth);
+    const cached = byWidth.get(maxWidth);
+    if (cached) return cached;
+
+    const lines: LayoutLine[] = [];
+    const tooWide: string[] = [];
+    for (const runLine of block.lines) {
+      const wrapped = wrapWords(measureWords(runLine, styles, spec.size, spec.force), {
+        maxWidth,
+        // solo el primer renglón del párrafo lleva sangría, no cada salto manual
+        firstLineIndent: lines.length === 0 ? spec.firstLineIndent : 0,
+        hyphenate: typo.hyphenate,
+      });
+      lines.push(...wrapped.lines);
+      tooWide.push(...wrapped.tooWide);
+    }
+
+    const layout = { spec, lines, maxWidth, tooWide };
+    byWidth.set(maxWidth, layout);
+    return layout;
+  };
+
+  const reportTooWide = (words: string[]) =>
+    words.forEach((text) => overflow.push({ kind: "word-too-wide", page: currentPageIndex, text }));
+
+  /** Renglones que caben desde el cursor hasta el pie del área actual */
+  const linesThatFit = (spec: BlockSpec) => {
+    let n = 0;
+    while (cursorTop - n * spec.lineHeight - spec.size >= currentRect.y + PAD + spec.size) n++;
+    return n;
+  };
+
+  // Al recortar, el último renglón dibujado espera por si hay que añadirle "…"
+  let heldLine: { page: PDFPage; line: LayoutLine; opts: Parameters<typeof drawLine>[2] } | null = null;
+  const flushHeld = (ellipsis: boolean) => {
+    if (!heldLine) return;
+    const { page, line, opts } = heldLine;
+    heldLine = null;
+    drawLine(page, ellipsis ? withEllipsis(line, opts.maxWidth, bodyFont, opts.size) : line, opts);
+  };
+
+  const placeTextBlock = async (block: TextBlock) => {
+    const layout = layoutText(block);
+    const { spec } = layout;
+    let { lines, maxWidth, tooWide } = layout;
+
+    const drawTextLine = (li: number) => {
+      const baseline = cursorTop - spec.size;
+      const x = currentRect.x + PAD + spec.indent;
+
+      if (li === 0 && block.type === "list-item") {
+        bodyFont.drawText(currentPage, block.marker, {
+          x: x - LIST_INDENT,
+          y: baseline,
+          size: spec.size,
+          color: spec.color,
+        });
+      }
+      if (block.type === "quote") {
+        currentPage.drawRectangle({
+          x: x - QUOTE_INDENT + 2,
+          y: baseline - 3,
+          width: 2,
+          height: spec.lineHeight,
+          color: QUOTE_BAR,
+        });
+      }
+
+      const opts = { x, y: baseline, size: spec.size, color: spec.color, maxWidth, align: spec.align };
+      if (clipBody) {
+        flushHeld(false);
+        heldLine = { page: currentPage, line: lines[li], opts };
+      } else {
+        drawLine(currentPage, lines[li], opts);
+      }
+      markBlockPage();
+      cursorTop -= spec.lineHeight;
+      atPageTop = false;
+      linesPerPage[currentPageIndex]++;
+    };
+
+    let li = 0;
+
+    // al pasar a una hoja de otro ancho, lo que falta del párrafo se vuelve a cortar
+    const nextPage = async () => {
+      await ensureNewPage();
+      if (textWidth(spec) === maxWidth) return;
+      if (li === 0) {
+        ({ lines, maxWidth, tooWide } = layoutText(block));
+        return;
+      }
+      const rest = rewrapLines(lines.slice(li), { maxWidth: textWidth(spec), hyphenate: typo.hyphenate });
+      lines = [...lines.slice(0, li), ...rest.lines];
+      maxWidth = textWidth(spec);
+      reportTooWide(rest.tooWide);
+    };
+
+    while (li < lines.length) {
+      const remaining = lines.length - li;
+      let take = Math.min(remaining, linesThatFit(spec));
+
+      if (take < remaining && !clipBody) {
+        // viuda: no dejar menos de `widows` renglones para la página siguiente
+        if (remaining - take < typo.widows) take = remaining - typo.widows;
+        // huérfana: no empezar el párrafo con menos de `orphans` renglones al pie
+        if (li === 0 && take < typo.orphans) take = 0;
+      }
+
+      if (take <= 0) {
+        if (!atPageTop) {
+          await nextPage();
+          continue;
+        }
+        // página vacía y aun así no se cumplen las reglas: se avanza igual
+        take = Math.max(1, Math.min(remaining, linesThatFit(spec)));
+      }
+
+      if (li === 0) reportTooWide(tooWide);
+      for (let k = 0; k < take; k++) drawTextLine(li + k);
+      li += take;
+      if (li < lines.length) await nextPage();
+    }
+  };
+
+  const layoutTable = (block: Extract<DocBlock, { type: "table" }>): TableLayout => {
+    const cols = Math.max(1, ...block.rows.map((r) => r.length));
+    const colW = (currentRect.width - PAD * 2) / cols;
+    const byWidth = tableLayouts.get(block) ?? new Map<number, TableLayout>();
+    tableLayouts.set(block, byWidth);
+    const cached = byWidth.get(colW);
+    if (cached) return cached;
+
+    const layoutRow = (row: RunLine[], header: boolean): TableRowLayout => {
+      const cells = Array.from({ length: cols }, (_, c) =>
+        wrapWords(measureWords(row[c] || [], styles, TABLE_FONT, header ? { bold: true } : {}), {
+          maxWidth: colW - CELL_PAD * 2,
+          hyphenate: typo.hyphenate,
+        }).lines
+      );
+      const maxLines = Math.max(1, ...cells.map((l) => l.length));
+      return { cells, header, height: maxLines * TABLE_LINE_H + CELL_PAD * 2 };
+    };
+
+    const layout = { rows: block.rows.map((r, i) => layoutRow(r, i < block.headerRows)), colW };
+    byWidth.set(colW, layout);
+    return layout;
+  };
+
+  const placeTable = async (block: Extract<DocBlock, { type: "table" }>) => {
+    let { rows, colW } = layoutTable(block);
+
+    const drawRow = (row: TableRowLayout) => {
+      const top = cursorTop;
+      row.cells.forEach((lines, c) => {
+        const x = currentRect.x + PAD + c * colW;
+        currentPage.drawRectangle({
+          x,
+          y: top - row.height,
+          width: colW,
+          height: row.height,
+          borderColor: TABLE_BORDER,
+          borderWidth: 0.5,
+          color: row.header ? TABLE_HEADER_BG : undefined,
+        });
+        lines.forEach((line, k) => {
+          drawLine(currentPage, line, {
+            x: x + CELL_PAD,
+            y: top - CELL_PAD - TABLE_FONT - k * TABLE_LINE_H,
+            size: TABLE_FONT,
+            color: BLACK,
+            maxWidth: colW - CELL_PAD * 2,
+          });
+        });
+      });
+      markBlockPage();
+      cursorTop -= row.height;
+      atPageTop = false;
+      linesPerPage[currentPageIndex] += Math.max(...row.cells.map((l) => l.length));
+    };
+
+    for (let ri = 0; ri < rows.length; ri++) {
+      if (!atPageTop && cursorTop - rows[ri].height < currentRect.y + PAD) {
+        await ensureNewPage();
+        // la hoja nueva puede tener otro ancho: las columnas se vuelven a medir
+        ({ rows, colW } = layoutTable(block));
+        // repite el encabezado en la página nueva
+        if (ri >= block.headerRows) rows.slice(0, block.headerRows).forEach(drawRow);
+      }
+      drawRow(rows[ri]);
+    }
+  };
+
+  const embeddedImages = new Map<string, PDFImage>();
+
+  /** Embebe (una vez) la imagen; null si falta o no es PNG/JPG */
+  const loadImage = async (src: string): Promise<PDFImage | null> => {
+    let img = embeddedImages.get(src);
+    if (!img) {
+      const bytes = images[src];
+      const kind = bytes ? imageKind(bytes) : null;
+      if (!bytes || !kind) return null;
+      img = kind === "png" ? await pdfDoc.embedPng(bytes) : await pdfDoc.embedJpg(bytes);
+      embeddedImages.set(src, img);
+    }
+    return img;
+  };
+
+  const imageBox = (img: PDFImage) => {
+    const maxW = currentRect.width - PAD * 2;
+    const maxH = currentRect.height - PAD * 2;
+    const scale = Math.min(1, maxW / img.width, maxH / img.height);
+    return { w: img.width * scale, h: img.height * scale };
+  };
+
+  const placeImage = async (block: Extract<DocBlock, { type: "image" }>) => {
+    const img = await loadImage(block.src);
+    if (!img) {
+      missingImages.push(block.src);
+      return;
+    }
+
+    const { w, h } = imageBox(img);
+    if (!atPageTop && cursorTop - h < currentRect.y + PAD) await ensureNewPage();
+
+    currentPage.drawImage(img, { x: currentRect.x + PAD, y: cursorTop - h, width: w, height: h });
+    markBlockPage();
+    cursorTop -= h;
+    atPageTop = false;
+  };
+
+  /**
+   * Alto mínimo con que debe empezar el bloque `bi` en esta página: un título
+   * arrastra el comienzo de lo que le sigue (mantener con el siguiente) y un
+   * párrafo necesita al menos `orphans` renglones.
+   */
+  const startHeight = async (bi: number, depth = 0): Promise<number> => {
+    const block = blocks[bi];
+    if (!block || block.type === "page-break") return 0;
+    if (block.type === "table") {
+      const { rows } = layoutTable(block);
+      return rows.slice(0, block.headerRows + 1).reduce((h, r) => h + r.height, 0);
+    }
+    if (block.type === "image") {
+      const img = await loadImage(block.src);
+      return img ? imageBox(img).h : 0;
+    }
+
+    const { spec, lines } = layoutText(block);
+    if (block.type === "heading") {
+      // títulos seguidos (## tras #) se encadenan, con un tope por si acaso
+      const next = depth < 3 ? await startHeight(bi + 1, depth + 1) : 0;
+      return lines.length * spec.lineHeight + (next ? typo.paragraphSpacing + next : spec.size);
+    }
+    const k = Math.min(lines.length, Math.max(1, typo.orphans));
+    return (k - 1) * spec.lineHeight + 2 * spec.size;
+  };
+
+  try {
+    for (let bi = 0; bi < blocks.length; bi++) {
+      const block = blocks[bi];
+      currentBlock = bi;
+
+      if (block.type === "page-break") {
+        await ensureNewPage();
+        markBlockPage();
+        continue;
+      }
+
+      // separación entre bloques (las viñetas seguidas van juntas)
+      const tight = block.type === "list-item" && block.tight;
+      if (bi > 0 && !tight && !atPageTop) cursorTop -= typo.paragraphSpacing;
+
+      // un título no se queda solo al pie: pasa a la página siguiente con su texto
+      if (block.type === "heading" && !atPageTop) {
+        if (cursorTop - (await startHeight(bi)) < currentRect.y + PAD) await ensureNewPage();
+      }
+
+      if (block.type === "table") await placeTable(block);
+      else if (block.type === "image") await placeImage(block);
+      else await placeTextBlock(block);
+    }
+  } catch (e) {
+    if (e !== BODY_FULL) throw e;
+    bodyClipped = true;
+  }
+  flushHeld(bodyClipped);
+  // los que no llegaron a dibujarse (imagen ausente, cuerpo recortado) heredan la página anterior
+  for (let bi = 0; bi < blocks.length; bi++) {
+    if (blockPages[bi] === undefined) blockPages[bi] = bi > 0 ? blockPages[bi - 1] : 0;
+  }
+  if (hasBodyField) {
+    // si se achicó, lo marca renderDocument, que es quien conoce el tamaño base
+    noteFit({ field: bodyFieldName, policy: bodyPolicy, fontSize: typo.fontSize, shrunk: false, truncated: bodyClipped });
+  }
+
+  // Numeración: la portada puede quedar fuera y el resto empezar en otro número
+  const running = options.running ?? DEFAULT_RUNNING;
+  const firstNumbered = running.skipFirst ? 1 : 0;
+  const pageLabel = (pageIndex: number) =>
+    pageIndex < firstNumbered ? "" : formatPageNumber(running.startAt + pageIndex - firstNumbered, running.numerals);
+
+  /* ===== ÍNDICE Y MARCADORES ===== */
+  const tocItems: OutlineItem[] = [];
+  blocks.forEach((block, bi) => {
+    const entry = tocEntryOf(block);
+    if (entry && blockTops[bi] !== undefined) {
+      tocItems.push({ ...entry, page: blockPages[bi], top: blockTops[bi] + typo.fontSize });
+    }
+  });
+
+  if (toc?.contentsPage && tocItems.length > 0) {
+    const LEVEL_INDENT = 14;
+
+    // Hojas de índice: se insertan todas antes de dibujar, para saber la página final de cada título
+    const firstTocPage = 1;
+    const tocPages: { page: PDFPage; rect: FieldRect }[] = [];
+    let remaining = tocItems.length;
+    while (remaining > 0) {
+      const idx = firstTocPage + tocPages.length;
+      const [tpl] = await pdfDoc.copyPages(srcTemplate, [templatePageFor(idx)]);
+      const page = pdfDoc.insertPage(idx, tpl);
+      if (form) linkCopiedWidgets(pdfDoc, page, false);
+      const rect = rectForPage(idx, page);
+      // mismo cálculo que el dibujo de abajo: primer renglón y límite inferior
+      remaining -= tocLinesOn(rect, tocPages.length === 0);
+      tocPages.push({ page, rect });
+      sourcePages.splice(idx, 0, templatePageFor(idx));
+      linesPerPage.splice(idx, 0, 0);
+    }
+
+    // Todo lo que iba de la hoja 2 en adelante se corre
+    const shift = (page: number) => (page >= firstTocPage ? page + tocPages.length : page);
+    tocItems.forEach((it) => (it.page = shift(it.page)));
+    for (let bi = 0; bi < blockPages.length; bi++) blockPages[bi] = shift(blockPages[bi]);
+    overflow.forEach((o) => (o.page = shift(o.page)));
+
+    let item = 0;
+    tocPages.forEach(({ page, rect }, n) => {
+      let y = rect.y + rect.height - PAD - TOC_SIZE;
+      if (n === 0) {
+        styles.bold.drawText(page, "Índice", { x: rect.x + PAD, y: y - (TOC_TITLE_SIZE - TOC_SIZE), size: TOC_TITLE_SIZE, color: BLACK });
+        y -= TOC_TITLE_SIZE + TOC_LINE_H;
+      }
+
+      // al menos un renglón por hoja, aunque la región sea muy baja
+      for (let k = 0; item < tocItems.length && (k === 0 || y >= rect.y + PAD); item++, k++, y -= TOC_LINE_H) {
+        const it = tocItems[item];
+        const font = it.level === 1 ? styles.bold : bodyFont;
+        const x = rect.x + PAD + (it.level - 1) * LEVEL_INDENT;
+        const right = rect.x + rect.width - PAD;
+        const num = pageLabel(it.page);
+        const numW = bodyFont.widthOfTextAtSize(num, TOC_SIZE);
+
+        // el título en un renglón; lo que no quepa se corta con "…"
+        const maxW = right - x - numW - 16;
+        const fit = fitInBox(it.title, font, { size: TOC_SIZE, minSize: TOC_SIZE, maxWidth: maxW, linesFor: () => 1, policy: "ellipsis" });
+        const text = fit.lines[0] || "";
+        font.drawText(page, text, { x, y, size: TOC_SIZE, color: BLACK });
+        bodyFont.drawText(page, num, { x: right - numW, y, size: TOC_SIZE, color: BLACK });
+
+        // puntos guía entre el título y el número
+        const dotW = bodyFont.widthOfTextAtSize(".", TOC_SIZE);
+        const from = x + font.widthOfTextAtSize(text, TOC_SIZE) + 4;
+        const dots = Math.floor((right - numW - 4 - from) / dotW);
+        if (dots > 0) {
+          bodyFont.drawText(page, ".".repeat(dots), { x: right - numW - 4 - dots * dotW, y, size: TOC_SIZE, color: FOOTER_COLOR });
+        }
+
+        addInternalLink(
+          pdfDoc,
+          page,
+          { x, y: y - TOC_SIZE * 0.3, width: right - x, height: TOC_LINE_H },
+          it.page,
+          it.top
+        );
+      }
+    });
+  }
+
+  /* ===== CABECERA, PIE Y PAGINACIÓN ===== */
+  const totalBeforeSave = pdfDoc.getPageCount();
+  const footerY = usingFormFields ? 44 : 72;
+  const headerDrop = usingFormFields ? 28 : 36; // desde el borde superior
+  const footerText = (content.footer || "").replace(/\s+/g, " ").trim();
+  const docTitle = (content.title || "").replace(/\s+/g, " ").trim();
+  const numberedCount = totalBeforeSave - firstNumbered;
+  const lastLabel = pageLabel(totalBeforeSave - 1);
+
+  // Línea de 9 pt centrada en vertical dentro de una región
+  const regionBaseline = (r: FieldRect) => r.y + Math.max(0, (r.height - FOOTER_SIZE) / 2) + 2;
+
+  const PAGE_VARS_RX = /\{\{\s*(pagina|total)\s*\}\}/;
+  const fillRunning = (text: string, pageIndex: number) => {
+    if (!text.trim()) return "";
+    if (running.hideOnSinglePage && numberedCount <= 1 && PAGE_VARS_RX.test(text)) return "";
+    const values: Record<string, string> = {
+      pagina: pageLabel(pageIndex),
+      total: lastLabel,
+      titulo: docTitle,
+      pie: footerText,
+    };
+    return text
+      .replace(/\{\{\s*([^{}]+?)\s*\}\}/g, (whole, name: string) => values[name] ?? whole)
+      .replace(/\s+/g, " ")
+      .trim();
+  };
+
+  /**
+   * Dibuja los tres textos de una cabecera o pie en una franja. Cada uno se
+   * corta para no pisar a los demás: con el centro ocupado, un tercio del
+   * ancho por texto; sin él, la mitad; solo, todo.
+   */
+  const drawSlots = (
+    pg: PDFPage,
+    slots: { left: string; center: string; right: string },
+    band: { x: number; width: number; y: number },
+    rightBand?: { x: number; width: number; y: number }
+  ) => {
+    const { left, center, right } = slots;
+    const sideW = center ? band.width / 3 - 6 : left && right ? band.width / 2 - 6 : band.width;
+    const fit = (text: string, maxW: number) =>
+      wrapAndConsume(text, bodyFont, FOOTER_SIZE, Math.max(10, maxW), 1).lines[0] || "";
+    const opts = { size: FOOTER_SIZE, color: FOOTER_COLOR };
+
+    if (left) bodyFont.drawText(pg, fit(left, sideW), { ...opts, x: band.x, y: band.y });
+    if (center) {
+      const line = fit(center, left || right ? band.width / 3 - 6 : band.width);
+      const w = bodyFont.widthOfTextAtSize(line, FOOTER_SIZE);
+      bodyFont.drawText(pg, line, { ...opts, x: band.x + (band.width - w) / 2, y: band.y });
+    }
+    if (right) {
+      const rb = rightBand ?? band;
+      const line = fit(right, rightBand ? rb.width : sideW);
+      const w = bodyFont.widthOfTextAtSize(line, FOOTER_SIZE);
+      bodyFont.drawText(pg, line, { ...opts, x: rb.x + rb.width - w, y: rb.y });
+    }
+  };
+
+  for (let i = 0; i < totalBeforeSave; i++) {
+    const pg = pdfDoc.getPage(i);
+    options.onProgress?.({ phase: "footer", page: i + 1, total: totalBeforeSave });
+    if (i < firstNumbered) continue;
+
+    const fill = (slots: RunningSlots) => ({
+      left: fillRunning(slots.left, i),
+      center: fillRunning(slots.center, i),
+      right: fillRunning(slots.right, i),
+    });
+    const pageBand = { x: marginX, width: pg.getWidth() - marginX * 2 };
+
+    const header = fill(running.header);
+    if (header.left || header.center || header.right) {
+      drawSlots(pg, header, { ...pageBand, y: pg.getHeight() - headerDrop });
+    }
+
+    // En el pie, las regiones del editor mandan: el pie va en su región y el
+    // texto de la derecha en la del número de página
+    const footer = fill(running.footer);
+    if (footer.left || footer.center || footer.right) {
+      const fr = regions?.footer;
+      const nr = regions?.pageNumber;
+      const band = fr
+        ? { x: fr.x + PAD, width: fr.width - PAD * 2, y: regionBaseline(fr) }
+        : { ...pageBand, y: footerY };
+      const rightBand = nr ? { x: nr.x + PAD, width: nr.width - PAD * 2, y: regionBaseline(nr) } : undefined;
+      drawSlots(pg, footer, band, rightBand);
+    }
+  }
+
+  /* ===== CÓDIGO DE VERIFICACIÓN ===== */
+  // Una línea bajo el pie en todas las hojas (también la portada) y el QR en la última
+  const stamp = options.verification;
+  if (stamp) {
+    const qr = qrMatrix(stamp.url);
+    const qrPath = qrSvgPath(qr);
+    const text = `Código de verificación: ${stamp.code}`;
+    for (let i = 0; i < totalBeforeSave; i++) {
+      const pg = pdfDoc.getPage(i);
+      const fr = regions?.footer;
+      const band = fr
+        ? { x: fr.x + PAD, width: fr.width - PAD * 2, y: regionBaseline(fr) }
+        : { x: marginX, width: pg.getWidth() - marginX * 2, y: footerY };
+      let width = band.width;
+
+      // el QR, a la derecha y debajo del pie, con el borde superior 4 pt bajo su línea
+      const qrSize = Math.min(QR_SIZE, band.y - 8);
+      if (i === totalBeforeSave - 1 && qrSize >= QR_MIN_SIZE) {
+        pg.drawSvgPath(qrPath, {
+          x: band.x + band.width - qrSize,
+          y: band.y - 4,
+          scale: qrSize / qr.length,
+          color: BLACK,
+        });
+        width -= qrSize + 6;
+      }
+
+      const line = wrapAndConsume(text, bodyFont, STAMP_SIZE, Math.max(10, width), 1).lines[0] || "";
+      bodyFont.drawText(pg, line, {
+        x: band.x,
+        y: Math.max(4, band.y - FOOTER_SIZE - 3),
+        size: STAMP_SIZE,
+        color: FOOTER_COLOR,
+      });
+    }
+  }
+
+  /* ===== CIERRE ===== */
+  // La contraportada va sin numerar, como en un libro
+  if (roles.closing !== null) {
+    const [closing] = await pdfDoc.copyPages(srcTemplate, [roles.closing]);
+    // sus campos siguen siendo campos (p. ej. la firma del destinatario)
+    const page = pdfDoc.addPage(closing);
+    if (form) linkCopiedWidgets(pdfDoc, page, true);
+    sourcePages.push(roles.closing);
+    linesPerPage.push(0);
+  }
+
+  /* ===== OTROS CAMPOS DEL FORMULARIO ===== */
+  // Se dibujan en cada hoja que sale de la página de la plantilla donde está el campo
+  const flowFields = new Set([hasTitleField ? titleFieldName : "", hasBodyField ? bodyFieldName : ""]);
+
+  const drawFieldValue = (page: PDFPage, pageIndex: number, info: FormFieldInfo) => {
+    const r = info.rect!;
+    const value = fieldValues[info.name];
+
+    if (info.kind === "checkbox") {
+      if (value !== true) return;
+      const inset = Math.min(r.width, r.height) * 0.2;
+      const [x1, y1, x2, y2] = [r.x + inset, r.y + inset, r.x + r.width - inset, r.y + r.height - inset];
+      page.drawLine({ start: { x: x1, y: y1 }, end: { x: x2, y: y2 }, thickness: 1.2, color: BLACK });
+      page.drawLine({ start: { x: x1, y: y2 }, end: { x: x2, y: y1 }, thickness: 1.2, color: BLACK });
+      return;
+    }
+
+    const text = formatFieldValue(info, value).replace(/\s+/g, " ").trim();
+    if (!text) return;
+
+    const policy = fieldFit[info.name] ?? "overflow";
+    const startSize = Math.max(MIN_FONT, Math.min(FIELD_FONT, r.height - 4));
+    const { lines, rest, size, shrunk, truncated } = fitInBox(text, bodyFont, {
+      size: startSize,
+      minSize: Math.min(startSize, minFont),
+      maxWidth: r.width - 4,
+      linesFor: (s) => (info.multiline ? Math.max(1, Math.floor((r.height - 4) / (s + 2))) : 1),
+      policy,
+    });
+    const lineH = size + 2;
+    noteFit({ field: info.name, policy, fontSize: size, shrunk, truncated });
+    if (rest) {
+      overflow.push({ kind: "field-truncated", page: pageIndex, text: `${info.name}: ${rest}`, field: info.name });
+    }
+
+    // una línea: centrada en vertical; varias: desde arriba
+    let y = info.multiline ? r.y + r.height - 2 - size : r.y + (r.height - size) / 2 + 2;
+    for (const line of lines) {
+      bodyFont.drawText(page, line, { x: r.x + 2, y, size, color: BLACK });
+      y -= lineH;
+    }
+  };
+
+  sourcePages.forEach((tplPage, pageIndex) => {
+    for (const info of formFields) {
+      if (!info.rect || info.page !== tplPage || flowFields.has(info.name) || !isFillable(info)) continue;
+      // en la portada y la contraportada el campo sigue vivo; las demás hojas son copias sin formulario
+      const live = liveField(info.name);
+      const filled =
+        !!live &&
+        fieldOnPage(pdfDoc, live, pdfDoc.getPage(pageIndex)) &&
+        fillFormField(form!, info, fieldValueFor(fieldValues[info.name]));
+      if (!filled) drawFieldValue(pdfDoc.getPage(pageIndex), pageIndex, info);
+      else if (info.kind === "text" || info.kind === "date") {
+        if (fieldFit[info.name] === "shrink") autoSizeLiveField(info.name);
+        noteFit({
+          field: info.name,
+          policy: fieldFit[info.name] ?? "overflow",
+          fontSize: 0,
+          shrunk: false,
+          truncated: false,
+        });
+      }
+    }
+  });
+
+  if (form) {
+    form.updateFieldAppearances(bodyFont.primary);
+    if (options.flattenFields) flattenFormFields(pdfDoc, new Set(options.editableFields ?? []));
+  }
+
+  // Encima de todo, también de los campos aplanados
+  if (options.watermark?.text.trim()) {
+    for (const page of pdfDoc.getPages()) drawWatermark(page, bodyFont, options.watermark);
+  }
+
+  if (toc?.outline) addOutline(pdfDoc, tocItems);
+
+  /* ===== METADATOS ===== */
+
+  const meta: DocMetadata = {
+    author: "",
+    subject: "",
+    keywords: [],
+    language: "",
+    ...options.metadata,
+    title: options.metadata?.title?.trim() || content.title.trim(),
+  };
+  const now = new Date();
+  applyMetadata(pdfDoc, meta, now);
+  const archivalIssues =
+    options.outputProfile === "archival" ? await makeArchival(pdfDoc, meta, now, options.documentId ?? "") : [];
+
+  const bytes = await pdfDoc.save({ updateFieldAppearances: !form });
+
+  return {
+    bytes,
+    report: {
+      pages: pdfDoc.getPageCount(),
+      linesPerPage,
+      blockPages,
+      headings: tocItems.map(({ level, title, page }) => ({ level, text: title, page })),
+      overflow,
+      unsupportedChars: Array.from(chains.missing),
+      substitutedStyles: Array.from(chains.substituted),
+      missingImages,
+      usingFormFields,
+      fieldFit: fitEntries,
+      archivalIssues,
+    },
+  };
+}
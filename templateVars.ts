@@ -0,0 +1,77 @@
+/* ============================= */
+/* VARIABLES {{marcador}}        */
+/* ============================= */
+
+export const PLACEHOLDER_RX = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+/** Variables que rellena el generador; no se piden en el panel */
+export const BUILTIN_VARIABLES = {
+  fecha: "Fecha de hoy (dd/mm/aaaa)",
+  fecha_larga: "Fecha de hoy en letra",
+  paginas: "Número de páginas del PDF",
+  id_documento: "Id del documento (el del historial)",
+  plantilla: "Nombre de la plantilla",
+} as const;
+
+export type BuiltinVariable = keyof typeof BUILTIN_VARIABLES;
+
+export const isBuiltinVariable = (name: string): name is BuiltinVariable =>
+  Object.prototype.hasOwnProperty.call(BUILTIN_VARIABLES, name);
+
+export type BuiltinContext = {
+  date: Date;
+  documentId: string;
+  templateName: string | null;
+  /** Se conoce después de maquetar; sin él {{paginas}} queda sin resolver */
+  pages?: number;
+};
+
+const pad2 = (n: number) => String(n).padStart(2, "0");
+
+/** "19 de octubre de 2026" */
+export const formatLongDate = (d: Date) =>
+  d.toLocaleDateString("es-ES", { day: "numeric", month: "long", year: "numeric" });
+
+export function builtinValues(ctx: BuiltinContext): Record<string, string> {
+  const d = ctx.date;
+  const values: Record<string, string> = {
+    fecha: `${pad2(d.getDate())}/${pad2(d.getMonth() + 1)}/${d.getFullYear()}`,
+    fecha_larga: formatLongDate(d),
+    id_documento: ctx.documentId,
+    plantilla: (ctx.templateName || "").replace(/\.pdf$/i, ""),
+  };
+  if (ctx.pages !== undefined) values.paginas = String(ctx.pages);
+  return values;
+}
+
+/** Nombres de los {{marcadores}} que aparecen en los textos, sin repetir */
+export function findPlaceholders(...texts: string[]): string[] {
+  const names = new Set<string>();
+  for (const t of texts) {
+    for (const m of (t || "").matchAll(PLACEHOLDER_RX)) names.add(m[1]);
+  }
+  return Array.from(names);
+}
+
+/**
+ * Sustituye los {{marcadores}} con `values`. Los que no tienen valor se dejan
+ * tal cual (así se ven en el PDF) y se devuelven en `missing`.
+ */
+export function fillPlaceholders(text: string, values: Record<string, string>) {
+  const missing = new Set<string>();
+  const out = (text || "").replace(PLACEHOLDER_RX, (whole, name: string) => {
+    const v = values[name];
+    if (v === undefined || v === "") {
+      missing.add(name);
+      return whole;
+    }
+    return v;
+  });
+  return { text: out, missing: Array.from(missing) };
+}
+
+/** Genera un id nuevo para un documento (el mismo formato que el historial) */
+export const newDocumentId = (): string =>
+  (globalThis.crypto as any)?.randomUUID?.()
+    ? (globalThis.crypto as any).randomUUID()
+    : `${Date.now()}_${Math.random().toString(16).slice(2)}`;
@@ -1,4 +1,5 @@
 import Dexie, { Table } from "dexie";
+import type { LayoutProfile } from "./layoutProfiles";
 
 export type TemplateRecord = {
   id: string;
@@ -8,17 +9,44 @@ export type TemplateRecord = {
   bytes: Uint8Array;
 };
 
+export type FontRecord = {
+  id: string;
+  name: string;
+  size: number;
+  createdAt: number;
+  bytes: Uint8Array;
+};
+
+/** Perfil de maquetación por plantilla (clave = nombre con que se cargó) */
+export type LayoutRecord = {
+  templateName: string;
+  profile: LayoutProfile;
+  updatedAt: number;
+};
+
 const DB_NAME = "hm_pdf_templates_v1";
 const MAX_TEMPLATE_MB = 15;
+const MAX_FONT_MB = 10;
 
 class TemplatesDB extends Dexie {
   templates!: Table<TemplateRecord, string>;
+  fonts!: Table<FontRecord, string>;
+  layouts!: Table<LayoutRecord, string>;
 
   constructor() {
     super(DB_NAME);
     this.version(1).stores({
       templates: "id",
     });
+    this.version(2).stores({
+      templates: "id",
+      fonts: "id",
+    });
+    this.version(3).stores({
+      templates: "id",
+      fonts: "id",
+      layouts: "templateName",
+    });
   }
 }
 
@@ -68,3 +96,51 @@ export async function getTemplateBytes(id: string): Promise<Uint8Array | null> {
 export async function deleteTemplate(id: string): Promise<void> {
   await db.templates.delete(id);
 }
+
+/* ===== FUENTES (TTF/OTF) ===== */
+
+export async function addFontFromFile(file: File): Promise<FontRecord> {
+  if (!/\.(ttf|otf)$/i.test(file.name)) {
+    throw new Error("Solo se aceptan fuentes .ttf u .otf.");
+  }
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const sizeMb = bytes.length / (1024 * 1024);
+  if (sizeMb > MAX_FONT_MB) {
+    throw new Error(`La fuente pesa ${sizeMb.toFixed(1)} MB. Límite: ${MAX_FONT_MB} MB.`);
+  }
+
+  const rec: FontRecord = {
+    id: newId(),
+    name: file.name.replace(/\.(ttf|otf)$/i, "").slice(0, 80) || "fuente",
+    size: bytes.length,
+    createdAt: Date.now(),
+    bytes,
+  };
+
+  await db.fonts.put(rec);
+  return rec;
+}
+
+export async function listFonts(): Promise<FontRecord[]> {
+  const items = await db.fonts.toArray();
+  return items.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function deleteFont(id: string): Promise<void> {
+  await db.fonts.delete(id);
+}
+
+/* ===== PERFILES DE MAQUETACIÓN ===== */
+
+export async function getTemplateLayout(templateName: string): Promise<LayoutProfile | null> {
+  const rec = await db.layouts.get(templateName);
+  return rec ? rec.profile : null;
+}
+
+export async function saveTemplateLayout(templateName: string, profile: LayoutProfile) {
+  await db.layouts.put({ templateName, profile, updatedAt: Date.now() });
+}
+
+export async function deleteTemplateLayout(templateName: string): Promise<void> {
+  await db.layouts.delete(templateName);
+}
@@ -0,0 +1,342 @@
+import { Color, PDFPage } from "pdf-lib";
+import { FontChain, fontStyleOf, StyledFontChains } from "./fonts";
+import { hyphenationPoints, softBreakPoints } from "./hyphenation";
+import { RunLine } from "./markup";
+
+/* ============================= */
+/* RENGLONES CON ESTILO          */
+/* ============================= */
+
+export type TextAlign = "left" | "justify" | "center";
+
+export type LayoutPiece = { text: string; font: FontChain; width: number };
+
+/** Palabra = texto sin espacios; puede mezclar estilos (p. ej. **neg**rita) */
+export type LayoutWord = {
+  pieces: LayoutPiece[];
+  width: number;
+  spaceAfter: number;
+  size: number;
+};
+
+export type LayoutLine = {
+  words: LayoutWord[];
+  /** Ancho natural (sin el espacio final) */
+  width: number;
+  /** Sangría propia del renglón (primera línea del párrafo) */
+  indent: number;
+  /** Último renglón del párrafo o antes de un salto: no se justifica */
+  last: boolean;
+};
+
+export type WrapOptions = {
+  maxWidth: number;
+  firstLineIndent?: number;
+  /** Partir con guion (silabeo español) las palabras que no caben al final */
+  hyphenate?: boolean;
+};
+
+export type WrapResult = {
+  lines: LayoutLine[];
+  /** Palabras que no cabían ni solas en un renglón (se partieron) */
+  tooWide: string[];
+};
+
+type BreakPoint = { at: number; hyphen: boolean };
+
+const wordText = (w: LayoutWord) => w.pieces.map((p) => p.text).join("");
+
+// De qué palabra salió cada trozo partido, para poder unirla al volver a repartir
+const splitFrom = new WeakMap<LayoutWord, { whole: LayoutWord; head: boolean }>();
+
+function markSplit(whole: LayoutWord, head: LayoutWord, tail: LayoutWord) {
+  splitFrom.set(head, { whole, head: true });
+  splitFrom.set(tail, { whole, head: false });
+}
+
+/**
+ * Convierte runs con estilo en palabras medidas. `force` permite imponer
+ * negrita/cursiva a todo el renglón (títulos de sección).
+ */
+export function measureWords(
+  runs: RunLine,
+  fonts: StyledFontChains,
+  size: number,
+  force: { bold?: boolean; italic?: boolean } = {}
+): LayoutWord[] {
+  const words: LayoutWord[] = [];
+  let cur: LayoutWord | null = null;
+
+  for (const run of runs) {
+    const font = fonts[fontStyleOf({ bold: run.bold || force.bold, italic: run.italic || force.italic })];
+    const parts = run.text.split(/(\s+)/);
+
+    for (const part of parts) {
+      if (!part) continue;
+      if (/^\s+$/.test(part)) {
+        if (cur) {
+          cur.spaceAfter = font.widthOfTextAtSize(" ", size);
+          cur = null;
+        }
+        continue;
+      }
+      const width = font.widthOfTextAtSize(part, size);
+      if (!cur) {
+        cur = { pieces: [], width: 0, spaceAfter: 0, size };
+        words.push(cur);
+      }
+      cur.pieces.push({ text: part, font, width });
+      cur.width += width;
+    }
+  }
+
+  return words;
+}
+
+/** Corta una palabra por posiciones de carácter, re-midiendo las piezas partidas */
+function sliceWord(word: LayoutWord, start: number, end: number, hyphen: boolean): LayoutWord {
+  const pieces: LayoutPiece[] = [];
+  let pos = 0;
+
+  for (const p of word.pieces) {
+    const a = Math.max(start, pos);
+    const b = Math.min(end, pos + p.text.length);
+    if (a < b) {
+      const whole = a === pos && b === pos + p.text.length;
+      const text = p.text.slice(a - pos, b - pos);
+      pieces.push({ text, font: p.font, width: whole ? p.width : p.font.widthOfTextAtSize(text, word.size) });
+    }
+    pos += p.text.length;
+  }
+
+  if (hyphen && pieces.length) {
+    const last = pieces[pieces.length - 1];
+    last.text += "-";
+    last.width = last.font.widthOfTextAtSize(last.text, word.size);
+  }
+
+  return {
+    pieces,
+    width: pieces.reduce((w, p) => w + p.width, 0),
+    spaceAfter: end >= pos ? word.spaceAfter : 0,
+    size: word.size,
+  };
+}
+
+/** Cortes posibles: sílabas (con guion) y, si se pide, cortes de URL (sin guion) */
+function breakPoints(text: string, opts: { hyphenate: boolean; soft: boolean }): BreakPoint[] {
+  const points: BreakPoint[] = [];
+
+  if (opts.hyphenate) {
+    // la puntuación pegada (comas, comillas, paréntesis) no impide silabear
+    const lead = /^\P{L}*/u.exec(text)![0].length;
+    const trail = /\P{L}*$/u.exec(text)![0].length;
+    const core = text.slice(lead, Math.max(lead, text.length - trail));
+    hyphenationPoints(core).forEach((at) => points.push({ at: at + lead, hyphen: true }));
+  }
+  if (opts.soft) softBreakPoints(text).forEach((at) => points.push({ at, hyphen: false }));
+
+  return points.sort((a, b) => a.at - b.at);
+}
+
+/** Mayor prefijo (en un punto de corte) que cabe en `room` */
+function fitPrefix(word: LayoutWord, room: number, points: BreakPoint[]) {
+  for (let i = points.length - 1; i >= 0; i--) {
+    const head = sliceWord(word, 0, points[i].at, points[i].hyphen);
+    if (head.width <= room) {
+      const tail = sliceWord(word, points[i].at, Infinity, false);
+      markSplit(word, head, tail);
+      return [head, tail] as const;
+    }
+  }
+  return null;
+}
+
+/** Último recurso: corta por carácter (al menos uno por renglón) */
+function forceBreak(word: LayoutWord, room: number) {
+  const text = wordText(word);
+  const chars = Array.from(text);
+  let at = chars[0].length;
+  let offset = 0;
+  for (const ch of chars) {
+    offset += ch.length;
+    if (sliceWord(word, 0, offset, false).width > room) break;
+    at = offset;
+  }
+  const head = sliceWord(word, 0, at, false);
+  const tail = at < text.length ? sliceWord(word, at, Infinity, false) : null;
+  if (tail) markSplit(word, head, tail);
+  return [head, tail] as const;
+}
+
+/**
+ * Reparto greedy de palabras en renglones. Las palabras que no caben al final
+ * del renglón se silabean si `hyphenate`; las que no caben ni solas (URLs,
+ * identificadores) se parten en / . - _ ? & = o, si no hay dónde, por carácter.
+ */
+export function wrapWords(words: LayoutWord[], opts: WrapOptions): WrapResult {
+  const { maxWidth, firstLineIndent = 0, hyphenate = false } = opts;
+  const lines: LayoutLine[] = [];
+  const tooWide: string[] = [];
+  const tails = new Set<LayoutWord>();
+  let cur: LayoutWord[] = [];
+  let curWidth = 0;
+
+  const lineMax = () => maxWidth - (lines.length === 0 ? firstLineIndent : 0);
+  const pushLine = () => {
+    const indent = lines.length === 0 ? firstLineIndent : 0;
+    lines.push({ words: cur, width: curWidth, indent, last: false });
+    cur = [];
+    curWidth = 0;
+  };
+
+  const queue = [...words];
+  while (queue.length) {
+    const word = queue.shift()!;
+    const prev = cur[cur.length - 1];
+    const gap = prev ? prev.spaceAfter : 0;
+    const max = lineMax();
+
+    if (curWidth + gap + word.width <= max) {
+      cur.push(word);
+      curWidth += gap + word.width;
+      continue;
+    }
+
+    const alone = word.width > max;
+    if (alone && !tails.has(word)) tooWide.push(wordText(word));
+
+    if (hyphenate || alone) {
+      const points = breakPoints(wordText(word), { hyphenate: true, soft: alone });
+      const room = max - curWidth - gap;
+      const split = room > 0 ? fitPrefix(word, room, points) : null;
+      if (split) {
+        cur.push(split[0]);
+        curWidth += gap + split[0].width;
+        pushLine();
+        tails.add(split[1]);
+        queue.unshift(split[1]);
+        continue;
+      }
+    }
+
+    if (cur.length) {
+      pushLine();
+      queue.unshift(word);
+      continue;
+    }
+
+    const [head, tail] = forceBreak(word, max);
+    cur.push(head);
+    curWidth = head.width;
+    pushLine();
+    if (tail) {
+      tails.add(tail);
+      queue.unshift(tail);
+    }
+  }
+
+  if (cur.length) pushLine();
+  if (lines.length) lines[lines.length - 1].last = true;
+  return { lines, tooWide };
+}
+
+/**
+ * Vuelve a repartir renglones ya cortados con otro ancho (un párrafo que sigue
+ * en una hoja de otro tamaño). Respeta los saltos manuales y vuelve a unir las
+ * palabras que se habían partido al final de renglón.
+ */
+export function rewrapLines(lines: LayoutLine[], opts: WrapOptions): WrapResult {
+  const out: WrapResult = { lines: [], tooWide: [] };
+  let words: LayoutWord[] = [];
+
+  const flush = () => {
+    if (!words.length) return;
+    const { lines: wrapped, tooWide } = wrapWords(words, {
+      ...opts,
+      firstLineIndent: out.lines.length === 0 ? opts.firstLineIndent : 0,
+    });
+    out.lines.push(...wrapped);
+    out.tooWide.push(...tooWide);
+    words = [];
+  };
+
+  for (const line of lines) {
+    for (const word of line.words) {
+      words.push(word);
+      // cabeza + cola de la misma palabra => la palabra entera (puede encadenarse)
+      while (words.length >= 2) {
+        const a = splitFrom.get(words[words.length - 2]);
+        const b = splitFrom.get(words[words.length - 1]);
+        if (!a || !b || a.whole !== b.whole || !a.head || b.head) break;
+        words.splice(words.length - 2, 2, a.whole);
+      }
+    }
+    if (line.last) flush();
+  }
+  flush();
+  return out;
+}
+
+/**
+ * Dibuja un renglón dentro de `maxWidth` con la alineación pedida. Las piezas
+ * seguidas con la misma fuente se dibujan juntas para que el texto se pueda
+ * copiar con sus espacios (al justificar, cada palabra va por separado).
+ */
+export function drawLine(
+  page: PDFPage,
+  line: LayoutLine,
+  opts: { x: number; y: number; size: number; color: Color; maxWidth: number; align?: TextAlign }
+) {
+  const avail = opts.maxWidth - line.indent;
+  let x = opts.x + line.indent;
+  let extraGap = 0;
+
+  if (opts.align === "center") x += Math.max(0, (avail - line.width) / 2);
+  else if (opts.align === "justify" && !line.last && line.words.length > 1) {
+    extraGap = Math.max(0, (avail - line.width) / (line.words.length - 1));
+  }
+
+  let seg: { font: FontChain; text: string; x: number } | null = null;
+
+  const flush = () => {
+    if (!seg) return;
+    seg.font.drawText(page, seg.text, { x: seg.x, y: opts.y, size: opts.size, color: opts.color });
+    seg = null;
+  };
+
+  line.words.forEach((word, i) => {
+    word.pieces.forEach((piece, j) => {
+      const newWord = i > 0 && j === 0;
+      if (seg && seg.font === piece.font && !(newWord && extraGap > 0)) {
+        seg.text += (newWord ? " " : "") + piece.text;
+      } else {
+        flush();
+        seg = { font: piece.font, text: piece.text, x };
+      }
+      x += piece.width;
+    });
+    if (i < line.words.length - 1) x += word.spaceAfter + extraGap;
+  });
+  flush();
+}
+
+/**
+ * Recorta el renglón por el final para que quepa "…" y lo añade a la última
+ * palabra (así drawLine lo alinea como el resto). El renglón resultante no se
+ * justifica.
+ */
+export function withEllipsis(line: LayoutLine, maxWidth: number, font: FontChain, size: number): LayoutLine {
+  const piece: LayoutPiece = { text: "…", font, width: font.widthOfTextAtSize("…", size) };
+  const widthOf = (ws: LayoutWord[]) =>
+    ws.reduce((w, word, i) => w + word.width + (i < ws.length - 1 ? word.spaceAfter : 0), 0);
+
+  const words = [...line.words];
+  while (words.length > 1 && widthOf(words) + piece.width > maxWidth - line.indent) words.pop();
+
+  const last = words[words.length - 1];
+  if (last) words[words.length - 1] = { ...last, pieces: [...last.pieces, piece], width: last.width + piece.width };
+  else words.push({ pieces: [piece], width: piece.width, spaceAfter: 0, size });
+
+  return { ...line, words, width: widthOf(words), last: true };
+}
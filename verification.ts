@@ -0,0 +1,196 @@
+/* ============================= */
+/* VERIFICACIÓN DE DOCUMENTOS    */
+/* ============================= */
+
+// Cada PDF lleva un código corto en el pie (y un QR que abre /verificar). El
+// registro local guarda código, huellas y datos del documento; si hay backend
+// con token, se registra también allí para que cualquiera pueda verificar
+// desde otro equipo. Lo que se comprueba es el código y la huella del archivo:
+// la del contenido queda como constancia, no se imprime.
+
+/** Lo que se imprime en el PDF */
+export type VerificationStamp = {
+  /** "HM-XXXX-XXXX" */
+  code: string;
+  /** Adónde lleva el QR */
+  url: string;
+};
+
+/** Lo que queda en el historial */
+export type VerificationRecord = {
+  code: string;
+  /** SHA-256 del contenido (título, cuerpo, pie, campos y plantilla) */
+  contentHash: string;
+  /** SHA-256 del archivo tal como se entregó (ya cifrado, si se protegió) */
+  fileHash: string;
+};
+
+/** Entrada del registro: el historial guarda 20 documentos, esto muchos más */
+export type VerificationEntry = VerificationRecord & {
+  documentId: string;
+  title: string;
+  templateName: string | null;
+  createdAt: string; // ISO
+};
+
+export const VERIFICATIONS_KEY = "hm_pdf_verifications_v1";
+const MAX_ENTRIES = 2000;
+
+/* ===== CÓDIGO Y HUELLAS ===== */
+
+// Base32 de Crockford: sin I, L, O ni U, para que se pueda dictar y teclear
+const CODE_CHARS = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+const CODE_RX = /HM-[0-9A-Z]{4}-[0-9A-Z]{4}/;
+
+/** Lo que muestran la vista previa y la revisión: el código real sale al emitir */
+export const PREVIEW_CODE = "HM-0000-0000";
+
+export function newVerificationCode(): string {
+  const rnd = crypto.getRandomValues(new Uint8Array(8));
+  const chars = Array.from(rnd, (b) => CODE_CHARS[b % 32]).join("");
+  return `HM-${chars.slice(0, 4)}-${chars.slice(4)}`;
+}
+
+/** "hm 7k3d q9xa", "HM7K3DQ9XA"… → "HM-7K3D-Q9XA" (null si no tiene la forma) */
+export function normalizeCode(input: string): string | null {
+  const raw = input
+    .toUpperCase()
+    .replace(/[^0-9A-Z]/g, "")
+    .replace(/^HM/, "")
+    .replace(/[O]/g, "0")
+    .replace(/[IL]/g, "1");
+  if (raw.length !== 8 || [...raw].some((c) => !CODE_CHARS.includes(c))) return null;
+  return `HM-${raw.slice(0, 4)}-${raw.slice(4)}`;
+}
+
+/** Primer código de verificación que aparezca en un texto (el extraído de un PDF) */
+export function findCodeInText(text: string): string | null {
+  const m = text.replace(/\s+/g, "").match(CODE_RX);
+  return m ? normalizeCode(m[0]) : null;
+}
+
+export async function sha256Hex(data: Uint8Array | string): Promise<string> {
+  const bytes = typeof data === "string" ? new TextEncoder().encode(data) : data;
+  const digest = await crypto.subtle.digest("SHA-256", bytes.slice().buffer);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** JSON con las claves ordenadas: el mismo contenido da siempre la misma huella */
+const canonical = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonical(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+export const hashContent = (content: Record<string, unknown>) => sha256Hex(canonical(content));
+
+export const verificationUrl = (code: string) =>
+  `${window.location.origin}/verificar?codigo=${encodeURIComponent(code)}`;
+
+/**
+ * Busca con pdf.js el código impreso en un PDF. Si el PDF pide contraseña
+ * para abrirse, sube el error de pdf.js (PasswordException).
+ */
+export async function readCodeFromPdf(data: Uint8Array): Promise<string | null> {
+  const pdfjs = window.pdfjsLib;
+  if (!pdfjs) throw new Error("pdf.js no cargado");
+  const pdf = await pdfjs.getDocument({ data: data.slice() }).promise;
+  try {
+    // va en todas las hojas: basta con la primera donde aparezca
+    for (let p = 1; p <= pdf.numPages; p++) {
+      const tc = await (await pdf.getPage(p)).getTextContent();
+      const code = findCodeInText(tc.items.map((i: any) => i.str || "").join(""));
+      if (code) return code;
+    }
+    return null;
+  } finally {
+    pdf.destroy();
+  }
+}
+
+/* ===== REGISTRO LOCAL ===== */
+
+export function loadVerifications(): VerificationEntry[] {
+  try {
+    const raw = localStorage.getItem(VERIFICATIONS_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter((x) => x && typeof x.code === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+export function addVerification(entry: VerificationEntry) {
+  try {
+    const items = [entry, ...loadVerifications().filter((x) => x.code !== entry.code)].slice(0, MAX_ENTRIES);
+    localStorage.setItem(VERIFICATIONS_KEY, JSON.stringify(items));
+  } catch {
+    // si se llena el localStorage, el documento queda igual en el historial
+  }
+}
+
+/* ===== BACKEND ===== */
+
+/** Backend en Render; VITE_BACKEND_URL lo cambia (p. ej. para uno local) */
+export const BACKEND_URL = "https://hm-pdf-backend.onrender.com";
+export const API_BASE: string = import.meta.env.VITE_BACKEND_URL || BACKEND_URL;
+
+type RemoteEntry = {
+  codigo: string;
+  hashContenido: string;
+  hashArchivo: string;
+  documentoId: string;
+  titulo: string;
+  plantilla: string | null;
+  creado: string;
+};
+
+const fromRemote = (r: RemoteEntry): VerificationEntry => ({
+  code: r.codigo,
+  contentHash: r.hashContenido,
+  fileHash: r.hashArchivo,
+  documentId: r.documentoId,
+  title: r.titulo,
+  templateName: r.plantilla,
+  createdAt: r.creado,
+});
+
+/** Registra el documento en el backend (hace falta el token de la API) */
+export async function registerVerification(apiBase: string, token: string, e: VerificationEntry) {
+  const body: RemoteEntry = {
+    codigo: e.code,
+    hashContenido: e.contentHash,
+    hashArchivo: e.fileHash,
+    documentoId: e.documentId,
+    titulo: e.title,
+    plantilla: e.templateName,
+    creado: e.createdAt,
+  };
+  const resp = await fetch(`${apiBase}/api/verificaciones`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+    body: JSON.stringify(body),
+  });
+  if (!resp.ok) throw new Error(`Backend respondió ${resp.status}`);
+}
+
+/** Busca por código o por huella del archivo (la consulta es pública); null si no está */
+export async function lookupVerification(
+  apiBase: string,
+  query: { code: string } | { fileHash: string }
+): Promise<VerificationEntry | null> {
+  const path =
+    "code" in query
+      ? `/api/verificaciones/${encodeURIComponent(query.code)}`
+      : `/api/verificaciones/huella/${query.fileHash}`;
+  const resp = await fetch(`${apiBase}${path}`);
+  if (resp.status === 404) return null;
+  if (!resp.ok) throw new Error(`Backend respondió ${resp.status}`);
+  return fromRemote(await resp.json());
+}
@@ -0,0 +1,92 @@
+import { PDFPage, rgb } from "pdf-lib";
+import type { FontChain } from "./fonts";
+
+/* ============================= */
+/* MARCA DE AGUA POR DESTINATARIO */
+/* ============================= */
+
+export type WatermarkPlacement = "diagonal" | "margin";
+
+export type WatermarkSettings = {
+  /** Admite {{variables}}: cada copia lleva los datos de su destinatario */
+  text: string;
+  placement: WatermarkPlacement;
+  /** 0–1 */
+  opacity: number;
+  /** Tamaño máximo; en diagonal se reduce para que quepa en la hoja */
+  size: number;
+};
+
+/** Lo que queda en el historial: los parámetros y el texto tal como se estampó */
+export type WatermarkRecord = WatermarkSettings & { stamped: string };
+
+export const DEFAULT_WATERMARK: WatermarkSettings = {
+  text: "{{destinatario}} · {{correo}} · {{fecha}} · {{id_documento}}",
+  placement: "diagonal",
+  opacity: 0.15,
+  size: 40,
+};
+
+export const PLACEMENT_LABELS: Record<WatermarkPlacement, string> = {
+  diagonal: "En diagonal, sobre toda la hoja",
+  margin: "En el margen derecho",
+};
+
+const WATERMARK_COLOR = rgb(0.45, 0.45, 0.45);
+const MIN_SIZE = 6;
+const MARGIN_MAX_SIZE = 9;
+/** Distancia de la línea base al borde derecho en el modo "margin" */
+const MARGIN_INSET = 10;
+
+/**
+ * Estampa el texto (ya con las variables resueltas) en una hoja. En diagonal
+ * va centrado de esquina a esquina, un renglón por cada línea del texto; en
+ * el margen, en un solo renglón vertical que se lee de abajo arriba.
+ */
+export function drawWatermark(page: PDFPage, font: FontChain, wm: WatermarkSettings) {
+  const lines = wm.text
+    .split("\n")
+    .map((l) => l.trim())
+    .filter(Boolean);
+  if (lines.length === 0) return;
+
+  const { width, height } = page.getSize();
+  const opacity = Math.min(1, Math.max(0.02, wm.opacity));
+
+  if (wm.placement === "margin") {
+    const text = lines.join(" · ");
+    const size = Math.max(MIN_SIZE, Math.min(wm.size, MARGIN_MAX_SIZE, (height * 0.9) / font.widthOfTextAtSize(text, 1)));
+    const w = font.widthOfTextAtSize(text, size);
+    font.drawText(page, text, {
+      x: width - MARGIN_INSET,
+      y: (height - w) / 2,
+      size,
+      color: WATERMARK_COLOR,
+      rotate: 90,
+      opacity,
+    });
+    return;
+  }
+
+  const angle = Math.atan2(height, width);
+  const widest = Math.max(...lines.map((l) => font.widthOfTextAtSize(l, 1)));
+  const size = Math.max(MIN_SIZE, Math.min(wm.size, (Math.hypot(width, height) * 0.85) / widest));
+  const lineH = size * 1.25;
+  // u: dirección del texto; n: perpendicular (hacia "arriba" del renglón)
+  const [ux, uy] = [Math.cos(angle), Math.sin(angle)];
+  const [nx, ny] = [-uy, ux];
+
+  lines.forEach((line, i) => {
+    const w = font.widthOfTextAtSize(line, size);
+    // renglones centrados en la hoja; se baja un tercio de la letra para centrar la altura visual
+    const offset = ((lines.length - 1) / 2 - i) * lineH - size * 0.35;
+    font.drawText(page, line, {
+      x: width / 2 - (ux * w) / 2 + nx * offset,
+      y: height / 2 - (uy * w) / 2 + ny * offset,
+      size,
+      color: WATERMARK_COLOR,
+      rotate: (angle * 180) / Math.PI,
+      opacity,
+    });
+  });
+}